@@ -0,0 +1,263 @@
+/*
+ * =============================================================================
+ * Wallet Sign-In & Job Access
+ * =============================================================================
+ * Sign-in with a Solana wallet: the server issues a one-time nonce, the wallet
+ * signs a message containing it, and a valid ed25519 signature is exchanged
+ * for a session token, sent only in the Authorization header. A job belongs
+ * to the wallet that created it; read-only share links let anyone holding the
+ * link follow its progress, and the owner opens the job's event stream with a
+ * short-lived single-use stream token. Schedules belong to their creator the
+ * same way.
+ * =============================================================================
+ */
+
+import { createHash, createPublicKey, randomBytes, verify } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+import { query } from './db.js';
+
+const NONCE_TTL_SECONDS = 300;
+const SESSION_TTL_HOURS = parseInt(process.env.SESSION_TTL_HOURS || '24', 10);
+const STREAM_TOKEN_TTL_SECONDS = 60;
+// DER header that wraps a raw 32-byte ed25519 key as SPKI, which Node's crypto can load
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Only hashes of session and share tokens are stored
+const hashToken = (token) => createHash('sha256').update(token).digest('hex');
+const newToken = () => randomBytes(32).toString('base64url');
+
+function signInMessage(wallet, nonce, issuedAt) {
+  return [
+    'Sign in to Conductor to manage your token distributions.',
+    '',
+    `Wallet: ${wallet}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt}`,
+  ].join('\n');
+}
+
+// Issues a nonce and the message the wallet must sign. Throws on an invalid wallet address.
+export async function createSignInNonce(wallet) {
+  const walletAddress = new PublicKey(wallet).toBase58();
+  const nonce = newToken();
+  const message = signInMessage(walletAddress, nonce, new Date().toISOString());
+
+  await query('DELETE FROM auth_nonces WHERE expires_at < NOW()');
+  const result = await query(
+    `INSERT INTO auth_nonces (nonce, wallet_address, message, expires_at)
+     VALUES ($1, $2, $3, NOW() + make_interval(secs => $4))
+     RETURNING expires_at`,
+    [nonce, walletAddress, message, NONCE_TTL_SECONDS]
+  );
+
+  return { nonce, message, expires_at: result.rows[0].expires_at };
+}
+
+// Deletes the nonce and returns its message, or null if it is unknown, expired or for another wallet
+export async function consumeSignInNonce(wallet, nonce) {
+  const result = await query(
+    `DELETE FROM auth_nonces WHERE nonce = $1
+     RETURNING wallet_address, message, expires_at > NOW() AS fresh`,
+    [nonce]
+  );
+  const row = result.rows[0];
+  if (!row || !row.fresh || row.wallet_address !== wallet) {
+    return null;
+  }
+  return row.message;
+}
+
+// Checks a detached ed25519 signature over `message` by the wallet's key
+export function verifyWalletSignature(wallet, message, signature) {
+  if (signature.length !== 64) return false;
+  const key = createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, new PublicKey(wallet).toBuffer()]),
+    format: 'der',
+    type: 'spki',
+  });
+  return verify(null, Buffer.from(message, 'utf8'), key, signature);
+}
+
+export async function createSession(wallet) {
+  const token = newToken();
+
+  await query('DELETE FROM sessions WHERE expires_at < NOW()');
+  const result = await query(
+    `INSERT INTO sessions (token_hash, wallet_address, expires_at)
+     VALUES ($1, $2, NOW() + make_interval(hours => $3))
+     RETURNING expires_at`,
+    [hashToken(token), wallet, SESSION_TTL_HOURS]
+  );
+
+  return { token, wallet, expires_at: result.rows[0].expires_at };
+}
+
+export async function deleteSession(token) {
+  await query('DELETE FROM sessions WHERE token_hash = $1', [hashToken(token)]);
+}
+
+/**
+ * Resolves the session token, if any, into `req.auth` ({ wallet, token,
+ * expires_at }). The token only comes from an `Authorization: Bearer` header,
+ * so it never ends up in URLs and access logs.
+ */
+export async function authenticate(req, res, next) {
+  const header = req.get('Authorization');
+  const token = header?.startsWith('Bearer ') ? header.slice(7).trim() : null;
+  req.auth = null;
+  if (!token) return next();
+
+  try {
+    const result = await query(
+      'SELECT wallet_address, expires_at FROM sessions WHERE token_hash = $1 AND expires_at > NOW()',
+      [hashToken(String(token))]
+    );
+    if (result.rows.length > 0) {
+      req.auth = { wallet: result.rows[0].wallet_address, token: String(token), expires_at: result.rows[0].expires_at };
+    }
+    next();
+  } catch (err) {
+    console.error(`Error checking session:`, err);
+    res.status(500).json({ error: `Failed to check session: ${err.message}` });
+  }
+}
+
+// Issues a token that opens the job's event stream once, within STREAM_TOKEN_TTL_SECONDS
+export async function createStreamToken(jobId, wallet) {
+  const token = newToken();
+
+  await query('DELETE FROM stream_tokens WHERE expires_at < NOW()');
+  const result = await query(
+    `INSERT INTO stream_tokens (token_hash, job_id, wallet_address, expires_at)
+     VALUES ($1, $2, $3, NOW() + make_interval(secs => $4))
+     RETURNING expires_at`,
+    [hashToken(token), jobId, wallet, STREAM_TOKEN_TTL_SECONDS]
+  );
+  return { stream_token: token, expires_at: result.rows[0].expires_at };
+}
+
+/**
+ * For the event stream route only: EventSource cannot set headers, so a
+ * `stream_token` query parameter stands in for the session. The token is used
+ * up and only counts for the job it was issued for.
+ */
+export async function authenticateStreamToken(req, res, next) {
+  const token = req.query.stream_token;
+  if (req.auth || !token || !UUID_PATTERN.test(String(req.params.job_id))) return next();
+
+  try {
+    const result = await query(
+      `DELETE FROM stream_tokens WHERE token_hash = $1 AND job_id = $2
+       RETURNING wallet_address, expires_at > NOW() AS fresh`,
+      [hashToken(String(token)), req.params.job_id]
+    );
+    const row = result.rows[0];
+    if (row?.fresh) {
+      req.auth = { wallet: row.wallet_address, token: null, expires_at: null };
+    }
+    next();
+  } catch (err) {
+    console.error(`Error checking stream token:`, err);
+    res.status(500).json({ error: `Failed to check stream token: ${err.message}` });
+  }
+}
+
+export function requireSession(req, res, next) {
+  if (!req.auth) {
+    return res.status(401).json({ error: 'Sign in with your wallet first.' });
+  }
+  next();
+}
+
+export async function createShareLink(jobId, expiresInHours = null) {
+  const token = newToken();
+  const result = await query(
+    `INSERT INTO job_shares (token_hash, job_id, expires_at)
+     VALUES ($1, $2, CASE WHEN $3::int IS NULL THEN NULL ELSE NOW() + make_interval(hours => $3::int) END)
+     RETURNING expires_at`,
+    [hashToken(token), jobId, expiresInHours]
+  );
+  return { share_token: token, expires_at: result.rows[0].expires_at };
+}
+
+// Revokes every share link of a job; returns how many were still live
+export async function revokeShareLinks(jobId) {
+  const result = await query(
+    'UPDATE job_shares SET revoked_at = NOW() WHERE job_id = $1 AND revoked_at IS NULL',
+    [jobId]
+  );
+  return result.rowCount;
+}
+
+async function isValidShareToken(jobId, token) {
+  const result = await query(
+    `SELECT 1 FROM job_shares
+     WHERE token_hash = $1 AND job_id = $2 AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > NOW())`,
+    [hashToken(token), jobId]
+  );
+  return result.rows.length > 0;
+}
+
+/**
+ * Limits a job route to the job's owner. With `access` 'read', a valid
+ * `share` query parameter is enough too. Sets `req.jobAccess` to 'owner' or
+ * 'shared'. The job id comes from the route, or the body for routes without one.
+ */
+export function requireJobAccess(access) {
+  return async (req, res, next) => {
+    const jobId = req.params.job_id || req.body?.job_id;
+    if (!jobId || !UUID_PATTERN.test(String(jobId))) {
+      return res.status(404).json({ error: 'Job not found.' });
+    }
+
+    try {
+      const jobResult = await query('SELECT distributor_address FROM jobs WHERE job_id = $1', [jobId]);
+      if (jobResult.rows.length === 0) {
+        return res.status(404).json({ error: 'Job not found.' });
+      }
+
+      if (req.auth && req.auth.wallet === jobResult.rows[0].distributor_address) {
+        req.jobAccess = 'owner';
+        return next();
+      }
+      if (access === 'read' && req.query.share && (await isValidShareToken(jobId, String(req.query.share)))) {
+        req.jobAccess = 'shared';
+        return next();
+      }
+
+      if (!req.auth) {
+        return res.status(401).json({ error: 'Sign in with the wallet that created this job.' });
+      }
+      res.status(403).json({ error: 'This job belongs to another wallet.' });
+    } catch (err) {
+      console.error(`Error checking job access:`, err);
+      res.status(500).json({ error: `Failed to check job access: ${err.message}` });
+    }
+  };
+}
+
+// Limits a schedule route to the wallet that created the schedule
+export async function requireScheduleOwner(req, res, next) {
+  const { schedule_id } = req.params;
+  if (!UUID_PATTERN.test(String(schedule_id))) {
+    return res.status(404).json({ error: 'Schedule not found.' });
+  }
+  if (!req.auth) {
+    return res.status(401).json({ error: 'Sign in with the wallet that created this schedule.' });
+  }
+
+  try {
+    const result = await query('SELECT distributor_address FROM schedules WHERE schedule_id = $1', [schedule_id]);
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Schedule not found.' });
+    }
+    if (result.rows[0].distributor_address !== req.auth.wallet) {
+      return res.status(403).json({ error: 'This schedule belongs to another wallet.' });
+    }
+    next();
+  } catch (err) {
+    console.error(`Error checking schedule access:`, err);
+    res.status(500).json({ error: `Failed to check schedule access: ${err.message}` });
+  }
+}
@@ -1,4 +1,5 @@
 import pkg from 'pg';
+import { runMigrations } from './migrations.js';
 const { Pool } = pkg;
 
 const pool = new Pool({
@@ -8,48 +9,11 @@ const pool = new Pool({
   connectionTimeoutMillis: 2000,
 });
 
-// Initialize database schema
+// Initialize database schema by applying any pending migrations
 export async function initDatabase() {
   const client = await pool.connect();
   try {
-    // Create jobs table
-    await client.query(`
-      CREATE TABLE IF NOT EXISTS jobs (
-        job_id UUID PRIMARY KEY,
-        token_mint_address TEXT NOT NULL,
-        token_decimals INTEGER NOT NULL,
-        distributor_address TEXT NOT NULL,
-        mode TEXT NOT NULL,
-        status TEXT NOT NULL,
-        error_message TEXT,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      );
-    `);
-
-    // Create tasks table
-    await client.query(`
-      CREATE TABLE IF NOT EXISTS tasks (
-        task_id SERIAL PRIMARY KEY,
-        job_id UUID NOT NULL REFERENCES jobs(job_id) ON DELETE CASCADE,
-        recipient_address TEXT NOT NULL,
-        amount TEXT NOT NULL,
-        status TEXT NOT NULL,
-        retry_count INTEGER DEFAULT 0,
-        tx_signature TEXT,
-        error_message TEXT,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      );
-    `);
-
-    // Create indexes for better performance
-    await client.query(`
-      CREATE INDEX IF NOT EXISTS idx_tasks_job_id ON tasks(job_id);
-      CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
-      CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
-    `);
-
+    await runMigrations(client);
     console.log('✅ Database schema initialized successfully');
   } catch (err) {
     console.error('❌ Error initializing database:', err);
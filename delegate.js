@@ -0,0 +1,245 @@
+/*
+ * =============================================================================
+ * Delegate Signer
+ * =============================================================================
+ * Opt-in mode where the distributor approves a job-specific keypair as
+ * delegate over its token account, so the server can sign and send every
+ * transfer itself. Keys live in memory and, when KEYSTORE_SECRET is set, in
+ * an encrypted keystore on the job row so they survive a restart.
+ * =============================================================================
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { Keypair, PublicKey, SystemProgram } from '@solana/web3.js';
+import {
+  getAssociatedTokenAddressSync,
+  getAccount,
+  createApproveCheckedInstruction,
+  createRevokeInstruction,
+  TokenAccountNotFoundError,
+} from '@solana/spl-token';
+import { query } from './db.js';
+import { publishJobChange } from './events.js';
+import { compileSetupTransaction } from './transactions.js';
+import { getJobTokenProgramId } from './tokens.js';
+
+export const SIGNING_MODES = ['wallet', 'delegate'];
+
+// SOL sent to the delegate on top of the job's estimate: rent-exemption for
+// the delegate account itself plus headroom for gateway tips. Swept back later.
+const DELEGATE_SOL_BUFFER_LAMPORTS = BigInt(20_000_000);
+const LAMPORTS_PER_SIGNATURE = BigInt(5000);
+
+const KEYSTORE_SECRET = process.env.KEYSTORE_SECRET;
+
+// job_id -> Keypair for delegates created or loaded by this process
+const delegateKeys = new Map();
+
+function keystoreKey() {
+  return createHash('sha256').update(KEYSTORE_SECRET).digest();
+}
+
+function encryptSecretKey(secretKey) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', keystoreKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(secretKey), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64')).join(':');
+}
+
+function decryptSecretKey(keystore) {
+  const [iv, authTag, ciphertext] = keystore.split(':').map((part) => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv('aes-256-gcm', keystoreKey(), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+/**
+ * Generates a fresh delegate for a job. Returns the keypair and, if a
+ * keystore secret is configured, its encrypted secret key for the job row.
+ */
+export function createDelegateKeypair(jobId) {
+  const keypair = Keypair.generate();
+  delegateKeys.set(jobId, keypair);
+  return {
+    keypair,
+    keystore: KEYSTORE_SECRET ? encryptSecretKey(keypair.secretKey) : null,
+  };
+}
+
+// The job's delegate keypair, from memory or the encrypted keystore
+export function loadDelegateKeypair(job) {
+  const cached = delegateKeys.get(job.job_id);
+  if (cached) {
+    return cached;
+  }
+  if (!job.delegate_keystore || !KEYSTORE_SECRET) {
+    throw new Error('Delegate key is not available; it was held in memory by a previous server process.');
+  }
+
+  const keypair = Keypair.fromSecretKey(decryptSecretKey(job.delegate_keystore));
+  if (keypair.publicKey.toBase58() !== job.delegate_address) {
+    throw new Error('Delegate keystore does not match the job.');
+  }
+  delegateKeys.set(job.job_id, keypair);
+  return keypair;
+}
+
+// Drops every copy of the delegate key once it can no longer move tokens
+async function forgetDelegateKeypair(jobId) {
+  delegateKeys.delete(jobId);
+  await query('UPDATE jobs SET delegate_keystore = NULL, updated_at = NOW() WHERE job_id = $1', [jobId]);
+}
+
+function getDistributorTokenAccount(job) {
+  return getAssociatedTokenAddressSync(
+    new PublicKey(job.token_mint_address),
+    new PublicKey(job.distributor_address),
+    false,
+    getJobTokenProgramId(job)
+  );
+}
+
+// SOL the distributor sends the delegate to pay for ATA rent and fees
+export function getDelegateFunding(job) {
+  return BigInt(job.required_lamports || 0) + DELEGATE_SOL_BUFFER_LAMPORTS;
+}
+
+// Approves the job's total token amount to the delegate and funds it with SOL
+export function delegateApprovalInstructions(job) {
+  const distributorPubkey = new PublicKey(job.distributor_address);
+  const delegatePubkey = new PublicKey(job.delegate_address);
+
+  return [
+    createApproveCheckedInstruction(
+      getDistributorTokenAccount(job),
+      new PublicKey(job.token_mint_address),
+      delegatePubkey,
+      distributorPubkey,
+      BigInt(job.delegate_approved_amount),
+      job.token_decimals,
+      [],
+      getJobTokenProgramId(job)
+    ),
+    SystemProgram.transfer({
+      fromPubkey: distributorPubkey,
+      toPubkey: delegatePubkey,
+      lamports: getDelegateFunding(job),
+    }),
+  ];
+}
+
+// The transaction the distributor signs to start a delegate job
+export async function buildApproveTransaction(connection, job) {
+  const latestBlockhash = await connection.getLatestBlockhash('confirmed');
+  return compileSetupTransaction(
+    new PublicKey(job.distributor_address),
+    latestBlockhash.blockhash,
+    delegateApprovalInstructions(job)
+  );
+}
+
+// Only the token account owner can revoke, so this goes to the distributor's wallet
+export async function buildRevokeTransaction(connection, job) {
+  const distributorPubkey = new PublicKey(job.distributor_address);
+  const latestBlockhash = await connection.getLatestBlockhash('confirmed');
+
+  return compileSetupTransaction(distributorPubkey, latestBlockhash.blockhash, [
+    createRevokeInstruction(getDistributorTokenAccount(job), distributorPubkey, [], getJobTokenProgramId(job)),
+  ]);
+}
+
+// Allowance the delegate still holds over the distributor's token account
+async function fetchRemainingAllowance(connection, job) {
+  try {
+    const account = await getAccount(connection, getDistributorTokenAccount(job), 'confirmed', getJobTokenProgramId(job));
+    return account.delegate?.toBase58() === job.delegate_address ? account.delegatedAmount : BigInt(0);
+  } catch (err) {
+    if (err instanceof TokenAccountNotFoundError) {
+      return BigInt(0);
+    }
+    throw err;
+  }
+}
+
+/**
+ * What the delegate has to spend on the job's transfers, in the shape of
+ * fetchDistributorBalances: its SOL, and the tokens its allowance lets it move
+ * out of the distributor's account. Before the approval lands, the funding
+ * and allowance it will bring are counted as if it had.
+ */
+export async function fetchDelegateBalances(connection, job) {
+  const solBalance = BigInt(await connection.getBalance(new PublicKey(job.delegate_address), 'confirmed'));
+  let tokenBalance = BigInt(0);
+  try {
+    const account = await getAccount(connection, getDistributorTokenAccount(job), 'confirmed', getJobTokenProgramId(job));
+    tokenBalance = account.amount;
+  } catch (err) {
+    if (!(err instanceof TokenAccountNotFoundError)) {
+      throw err;
+    }
+  }
+
+  const approved = job.delegate_status !== 'created';
+  const allowance = approved ? await fetchRemainingAllowance(connection, job) : BigInt(job.delegate_approved_amount);
+  return {
+    solBalance: approved ? solBalance : solBalance + getDelegateFunding(job),
+    tokenBalance: tokenBalance < allowance ? tokenBalance : allowance,
+  };
+}
+
+// Returns whatever SOL the delegate has left to the distributor
+async function sweepDelegateBalance(connection, job, keypair) {
+  const balance = BigInt(await connection.getBalance(keypair.publicKey, 'confirmed'));
+  if (balance <= LAMPORTS_PER_SIGNATURE) {
+    return null;
+  }
+
+  const latestBlockhash = await connection.getLatestBlockhash('confirmed');
+  const transaction = compileSetupTransaction(keypair.publicKey, latestBlockhash.blockhash, [
+    SystemProgram.transfer({
+      fromPubkey: keypair.publicKey,
+      toPubkey: new PublicKey(job.distributor_address),
+      lamports: balance - LAMPORTS_PER_SIGNATURE,
+    }),
+  ]);
+  transaction.sign([keypair]);
+
+  const signature = await connection.sendTransaction(transaction);
+  await connection.confirmTransaction({ signature, ...latestBlockhash }, 'confirmed');
+  return signature;
+}
+
+/**
+ * Winds a delegate job down once it ends. The token program clears the
+ * delegate by itself when the allowance is fully spent; then the delegate's
+ * SOL is swept back and its key discarded. If allowance is left over (failed
+ * transfers), the key is kept for retries and the distributor is asked to
+ * sign a revoke.
+ */
+export async function settleDelegation(connection, job) {
+  if (job.signing_mode !== 'delegate' || !['approved', 'revoke_pending'].includes(job.delegate_status)) {
+    return job.delegate_status;
+  }
+
+  const remaining = await fetchRemainingAllowance(connection, job);
+  if (remaining > BigInt(0)) {
+    await query('UPDATE jobs SET delegate_status = $1, updated_at = NOW() WHERE job_id = $2', [
+      'revoke_pending',
+      job.job_id,
+    ]);
+    publishJobChange(job.job_id);
+    console.log(`[Job ${job.job_id}]: Delegate still holds ${remaining} tokens of allowance; waiting for revoke`);
+    return 'revoke_pending';
+  }
+
+  const keypair = loadDelegateKeypair(job);
+  const signature = await sweepDelegateBalance(connection, job, keypair);
+  await query('UPDATE jobs SET delegate_status = $1, updated_at = NOW() WHERE job_id = $2', [
+    'revoked',
+    job.job_id,
+  ]);
+  await forgetDelegateKeypair(job.job_id);
+  publishJobChange(job.job_id);
+  console.log(`[Job ${job.job_id}]: Delegation ended${signature ? `, SOL swept back in ${signature}` : ''}`);
+  return 'revoked';
+}
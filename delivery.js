@@ -0,0 +1,339 @@
+/*
+ * =============================================================================
+ * Transaction Delivery
+ * =============================================================================
+ * Providers that put a signed transfer transaction on the network:
+ *   sanctum - Sanctum Gateway: buildGatewayTransaction, then sendTransaction
+ *   rpc     - sendRawTransaction to the configured RPC node
+ *   jito    - a one-transaction Jito bundle; the transaction carries the tip
+ *   mock    - local stand-in for the gateway that sends to the RPC node, e.g.
+ *             solana-test-validator, with optional latency and failures
+ * A job names its provider (or gets DELIVERY_PROVIDER); if that provider
+ * fails, the DELIVERY_FALLBACKS are tried in turn, but only where a second
+ * send cannot land the same transfers twice. Errors from the transport rather
+ * than the transaction (rate limits, 5xx responses, dropped connections,
+ * timeouts) are flagged `transient` so callers can back off and try again.
+ * Just before a transaction goes out, its signature and last valid block
+ * height are handed to the caller to record, so a send cut short by a crash
+ * can always be looked up.
+ * =============================================================================
+ */
+
+import bs58 from 'bs58';
+import { PublicKey, SendTransactionError, SystemProgram, VersionedTransaction } from '@solana/web3.js';
+import { jobModeProfile, gatewayBuildParams } from './modes.js';
+
+export const DELIVERY_PROVIDERS = ['sanctum', 'rpc', 'jito', 'mock'];
+
+// --- Configuration ---
+const DEFAULT_DELIVERY_PROVIDER = process.env.DELIVERY_PROVIDER || 'sanctum';
+const DELIVERY_FALLBACKS = (process.env.DELIVERY_FALLBACKS ?? 'rpc')
+  .split(',')
+  .map((name) => name.trim())
+  .filter(Boolean);
+
+const SANCTUM_API_KEY = process.env.SANCTUM_API_KEY;
+const GATEWAY_API_URL = `https://tpg.sanctum.so/v1/${process.env.SOLANA_CLUSTER}?apiKey=${SANCTUM_API_KEY}`;
+
+const JITO_BLOCK_ENGINE_URL = process.env.JITO_BLOCK_ENGINE_URL || 'https://mainnet.block-engine.jito.wtf';
+const JITO_TIP_LAMPORTS = parseInt(process.env.JITO_TIP_LAMPORTS || '10000', 10);
+// Jito's tip payment accounts; a bundle must pay one of them
+const JITO_TIP_ACCOUNTS = [
+  '96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5',
+  'HFqU5x63VTqvQss8hp11i4wVV8bD44PvwucfZ2bU7gRe',
+  'Cw8CFyM9FkoMi7K7Crf6HNQqf4uEMzpKw6QNghXLvLkY',
+  'ADaUMid9yfUytqMBgopwjb2DTLSokTSzL1zt6iGPaS49',
+  'DfXygSm4jCyNCybVYYK6DwvWqjKee8pbDmJGcLWNDXjh',
+  'ADuUkR4vqLUMWXxW9gh6D6L8pMSawimctcNZ5pGwDcEt',
+  'DttWaMuVvTiduZRnguLF7jNxTgiMBZ1hyAumKUiL2KRL',
+  '3AVi9Tg9Uo68tJfuvoKvqKNWKkC5wPdSSdeBnizKZ6jT',
+];
+
+const MOCK_FAILURE_RATE = parseFloat(process.env.MOCK_DELIVERY_FAILURE_RATE || '0');
+const MOCK_LATENCY_MS = parseInt(process.env.MOCK_DELIVERY_LATENCY_MS || '0', 10);
+
+// Blocks a blockhash stays valid for, used when the provider does not report it
+const BLOCKHASH_VALIDITY_BLOCKS = 150;
+// Longest wait for one delivery request; well inside crash recovery's 300 second staleness window
+const DELIVERY_TIMEOUT_MS = 30000;
+
+// An error raised before the transaction left this server, so another provider may safely try
+function unsentError(message) {
+  const err = new Error(message);
+  err.unsent = true;
+  return err;
+}
+
+// A rate limit or RPC failure; only a 429 is certain to have been turned away unsent
+function transientError(err, { unsent = false } = {}) {
+  err.transient = true;
+  if (unsent) err.unsent = true;
+  return err;
+}
+
+// Rejects with a transient error if `promise` has not settled within DELIVERY_TIMEOUT_MS
+function withTimeout(promise, label) {
+  let timer;
+  const timeout = new Promise((resolve, reject) => {
+    timer = setTimeout(
+      () => reject(transientError(new Error(`${label} timed out after ${DELIVERY_TIMEOUT_MS}ms`))),
+      DELIVERY_TIMEOUT_MS
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// The transaction id: the fee payer's signature
+const transactionSignature = (tx) => bs58.encode(tx.signatures[0]);
+
+// Decodes the transaction and, for delegate jobs, signs it as the delegate
+function prepareTransaction(transaction, signer) {
+  const tx = VersionedTransaction.deserialize(Buffer.from(transaction, 'base64'));
+  if (signer) tx.sign([signer]);
+  return tx;
+}
+
+// Taken before sending, so it is never earlier than the real expiry of a blockhash fetched before
+async function estimateLastValidBlockHeight(connection) {
+  try {
+    return (await withTimeout(connection.getBlockHeight('confirmed'), 'getBlockHeight')) + BLOCKHASH_VALIDITY_BLOCKS;
+  } catch (err) {
+    throw transientError(unsentError(`Could not read the block height: ${err.message}`));
+  }
+}
+
+// Hands the transaction about to go out to the caller; a failure to record it stops the send
+async function announceSend(beforeSend, tx, lastValidBlockHeight) {
+  if (!beforeSend) return;
+  try {
+    await beforeSend({ signature: transactionSignature(tx), lastValidBlockHeight });
+  } catch (err) {
+    throw unsentError(`Could not record the send: ${err.message}`);
+  }
+}
+
+// Sends the transaction as it is over RPC; a rejected preflight means it never went out
+async function sendRaw(connection, tx, beforeSend) {
+  const lastValidBlockHeight = await estimateLastValidBlockHeight(connection);
+  await announceSend(beforeSend, tx, lastValidBlockHeight);
+  try {
+    const signature = await withTimeout(
+      connection.sendRawTransaction(tx.serialize(), { maxRetries: 5 }),
+      'sendRawTransaction'
+    );
+    return { signature, lastValidBlockHeight };
+  } catch (err) {
+    if (err instanceof SendTransactionError) throw unsentError(err.message);
+    // web3.js reports HTTP failures as "<status> <text>: <body>" once its own 429 retries run out
+    throw transientError(err, { unsent: /^429\b/.test(err.message) });
+  }
+}
+
+async function postJsonRpc(url, id, method, params) {
+  let response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id, method, params }),
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+  } catch (err) {
+    throw transientError(new Error(`${method} request failed: ${err.message}`));
+  }
+  if (response.status === 429 || response.status >= 500) {
+    throw transientError(new Error(`${method} returned HTTP ${response.status}`), { unsent: response.status === 429 });
+  }
+  return response.json();
+}
+
+/**
+ * Every provider has `deliver(connection, job, batchId, transaction, signer,
+ * beforeSend)` resolving to { signature, lastValidBlockHeight }, and awaits
+ * `beforeSend({ signature, lastValidBlockHeight })` right before the bytes
+ * leave this server. `resendsAsIs` marks providers that send the exact bytes
+ * they are given: sending those twice can only land once, so they may follow
+ * a provider whose send failed midway.
+ */
+const PROVIDERS = {
+  sanctum: {
+    label: 'Sanctum Gateway',
+    resendsAsIs: false,
+    isConfigured: () => Boolean(SANCTUM_API_KEY && process.env.SOLANA_CLUSTER),
+    // Optimizes the transaction with buildGatewayTransaction and delivers it with sendTransaction
+    async deliver(connection, job, batchId, transaction, signer, beforeSend) {
+      VersionedTransaction.deserialize(Buffer.from(transaction, 'base64'));
+
+      let buildResult;
+      try {
+        buildResult = await postJsonRpc(
+          GATEWAY_API_URL,
+          `conductor-${job.job_id}-${batchId}`,
+          'buildGatewayTransaction',
+          [transaction, gatewayBuildParams(jobModeProfile(job))]
+        );
+      } catch (err) {
+        const buildError = unsentError(`Sanctum build request failed: ${err.message}`);
+        buildError.transient = err.transient;
+        throw buildError;
+      }
+      if (buildResult.error || !buildResult.result) {
+        throw unsentError(`Sanctum build error: ${JSON.stringify(buildResult.error)}`);
+      }
+
+      const tx = prepareTransaction(buildResult.result.transaction, signer);
+      const optimizedTx = Buffer.from(tx.serialize()).toString('base64');
+
+      // The gateway may refresh the blockhash; remember when it stops being valid
+      const lastValidBlockHeight =
+        buildResult.result.latestBlockhash?.lastValidBlockHeight ?? (await estimateLastValidBlockHeight(connection));
+      await announceSend(beforeSend, tx, lastValidBlockHeight);
+
+      const sendResult = await postJsonRpc(
+        GATEWAY_API_URL,
+        `conductor-send-${job.job_id}-${batchId}`,
+        'sendTransaction',
+        [optimizedTx, { encoding: 'base64' }]
+      );
+      if (sendResult.error) {
+        throw new Error(`Sanctum send error: ${JSON.stringify(sendResult.error)}`);
+      }
+
+      return { signature: sendResult.result, lastValidBlockHeight };
+    },
+  },
+
+  rpc: {
+    label: 'RPC node',
+    resendsAsIs: true,
+    isConfigured: () => true,
+    async deliver(connection, job, batchId, transaction, signer, beforeSend) {
+      return sendRaw(connection, prepareTransaction(transaction, signer), beforeSend);
+    },
+  },
+
+  jito: {
+    label: 'Jito bundle',
+    resendsAsIs: true,
+    isConfigured: () => Boolean(JITO_BLOCK_ENGINE_URL),
+    // A tip to a random tip account, appended to every transaction of jobs delivered by Jito
+    transactionInstructions: (payer) => [
+      SystemProgram.transfer({
+        fromPubkey: payer,
+        toPubkey: new PublicKey(JITO_TIP_ACCOUNTS[Math.floor(Math.random() * JITO_TIP_ACCOUNTS.length)]),
+        lamports: JITO_TIP_LAMPORTS,
+      }),
+    ],
+    async deliver(connection, job, batchId, transaction, signer, beforeSend) {
+      const tx = prepareTransaction(transaction, signer);
+      const accountKeys = tx.message.staticAccountKeys.map((key) => key.toBase58());
+      if (!JITO_TIP_ACCOUNTS.some((account) => accountKeys.includes(account))) {
+        throw unsentError('Transaction carries no Jito tip; only jobs built for Jito can be bundled.');
+      }
+      const lastValidBlockHeight = await estimateLastValidBlockHeight(connection);
+      await announceSend(beforeSend, tx, lastValidBlockHeight);
+
+      const result = await postJsonRpc(
+        `${JITO_BLOCK_ENGINE_URL}/api/v1/bundles`,
+        `conductor-${job.job_id}-${batchId}`,
+        'sendBundle',
+        [[Buffer.from(tx.serialize()).toString('base64')], { encoding: 'base64' }]
+      );
+      if (result.error) {
+        throw unsentError(`Jito bundle rejected: ${JSON.stringify(result.error)}`);
+      }
+
+      return { signature: transactionSignature(tx), lastValidBlockHeight };
+    },
+  },
+
+  mock: {
+    label: 'Local mock gateway',
+    resendsAsIs: true,
+    isConfigured: () => true,
+    async deliver(connection, job, batchId, transaction, signer, beforeSend) {
+      if (MOCK_LATENCY_MS > 0) {
+        await new Promise((resolve) => setTimeout(resolve, MOCK_LATENCY_MS));
+      }
+      if (Math.random() < MOCK_FAILURE_RATE) {
+        throw unsentError('Mock gateway: injected failure.');
+      }
+      return sendRaw(connection, prepareTransaction(transaction, signer), beforeSend);
+    },
+  },
+};
+
+// The provider a job asked for, or the server default
+export function resolveDeliveryProvider(job) {
+  return job.delivery_provider || DEFAULT_DELIVERY_PROVIDER;
+}
+
+export function isDeliveryProviderAvailable(name) {
+  return Boolean(PROVIDERS[name]?.isConfigured());
+}
+
+export function listDeliveryProviders() {
+  return DELIVERY_PROVIDERS.map((name) => ({
+    name,
+    label: PROVIDERS[name].label,
+    configured: PROVIDERS[name].isConfigured(),
+    default: name === DEFAULT_DELIVERY_PROVIDER,
+  }));
+}
+
+// Instructions the job's provider needs in every transfer transaction, paid by `payer`
+export function deliveryInstructions(job, payer) {
+  return PROVIDERS[resolveDeliveryProvider(job)]?.transactionInstructions?.(payer) ?? [];
+}
+
+/**
+ * Delivers a transaction with the job's provider, falling back to
+ * DELIVERY_FALLBACKS when it fails. After a failure that may have sent the
+ * transaction anyway, only providers that resend the same bytes are tried,
+ * and none at all after a provider that rebuilt it. `beforeSend` is awaited
+ * with { signature, lastValidBlockHeight } before each send. Resolves to {
+ * signature, lastValidBlockHeight, provider }; throws the last error if every
+ * one fails, never an `unsent` one once the transaction may have gone out.
+ */
+export async function deliverTransaction(connection, job, batchId, transaction, signer, beforeSend) {
+  const chain = [...new Set([resolveDeliveryProvider(job), ...DELIVERY_FALLBACKS])];
+  let mayHaveSent = false;
+  let lastError = null;
+
+  for (const name of chain) {
+    const provider = PROVIDERS[name];
+    if (!provider) {
+      lastError ??= new Error(`Unknown delivery provider "${name}".`);
+      continue;
+    }
+    if (!provider.isConfigured()) {
+      lastError ??= new Error(`Delivery provider "${name}" is not configured.`);
+      continue;
+    }
+    if (mayHaveSent && !provider.resendsAsIs) continue;
+
+    if (lastError) {
+      console.log(`[Job ${job.job_id}]: Batch ${batchId} falling back to ${name} delivery (${lastError.message})`);
+    }
+    try {
+      return { ...(await provider.deliver(connection, job, batchId, transaction, signer, beforeSend)), provider: name };
+    } catch (err) {
+      // Once the bytes may be out, a later provider turning them away does not make the transfer unsent
+      if (mayHaveSent && err.unsent) continue;
+      lastError = err;
+      if (!err.unsent) {
+        // The bytes may be out there; a rebuilt transaction could land the same transfers twice
+        if (!provider.resendsAsIs) break;
+        mayHaveSent = true;
+      }
+    }
+  }
+
+  throw lastError;
+}
+
+// Default provider and fallbacks, for the startup banner
+export function describeDeliveryConfig() {
+  const fallbacks = DELIVERY_FALLBACKS.length > 0 ? ` (fallback: ${DELIVERY_FALLBACKS.join(', ')})` : '';
+  return `${DEFAULT_DELIVERY_PROVIDER}${fallbacks}`;
+}
@@ -0,0 +1,26 @@
+/*
+ * =============================================================================
+ * Job Events
+ * =============================================================================
+ * In-process notifications that a job or some of its tasks changed. Code that
+ * moves tasks between states publishes the task ids it touched; the SSE
+ * endpoint subscribes per job and reads the changed rows back to push them.
+ * =============================================================================
+ */
+
+import { EventEmitter } from 'events';
+
+const jobEvents = new EventEmitter();
+// One listener per open SSE connection, so there is no sensible cap
+jobEvents.setMaxListeners(0);
+
+// Announces that a job changed; `taskIds` lists the tasks whose rows changed with it
+export function publishJobChange(jobId, taskIds = []) {
+  jobEvents.emit(`job:${jobId}`, taskIds);
+}
+
+// Calls `listener(taskIds)` on every change to the job. Returns an unsubscribe function.
+export function subscribeToJob(jobId, listener) {
+  jobEvents.on(`job:${jobId}`, listener);
+  return () => jobEvents.off(`job:${jobId}`, listener);
+}
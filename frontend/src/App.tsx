@@ -1,24 +1,55 @@
-import { useState } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import WalletContextProvider from './contexts/WalletContextProvider';
+import { SessionProvider } from './contexts/SessionContext';
 import Header from './components/Header';
 import StarryBackground from './components/StarryBackground';
 import HomeView from './components/views/HomeView';
 import UploadView from './components/views/UploadView';
 import DashboardView from './components/views/DashboardView';
+import JobsView from './components/views/JobsView';
+import SchedulesView from './components/views/SchedulesView';
 import Footer from './components/Footer';
+import { useRoute } from './hooks/useRoute';
 
-export type View = 'home' | 'upload' | 'dashboard';
+export type View = 'home' | 'upload' | 'jobs' | 'schedules' | 'dashboard';
 
 export default function App() {
-  const [activeView, setActiveView] = useState<View>('home');
-  const [jobId, setJobId] = useState<string | null>(null);
+  const { view: activeView, jobId: routeJobId, shareToken, navigate } = useRoute();
+  // The last job opened or created, so "View Dashboard" still works from other views
+  const [jobId, setJobIdState] = useState<string | null>(routeJobId);
+  // Read by navigation callbacks that may run before the state update lands
+  const jobIdRef = useRef<string | null>(routeJobId);
+
+  const setJobId = useCallback((id: string | null) => {
+    jobIdRef.current = id;
+    setJobIdState(id);
+  }, []);
+
+  useEffect(() => {
+    if (routeJobId && routeJobId !== jobIdRef.current) {
+      setJobId(routeJobId);
+    }
+  }, [routeJobId, setJobId]);
+
+  const setActiveView = useCallback((view: View) => {
+    navigate(view, view === 'dashboard' ? jobIdRef.current : null);
+  }, [navigate]);
+
+  const openJob = useCallback((id: string) => {
+    setJobId(id);
+    navigate('dashboard', id);
+  }, [navigate, setJobId]);
 
   const renderView = () => {
     switch (activeView) {
       case 'upload':
         return <UploadView setActiveView={setActiveView} setJobId={setJobId} />;
+      case 'jobs':
+        return <JobsView setActiveView={setActiveView} openJob={openJob} />;
+      case 'schedules':
+        return <SchedulesView setActiveView={setActiveView} openJob={openJob} />;
       case 'dashboard':
-        return <DashboardView setActiveView={setActiveView} jobId={jobId} />;
+        return <DashboardView setActiveView={setActiveView} jobId={jobId} shareToken={shareToken} />;
       case 'home':
       default:
         return <HomeView setActiveView={setActiveView} jobId={jobId} />;
@@ -27,14 +58,16 @@ export default function App() {
 
   return (
     <WalletContextProvider>
-      <div className="min-h-screen bg-gradient-to-b from-zinc-950 via-neutral-950 to-black text-zinc-100 flex flex-col">
-        <StarryBackground />
-        <Header setActiveView={setActiveView} activeView={activeView} />
-        <main className="relative z-10 flex-grow">
-          {renderView()}
-        </main>
-        <Footer />
-      </div>
+      <SessionProvider>
+        <div className="min-h-screen bg-gradient-to-b from-zinc-950 via-neutral-950 to-black text-zinc-100 flex flex-col">
+          <StarryBackground />
+          <Header setActiveView={setActiveView} activeView={activeView} />
+          <main className="relative z-10 flex-grow">
+            {renderView()}
+          </main>
+          <Footer />
+        </div>
+      </SessionProvider>
     </WalletContextProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,48 @@
+import React from 'react';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+
+interface ConfirmDialogProps {
+  title: string;
+  children: React.ReactNode;
+  confirmLabel: string;
+  isBusy?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Modal that asks before an action that cannot be undone
+const ConfirmDialog: React.FC<ConfirmDialogProps> = ({ title, children, confirmLabel, isBusy = false, onConfirm, onCancel }) => (
+  <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm px-6" onClick={isBusy ? undefined : onCancel}>
+    <div
+      role="dialog"
+      aria-modal="true"
+      className="max-w-md w-full border border-white/10 rounded-2xl p-8 bg-zinc-950"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center gap-3 mb-4">
+        <AlertTriangle className="w-5 h-5 text-red-300" />
+        <h3 className="text-lg font-medium">{title}</h3>
+      </div>
+      <div className="text-sm text-zinc-400 leading-relaxed mb-8">{children}</div>
+      <div className="flex justify-end gap-3">
+        <button
+          onClick={onCancel}
+          disabled={isBusy}
+          className="px-4 py-2 border border-white/20 rounded-lg text-sm font-medium hover:border-white/40 hover:bg-white/5 transition-all disabled:opacity-50"
+        >
+          Keep going
+        </button>
+        <button
+          onClick={onConfirm}
+          disabled={isBusy}
+          className="px-4 py-2 bg-red-950/50 text-red-200 border border-red-900/50 rounded-lg text-sm font-medium hover:bg-red-900/40 transition-all disabled:opacity-50 flex items-center gap-2"
+        >
+          {isBusy && <Loader2 className="w-4 h-4 animate-spin" />}
+          {confirmLabel}
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
+export default ConfirmDialog;
\ No newline at end of file
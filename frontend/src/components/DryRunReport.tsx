@@ -0,0 +1,110 @@
+import React from 'react';
+import { AlertCircle, CheckCircle, Cpu, Coins } from 'lucide-react';
+import { DryRunReport as DryRunReportData } from '../types';
+
+interface DryRunReportProps {
+  report: DryRunReportData;
+  onAccept: () => void;
+  onCancel: () => void;
+  isSubmitting: boolean;
+}
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+const formatSol = (lamports: string) => (Number(lamports) / LAMPORTS_PER_SOL).toFixed(6);
+
+const DryRunReport: React.FC<DryRunReportProps> = ({ report, onAccept, onCancel, isSubmitting }) => {
+  const { summary } = report;
+  const failedTasks = report.tasks.filter((task) => !task.success);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-xl font-light tracking-tight mb-1">Pre-flight Report</h3>
+        <p className="text-sm text-zinc-400">
+          {summary?.sampled
+            ? `The first ${summary.tasks} of ${summary.pending_tasks} transfers were simulated against the RPC; costs and failures below cover those only. Review before signing.`
+            : 'Every transaction was simulated against the RPC. Review before signing.'}
+        </p>
+      </div>
+
+      {summary ? (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="p-4 border border-white/10 rounded-xl bg-white/5">
+              <div className="text-2xl font-light text-zinc-100">{summary.transactions}</div>
+              <div className="text-xs text-zinc-500">Transactions for {summary.tasks} recipients</div>
+            </div>
+            <div className="p-4 border border-white/10 rounded-xl bg-white/5">
+              <div className="flex items-center gap-2">
+                <Cpu className="w-4 h-4 text-zinc-400" />
+                <div className="text-2xl font-light text-zinc-100">{summary.compute_units.toLocaleString()}</div>
+              </div>
+              <div className="text-xs text-zinc-500">Compute units</div>
+            </div>
+          </div>
+
+          <div className="p-4 border border-white/10 rounded-xl bg-white/5 space-y-2 text-sm">
+            <div className="flex items-center gap-2 mb-2 text-zinc-300">
+              <Coins className="w-4 h-4" />
+              <span className="font-medium">Estimated cost: {summary.estimated_cost.total_sol.toFixed(6)} SOL</span>
+            </div>
+            <div className="flex justify-between text-zinc-400">
+              <span>Base fees</span><span className="font-mono">{formatSol(summary.estimated_cost.base_fees)}</span>
+            </div>
+            <div className="flex justify-between text-zinc-400">
+              <span>Priority fees</span><span className="font-mono">{formatSol(summary.estimated_cost.priority_fees)}</span>
+            </div>
+            <div className="flex justify-between text-zinc-400">
+              <span>ATA rent ({summary.estimated_cost.accounts_to_create} accounts)</span>
+              <span className="font-mono">{formatSol(summary.estimated_cost.ata_rent)}</span>
+            </div>
+            {summary.estimated_cost.lookup_table_rent !== '0' && (
+              <div className="flex justify-between text-zinc-400">
+                <span>Lookup table rent (refundable)</span>
+                <span className="font-mono">{formatSol(summary.estimated_cost.lookup_table_rent)}</span>
+              </div>
+            )}
+          </div>
+
+          {failedTasks.length > 0 ? (
+            <div className="p-4 bg-red-950/30 border border-red-900/30 rounded-xl">
+              <div className="flex items-center gap-2 text-sm text-red-300 mb-3">
+                <AlertCircle className="w-4 h-4" />
+                {failedTasks.length} of {summary.tasks} transfers would fail
+              </div>
+              <ul className="space-y-1 max-h-48 overflow-y-auto text-xs">
+                {failedTasks.map((task) => (
+                  <li key={task.task_id} className="flex justify-between gap-4 text-red-200/80">
+                    <span className="font-mono">{`${task.recipient_address.slice(0, 8)}...${task.recipient_address.slice(-8)}`}</span>
+                    <span>{task.error}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <div className="p-4 border border-white/20 rounded-xl bg-white/10 flex items-center gap-2 text-sm text-zinc-200">
+              <CheckCircle className="w-4 h-4" />
+              All transfers simulated successfully
+            </div>
+          )}
+        </>
+      ) : (
+        <p className="text-sm text-zinc-400">{report.message || 'Nothing to simulate.'}</p>
+      )}
+
+      <div className="flex gap-4">
+        <button type="button" onClick={onCancel} disabled={isSubmitting}
+          className="flex-1 py-4 border border-white/20 rounded-xl font-medium hover:border-white/40 hover:bg-white/5 transition-all disabled:opacity-50 disabled:cursor-not-allowed">
+          Cancel
+        </button>
+        <button type="button" onClick={onAccept} disabled={isSubmitting}
+          className="flex-1 py-4 bg-gradient-to-br from-zinc-200 to-white text-zinc-900 rounded-xl font-medium hover:shadow-lg hover:shadow-white/20 transition-all disabled:opacity-50 disabled:cursor-not-allowed">
+          {failedTasks.length > 0 ? 'Accept & Sign Anyway' : 'Accept & Sign'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DryRunReport;
\ No newline at end of file
@@ -1,6 +1,8 @@
 import React from 'react';
 import { Zap } from 'lucide-react';
 import { WalletMultiButton } from '@solana/wallet-adapter-react-ui';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { useSession } from '../contexts/SessionContext';
 import { View } from '../App';
 
 interface HeaderProps {
@@ -9,6 +11,9 @@ interface HeaderProps {
 }
 
 const Header: React.FC<HeaderProps> = ({ setActiveView, activeView }) => {
+  const { publicKey } = useWallet();
+  const { session, isSigningIn, signIn, signOut } = useSession();
+
   const handleNavClick = (e: React.MouseEvent<HTMLAnchorElement>, sectionId: string) => {
     e.preventDefault();
 
@@ -50,9 +55,32 @@ const Header: React.FC<HeaderProps> = ({ setActiveView, activeView }) => {
             <a href="#how-it-works" onClick={(e) => handleNavClick(e, 'how-it-works')} className="text-zinc-500 hover:text-zinc-300 transition-all">
               How It Works
             </a>
+            <a
+              href="/jobs"
+              onClick={(e) => { e.preventDefault(); setActiveView('jobs'); }}
+              className={`${activeView === 'jobs' ? 'text-zinc-300' : 'text-zinc-500'} hover:text-zinc-300 transition-all`}
+            >
+              Jobs
+            </a>
+            <a
+              href="/schedules"
+              onClick={(e) => { e.preventDefault(); setActiveView('schedules'); }}
+              className={`${activeView === 'schedules' ? 'text-zinc-300' : 'text-zinc-500'} hover:text-zinc-300 transition-all`}
+            >
+              Schedules
+            </a>
           </nav>
           
           <div className="flex items-center gap-3">
+            {publicKey && (
+              <button
+                onClick={() => (session ? signOut() : signIn().catch((err) => console.error('Error signing in:', err)))}
+                disabled={isSigningIn}
+                className="px-3 py-2 border border-white/10 rounded-lg text-xs text-zinc-400 hover:text-zinc-200 hover:border-white/20 transition-all disabled:opacity-50"
+              >
+                {session ? 'Sign out' : isSigningIn ? 'Signing in...' : 'Sign in'}
+              </button>
+            )}
             <WalletMultiButton className="!bg-gradient-to-br !from-zinc-200 !to-white !text-zinc-900 !rounded-lg !font-medium !px-4 !py-2 !text-sm hover:!shadow-lg hover:!shadow-white/20 transition-all" />
             <div className="px-3 py-1.5 border border-white/10 rounded-lg text-xs flex items-center gap-2 bg-white/5">
               <div className="w-1.5 h-1.5 bg-zinc-400 rounded-full"></div>
@@ -0,0 +1,52 @@
+import React from 'react';
+import { Loader2, Pause, Play, CheckCircle, AlertCircle } from 'lucide-react';
+import { SigningSession } from '../hooks/useSigningSession';
+
+interface SigningProgressProps {
+  session: SigningSession;
+}
+
+const SigningProgress: React.FC<SigningProgressProps> = ({ session }) => {
+  const { status, message, submitted, total, pause, resume } = session;
+  const progress = total > 0 ? Math.round((submitted / total) * 100) : 0;
+
+  return (
+    <div className="p-5 border border-white/10 rounded-xl bg-white/5 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2 text-sm text-zinc-300">
+          {status === 'running' && <Loader2 className="w-4 h-4 animate-spin" />}
+          {status === 'completed' && <CheckCircle className="w-4 h-4" />}
+          {status === 'error' && <AlertCircle className="w-4 h-4 text-red-400" />}
+          <span className={status === 'error' ? 'text-red-300' : ''}>{message}</span>
+        </div>
+        {status === 'running' && (
+          <button type="button" onClick={pause}
+            className="px-4 py-2 border border-white/20 rounded-lg text-sm font-medium hover:border-white/40 hover:bg-white/5 transition-all flex items-center gap-2">
+            <Pause className="w-4 h-4" /> Pause
+          </button>
+        )}
+        {(status === 'paused' || status === 'error') && (
+          <button type="button" onClick={resume}
+            className="px-4 py-2 border border-white/20 rounded-lg text-sm font-medium hover:border-white/40 hover:bg-white/5 transition-all flex items-center gap-2">
+            <Play className="w-4 h-4" /> Resume
+          </button>
+        )}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2 text-xs text-zinc-500">
+          <span>Signed and submitted</span>
+          <span>{submitted} / {total} transfers</span>
+        </div>
+        <div className="h-2 bg-black/40 rounded-full overflow-hidden border border-white/10">
+          <div
+            className="h-full bg-gradient-to-r from-zinc-300 to-white transition-all duration-500"
+            style={{ width: `${progress}%` }}
+          ></div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SigningProgress;
\ No newline at end of file
@@ -0,0 +1,336 @@
+import React, { useState, useEffect } from 'react';
+import { CheckCircle, CheckCheck, XCircle, Clock, Loader2, Send, TimerOff, PenLine, Search, ChevronLeft, ChevronRight, ChevronDown, Ban } from 'lucide-react';
+import { JobStatus, Task, TaskEvent, TaskListQuery, TaskPage } from '../types';
+import { getJobTasks, getTaskHistory } from '../services/apiService';
+
+interface TaskTableProps {
+  jobId: string;
+  jobStatus: JobStatus;
+  // Rows pushed by the job's event stream, patched into the page on screen
+  changedTasks: Task[];
+  // Bumped whenever the page should be fetched again
+  refreshKey: number;
+  shareToken?: string | null;
+}
+
+const PAGE_SIZE = 50;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const statusIcons: { [key: string]: React.ElementType } = {
+  success: CheckCircle,
+  confirmed: CheckCircle,
+  finalized: CheckCheck,
+  sent: Send,
+  signing: PenLine,
+  queued: Send,
+  processing: Loader2,
+  failed: XCircle,
+  expired: TimerOff,
+  cancelled: Ban,
+  pending: Clock,
+};
+
+const SUCCESS_STATUSES: Task['status'][] = ['success', 'confirmed', 'finalized'];
+const FAILED_STATUSES: Task['status'][] = ['failed', 'expired'];
+
+// Server components are named as they are; wallets by a shortened address
+const formatActor = (actor: string) =>
+  actor.startsWith('wallet:') ? `wallet ${actor.slice(7, 11)}...${actor.slice(-4)}` : actor;
+
+interface TaskHistoryProps {
+  jobId: string;
+  task: Task;
+  shareToken?: string | null;
+}
+
+// Timeline of a task's status changes, oldest first
+const TaskHistory: React.FC<TaskHistoryProps> = ({ jobId, task, shareToken }) => {
+  const [events, setEvents] = useState<TaskEvent[] | null>(null);
+  const [error, setError] = useState('');
+
+  // Fetched again whenever the task changes, so streamed updates reach the timeline too
+  useEffect(() => {
+    let cancelled = false;
+    getTaskHistory(jobId, task.task_id, shareToken)
+      .then((data) => {
+        if (cancelled) return;
+        setEvents(data);
+        setError('');
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err.message || 'Failed to load history.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId, task.task_id, task.updated_at, shareToken]);
+
+  if (error) return <p className="text-xs text-red-300">{error}</p>;
+  if (!events) return <Loader2 className="w-4 h-4 text-zinc-500 animate-spin" />;
+  if (events.length === 0) return <p className="text-xs text-zinc-500">No status changes recorded for this transfer.</p>;
+
+  return (
+    <ol className="ml-2 border-l border-white/10 space-y-4">
+      {events.map((event, index) => {
+        const Icon = statusIcons[event.status] || Clock;
+        // Errors and signatures stay on the task until replaced; show them where they changed
+        const previous = events[index - 1];
+        return (
+          <li key={event.event_id} className="relative pl-6">
+            <span className="absolute -left-2.5 top-0 flex items-center justify-center w-5 h-5 rounded-full bg-zinc-900 border border-white/20">
+              <Icon className="w-3 h-3 text-zinc-300" />
+            </span>
+            <div className="flex flex-wrap items-baseline gap-x-3 text-xs">
+              <span className="capitalize text-zinc-200">{event.status}</span>
+              <span className="text-zinc-500">{new Date(event.created_at).toLocaleString()}</span>
+              <span className="font-mono text-zinc-600">{formatActor(event.actor)}</span>
+            </div>
+            {event.error_message && event.error_message !== previous?.error_message && (
+              <div className="mt-1 text-xs text-red-300/80 break-all">{event.error_message}</div>
+            )}
+            {event.tx_signature && event.tx_signature !== previous?.tx_signature && (
+              <div className="mt-1 text-xs font-mono text-zinc-500">{`${event.tx_signature.slice(0, 16)}...`}</div>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+const TaskRow: React.FC<TaskHistoryProps> = ({ jobId, task, shareToken }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const Icon = statusIcons[task.status] || Clock;
+  const landedAt = task.confirmed_slot
+    ? `Slot ${task.confirmed_slot}${task.confirmed_at ? ` at ${new Date(task.confirmed_at).toLocaleString()}` : ''}`
+    : undefined;
+  return (
+    <>
+      <tr onClick={() => setIsExpanded((expanded) => !expanded)} className="hover:bg-white/5 transition-colors cursor-pointer">
+        <td className="px-8 py-5 text-sm font-mono text-zinc-300 whitespace-nowrap">
+          <ChevronDown className={`inline w-3.5 h-3.5 mr-2 text-zinc-500 transition-transform ${isExpanded ? '' : '-rotate-90'}`} />
+          {`${task.recipient_address.slice(0, 8)}...${task.recipient_address.slice(-8)}`}
+          {task.memo && <div className="mt-1 font-sans text-xs text-zinc-500 truncate max-w-xs" title={task.memo}>{task.memo}</div>}
+        </td>
+        <td className="px-8 py-5 text-sm text-zinc-300 whitespace-nowrap">{parseInt(task.amount, 10).toLocaleString()}</td>
+        <td className="px-8 py-5">
+          <span title={landedAt || task.error_message} className={`inline-flex items-center capitalize gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium ${
+            SUCCESS_STATUSES.includes(task.status) ? 'bg-gradient-to-br from-zinc-200 to-white text-zinc-900' :
+            ['queued', 'processing', 'sent'].includes(task.status) ? 'bg-white/10 text-zinc-200 border border-white/20' :
+            FAILED_STATUSES.includes(task.status) ? 'bg-red-950/30 text-red-300 border border-red-900/30' :
+            'bg-zinc-900/50 text-zinc-500 border border-white/10'
+          }`}>
+            <Icon className={`w-3.5 h-3.5 ${task.status === 'processing' ? 'animate-spin' : ''}`} />
+            {task.status}
+          </span>
+        </td>
+        <td className="px-8 py-5 text-sm font-mono">
+          {task.tx_signature ? (
+            <a
+              href={`https://explorer.solana.com/tx/${task.tx_signature}?cluster=devnet`}
+              target="_blank" rel="noopener noreferrer" onClick={(e) => e.stopPropagation()}
+              className="text-zinc-400 hover:text-zinc-100 underline decoration-zinc-700 hover:decoration-zinc-400 transition-colors"
+            >
+              {`${task.tx_signature.slice(0, 8)}...`}
+            </a>
+          ) : <span className="text-zinc-700">-</span>}
+        </td>
+      </tr>
+      {isExpanded && (
+        <tr className="bg-black/20">
+          <td colSpan={4} className="px-8 py-5">
+            <TaskHistory jobId={jobId} task={task} shareToken={shareToken} />
+          </td>
+        </tr>
+      )}
+    </>
+  );
+};
+
+// Chips group statuses the same way the summary cards do
+const STATUS_FILTERS: { label: string; statuses: Task['status'][] }[] = [
+  { label: 'All', statuses: [] },
+  { label: 'Pending', statuses: ['pending', 'signing'] },
+  { label: 'Processing', statuses: ['queued', 'processing', 'sent'] },
+  { label: 'Successful', statuses: ['confirmed', 'finalized', 'success'] },
+  { label: 'Failed', statuses: ['failed', 'expired'] },
+  { label: 'Cancelled', statuses: ['cancelled'] },
+];
+
+const SORT_OPTIONS: { label: string; sort: TaskListQuery['sort']; order: TaskListQuery['order'] }[] = [
+  { label: 'List order', sort: 'task_id', order: 'asc' },
+  { label: 'Recently updated', sort: 'updated_at', order: 'desc' },
+  { label: 'Largest amount', sort: 'amount', order: 'desc' },
+  { label: 'Smallest amount', sort: 'amount', order: 'asc' },
+];
+
+const TaskTable: React.FC<TaskTableProps> = ({ jobId, jobStatus, changedTasks, refreshKey, shareToken }) => {
+  const [filterIndex, setFilterIndex] = useState(0);
+  const [sortIndex, setSortIndex] = useState(0);
+  const [searchField, setSearchField] = useState<'recipient' | 'signature'>('recipient');
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [cursor, setCursor] = useState<string | null>(null);
+  // Cursors of the pages before the current one, for the back button
+  const [previousCursors, setPreviousCursors] = useState<(string | null)[]>([]);
+  const [page, setPage] = useState<TaskPage | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Any change to what is listed starts again from the first page; cursors only fit the query they came from
+  const resetPaging = () => {
+    setCursor(null);
+    setPreviousCursors([]);
+  };
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      if (searchInput.trim() !== search) {
+        resetPaging();
+        setSearch(searchInput.trim());
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput, search]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const { sort, order } = SORT_OPTIONS[sortIndex];
+
+    setIsLoading(true);
+    getJobTasks(jobId, {
+      status: STATUS_FILTERS[filterIndex].statuses,
+      [searchField]: search || undefined,
+      sort,
+      order,
+      limit: PAGE_SIZE,
+      cursor,
+    }, shareToken)
+      .then((data) => {
+        if (cancelled) return;
+        setPage(data);
+        setError('');
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err.message || 'Failed to load tasks.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId, filterIndex, sortIndex, searchField, search, cursor, refreshKey, shareToken]);
+
+  // Patch streamed changes into the rows on screen; newer copies win
+  useEffect(() => {
+    if (changedTasks.length === 0) return;
+    const changedById = new Map(changedTasks.map((task) => [task.task_id, task]));
+    setPage((current) => current && {
+      ...current,
+      tasks: current.tasks.map((task) => {
+        const changed = changedById.get(task.task_id);
+        const isNewer = changed && (!task.updated_at || !changed.updated_at || new Date(changed.updated_at) >= new Date(task.updated_at));
+        return isNewer ? changed : task;
+      }),
+    });
+  }, [changedTasks]);
+
+  const goToNextPage = () => {
+    if (!page?.next_cursor) return;
+    setPreviousCursors((cursors) => [...cursors, cursor]);
+    setCursor(page.next_cursor);
+  };
+
+  const goToPreviousPage = () => {
+    setCursor(previousCursors[previousCursors.length - 1] ?? null);
+    setPreviousCursors((cursors) => cursors.slice(0, -1));
+  };
+
+  const tasks = page?.tasks ?? [];
+  const firstRow = previousCursors.length * PAGE_SIZE + 1;
+
+  return (
+    <div className="border border-white/10 rounded-2xl overflow-hidden bg-white/5 backdrop-blur-sm">
+      <div className="p-8 border-b border-white/10 space-y-5">
+        <div className="flex items-center justify-between gap-4">
+          <h3 className="text-xl font-light tracking-tight">Transaction Details</h3>
+          {isLoading && <Loader2 className="w-4 h-4 text-zinc-500 animate-spin" />}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {STATUS_FILTERS.map((filter, index) => (
+            <button key={filter.label} type="button" onClick={() => { resetPaging(); setFilterIndex(index); }}
+              className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-all ${
+                filterIndex === index ? 'border-white/40 bg-white/20 text-zinc-100' : 'border-white/10 text-zinc-400 hover:border-white/30'
+              }`}>
+              {filter.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="flex flex-1 items-center gap-2 px-3 bg-black/40 border border-white/20 rounded-xl focus-within:border-white/40">
+            <Search className="w-4 h-4 text-zinc-500 flex-shrink-0" />
+            <select value={searchField} onChange={(e) => { resetPaging(); setSearchField(e.target.value as 'recipient' | 'signature'); }}
+              className="bg-transparent text-xs text-zinc-400 focus:outline-none">
+              <option value="recipient">Recipient</option>
+              <option value="signature">Signature</option>
+            </select>
+            <input type="text" value={searchInput} onChange={(e) => setSearchInput(e.target.value)} placeholder="Starts with..."
+              className="flex-1 py-2.5 bg-transparent font-mono text-xs text-zinc-100 placeholder-zinc-600 focus:outline-none" />
+          </div>
+          <select value={sortIndex} onChange={(e) => { resetPaging(); setSortIndex(Number(e.target.value)); }}
+            className="px-3 py-2.5 bg-black/40 border border-white/20 rounded-xl focus:outline-none focus:border-white/40 text-xs text-zinc-100">
+            {SORT_OPTIONS.map((option, index) => (
+              <option key={option.label} value={index}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        {error && <p className="text-sm text-red-300">{error}</p>}
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full min-w-[700px]">
+          <thead className="border-b border-white/10">
+            <tr>
+              <th className="px-8 py-4 text-left text-xs font-medium text-zinc-500 uppercase tracking-wider">Recipient</th>
+              <th className="px-8 py-4 text-left text-xs font-medium text-zinc-500 uppercase tracking-wider">Amount</th>
+              <th className="px-8 py-4 text-left text-xs font-medium text-zinc-500 uppercase tracking-wider">Status</th>
+              <th className="px-8 py-4 text-left text-xs font-medium text-zinc-500 uppercase tracking-wider">Signature</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/10">
+            {tasks.length > 0 ? tasks.map((task) => (
+              <TaskRow key={task.task_id} jobId={jobId} task={task} shareToken={shareToken} />
+            )) : (
+              <tr>
+                <td colSpan={4} className="text-center py-10 text-zinc-500">
+                  {filterIndex > 0 || search ? 'No transactions match these filters.' :
+                    jobStatus.job_status === 'running' || jobStatus.job_status === 'pending' ? 'Waiting for transactions...' : 'No transactions found for this job.'}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      {page && page.total > 0 && (
+        <div className="px-8 py-4 border-t border-white/10 flex items-center justify-between text-xs text-zinc-500">
+          <span>
+            {firstRow.toLocaleString()}–{(firstRow + tasks.length - 1).toLocaleString()} of {page.total.toLocaleString()}
+          </span>
+          <div className="flex gap-2">
+            <button type="button" onClick={goToPreviousPage} disabled={previousCursors.length === 0 || isLoading}
+              className="p-2 border border-white/20 rounded-lg hover:border-white/40 hover:bg-white/5 transition-all disabled:opacity-30 disabled:cursor-not-allowed">
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <button type="button" onClick={goToNextPage} disabled={!page.next_cursor || isLoading}
+              className="p-2 border border-white/20 rounded-lg hover:border-white/40 hover:bg-white/5 transition-all disabled:opacity-30 disabled:cursor-not-allowed">
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskTable;
\ No newline at end of file
@@ -0,0 +1,73 @@
+import React from 'react';
+import { AlertCircle, AlertTriangle } from 'lucide-react';
+import { ValidationReport as ValidationReportData } from '../types';
+
+interface ValidationReportProps {
+  report: ValidationReportData;
+  onProceed: () => void;
+  onCancel: () => void;
+  isSubmitting: boolean;
+}
+
+const shortAddress = (address: string) =>
+  address.length > 16 ? `${address.slice(0, 8)}...${address.slice(-8)}` : address || '(empty)';
+
+const ValidationReport: React.FC<ValidationReportProps> = ({ report, onProceed, onCancel, isSubmitting }) => {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-xl font-light tracking-tight mb-1">CSV Validation Report</h3>
+        <p className="text-sm text-zinc-400">
+          {report.valid_rows} of {report.total_rows} rows can be paid. Fix the file, or proceed and skip the rejected rows.
+        </p>
+      </div>
+
+      {report.rejected.length > 0 && (
+        <div className="p-4 bg-red-950/30 border border-red-900/30 rounded-xl">
+          <div className="flex items-center gap-2 text-sm text-red-300 mb-3">
+            <AlertCircle className="w-4 h-4" />
+            {report.rejected.length} rows rejected
+          </div>
+          <ul className="space-y-1 max-h-48 overflow-y-auto text-xs">
+            {report.rejected.map((row) => (
+              <li key={`${row.line}-${row.code}`} className="flex justify-between gap-4 text-red-200/80">
+                <span className="font-mono">Line {row.line}: {shortAddress(row.address)}</span>
+                <span>{row.reason}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {report.warnings.length > 0 && (
+        <div className="p-4 bg-amber-950/30 border border-amber-900/30 rounded-xl">
+          <div className="flex items-center gap-2 text-sm text-amber-300 mb-3">
+            <AlertTriangle className="w-4 h-4" />
+            {report.warnings.length} warnings
+          </div>
+          <ul className="space-y-1 max-h-48 overflow-y-auto text-xs">
+            {report.warnings.map((row) => (
+              <li key={`${row.line}-${row.code}`} className="flex justify-between gap-4 text-amber-200/80">
+                <span className="font-mono">Line {row.line}: {shortAddress(row.address)}</span>
+                <span>{row.message}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex gap-4">
+        <button type="button" onClick={onCancel} disabled={isSubmitting}
+          className="flex-1 py-4 border border-white/20 rounded-xl font-medium hover:border-white/40 hover:bg-white/5 transition-all disabled:opacity-50 disabled:cursor-not-allowed">
+          Fix File
+        </button>
+        <button type="button" onClick={onProceed} disabled={isSubmitting || report.valid_rows === 0}
+          className="flex-1 py-4 bg-gradient-to-br from-zinc-200 to-white text-zinc-900 rounded-xl font-medium hover:shadow-lg hover:shadow-white/20 transition-all disabled:opacity-50 disabled:cursor-not-allowed">
+          {report.rejected.length > 0 ? `Proceed Without ${report.rejected.length} Rows` : 'Proceed'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ValidationReport;
\ No newline at end of file
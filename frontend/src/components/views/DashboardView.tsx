@@ -1,57 +1,388 @@
-import React from 'react';
-import { CheckCircle, XCircle, Clock, Loader2, ArrowLeft } from 'lucide-react';
-import { useJobPolling } from '../../hooks/useJobPolling';
+import React, { useState, useEffect } from 'react';
+import { CheckCircle, XCircle, Clock, Loader2, ArrowLeft, Table, AlertCircle, RotateCcw, PenLine, KeyRound, Link2, Eye, Pause, Play, Ban, Download } from 'lucide-react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { VersionedTransaction } from '@solana/web3.js';
+import { useJobUpdates } from '../../hooks/useJobUpdates';
+import { useTransactionSigner } from '../../hooks/useTransactionSigner';
+import { useSigningSession } from '../../hooks/useSigningSession';
+import { useSession } from '../../contexts/SessionContext';
+import SigningProgress from '../SigningProgress';
+import TaskTable from '../TaskTable';
+import ConfirmDialog from '../ConfirmDialog';
+import {
+  getLookupTableTransactions,
+  submitLookupTableTransactions,
+  retryFailedTasks,
+  createShareLink,
+  downloadJobReport,
+  cancelJob,
+  pauseJob,
+  resumeJob,
+  getDelegateStep,
+  submitDelegateTransaction,
+  setJobFeeBudget,
+} from '../../services/apiService';
 import { View } from '../../App';
-import { Task } from '../../types';
+import { JobStatus } from '../../types';
 
 interface DashboardViewProps {
   setActiveView: (view: View) => void;
   jobId: string | null;
+  shareToken?: string | null;
 }
 
-const statusIcons: { [key: string]: React.ElementType } = {
-  success: CheckCircle,
-  processing: Loader2,
-  failed: XCircle,
-  pending: Clock,
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+const formatTokenAmount = (amount: string, decimals: number) =>
+  (Number(amount) / 10 ** decimals).toLocaleString(undefined, { maximumFractionDigits: decimals });
+
+const FundingWarning: React.FC<{ jobStatus: JobStatus }> = ({ jobStatus }) => {
+  const { funding } = jobStatus;
+  if (!funding || funding.funded) return null;
+
+  return (
+    <div className="mb-6 p-4 bg-amber-950/30 border border-amber-900/30 rounded-xl flex items-start gap-3">
+      <AlertCircle className="w-5 h-5 text-amber-400 flex-shrink-0 mt-0.5" />
+      <div className="text-sm text-amber-300 space-y-1">
+        <p className="font-medium">The distributor wallet cannot cover the remaining transfers.</p>
+        {funding.token.shortfall !== '0' && (
+          <p>
+            Tokens: needs {formatTokenAmount(funding.token.required, jobStatus.token_decimals)}, has{' '}
+            {formatTokenAmount(funding.token.balance, jobStatus.token_decimals)} (short{' '}
+            {formatTokenAmount(funding.token.shortfall, jobStatus.token_decimals)})
+          </p>
+        )}
+        {funding.sol.shortfall_lamports !== '0' && (
+          <p>
+            SOL: needs {(Number(funding.sol.required_lamports) / LAMPORTS_PER_SOL).toFixed(6)}, has{' '}
+            {(Number(funding.sol.balance_lamports) / LAMPORTS_PER_SOL).toFixed(6)} (short{' '}
+            {(Number(funding.sol.shortfall_lamports) / LAMPORTS_PER_SOL).toFixed(6)})
+          </p>
+        )}
+      </div>
+    </div>
+  );
 };
 
-const TaskRow: React.FC<{ task: Task }> = ({ task }) => {
-  const Icon = statusIcons[task.status] || Clock;
+const formatSol = (lamports: string | number) => (Number(lamports) / LAMPORTS_PER_SOL).toFixed(6);
+
+// Fees committed so far against the job's budget, which the owner can change
+const FeeBudget: React.FC<{ jobStatus: JobStatus; isReadOnly: boolean }> = ({ jobStatus, isReadOnly }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [budgetSol, setBudgetSol] = useState('');
+  const [budget, setBudget] = useState(jobStatus.fee_budget_lamports ?? null);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => setBudget(jobStatus.fee_budget_lamports ?? null), [jobStatus.fee_budget_lamports]);
+
+  const handleSave = async () => {
+    try {
+      const lamports = budgetSol.trim() ? String(Math.round(parseFloat(budgetSol) * LAMPORTS_PER_SOL)) : null;
+      const result = await setJobFeeBudget(jobStatus.job_id, lamports);
+      setBudget(result.fee_budget_lamports);
+      setMessage(jobStatus.job_status === 'paused' ? 'Budget updated; resume the job to continue.' : 'Budget updated.');
+      setIsEditing(false);
+    } catch (err: any) {
+      setMessage(err.message || 'Failed to update the budget.');
+    }
+  };
+
   return (
-    <tr className="hover:bg-white/5 transition-colors">
-      <td className="px-8 py-5 text-sm font-mono text-zinc-300 whitespace-nowrap">
-        {`${task.recipient_address.slice(0, 8)}...${task.recipient_address.slice(-8)}`}
-      </td>
-      <td className="px-8 py-5 text-sm text-zinc-300 whitespace-nowrap">{parseInt(task.amount, 10).toLocaleString()}</td>
-      <td className="px-8 py-5">
-        <span className={`inline-flex items-center capitalize gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium ${
-          task.status === 'success' ? 'bg-gradient-to-br from-zinc-200 to-white text-zinc-900' :
-          task.status === 'processing' ? 'bg-white/10 text-zinc-200 border border-white/20' :
-          task.status === 'failed' ? 'bg-red-950/30 text-red-300 border border-red-900/30' :
-          'bg-zinc-900/50 text-zinc-500 border border-white/10'
-        }`}>
-          <Icon className={`w-3.5 h-3.5 ${task.status === 'processing' ? 'animate-spin' : ''}`} />
-          {task.status}
+    <div className="text-zinc-500 text-xs mt-1">
+      Mode: {jobStatus.mode}
+      {jobStatus.mode_profile && !jobStatus.mode_profile.built_in && ` (${jobStatus.mode_profile.cu_price_strategy} CU price)`}
+      {' · '}Fees: {formatSol(jobStatus.fees_committed_lamports ?? '0')} SOL
+      {budget ? ` of ${formatSol(budget)} SOL budget` : ', no budget'}
+      {!isReadOnly && !isEditing && (
+        <button
+          onClick={() => {
+            setBudgetSol(budget ? formatSol(budget) : '');
+            setIsEditing(true);
+          }}
+          className="ml-2 underline hover:text-zinc-300"
+        >
+          Edit
+        </button>
+      )}
+      {isEditing && (
+        <span className="ml-2 inline-flex items-center gap-2">
+          <input type="number" min="0" step="0.000001" value={budgetSol} onChange={(e) => setBudgetSol(e.target.value)}
+            placeholder="No limit"
+            className="w-28 px-2 py-1 bg-black/40 border border-white/20 rounded text-xs text-zinc-100" />
+          <button onClick={handleSave} className="underline hover:text-zinc-300">Save</button>
+          <button onClick={() => setIsEditing(false)} className="hover:text-zinc-300">Cancel</button>
         </span>
-      </td>
-      <td className="px-8 py-5 text-sm font-mono">
-        {task.tx_signature ? (
-          <a
-            href={`https://explorer.solana.com/tx/${task.tx_signature}?cluster=devnet`}
-            target="_blank" rel="noopener noreferrer"
-            className="text-zinc-400 hover:text-zinc-100 underline decoration-zinc-700 hover:decoration-zinc-400 transition-colors"
-          >
-            {`${task.tx_signature.slice(0, 8)}...`}
-          </a>
-        ) : <span className="text-zinc-700">-</span>}
-      </td>
-    </tr>
+      )}
+      {message && <span className="ml-2 text-zinc-400">{message}</span>}
+    </div>
+  );
+};
+
+const LookupTableCard: React.FC<{ jobStatus: JobStatus }> = ({ jobStatus }) => {
+  const { signAllTransactions } = useWallet();
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState('');
+  // Polling stops once the job completes, so track the table's progress locally
+  const [status, setStatus] = useState(jobStatus.lookup_table_status);
+
+  const handleReclaim = async () => {
+    if (!signAllTransactions) {
+      setMessage('Connect the distributor wallet to reclaim the lookup table rent.');
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      const step = await getLookupTableTransactions(jobStatus.job_id);
+      if (step.transactions.length === 0) {
+        setMessage(step.message || 'Nothing to do yet.');
+        return;
+      }
+
+      const signedTxs = await signAllTransactions(
+        step.transactions.map((tx) => VersionedTransaction.deserialize(Buffer.from(tx, 'base64')))
+      );
+      const result = await submitLookupTableTransactions(
+        jobStatus.job_id,
+        signedTxs.map((tx) => Buffer.from(tx.serialize()).toString('base64'))
+      );
+      setStatus(result.lookup_table_status);
+      setMessage(
+        result.lookup_table_status === 'closed'
+          ? 'Lookup table closed and rent refunded.'
+          : 'Lookup table deactivated. Close it after the cooldown to refund the rent.'
+      );
+    } catch (err: any) {
+      setMessage(err.message || 'Failed to update the lookup table.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="border border-white/10 rounded-2xl p-6 mb-6 bg-white/5 backdrop-blur-sm flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+      <div className="flex items-start gap-3">
+        <Table className="w-5 h-5 text-zinc-400 flex-shrink-0 mt-0.5" />
+        <div>
+          <p className="text-sm font-medium text-zinc-200">
+            Address Lookup Table <span className="text-zinc-500 capitalize">({status})</span>
+          </p>
+          {jobStatus.lookup_table_address && (
+            <p className="text-xs font-mono text-zinc-500 mt-1">{jobStatus.lookup_table_address}</p>
+          )}
+          {message && <p className="text-xs text-zinc-400 mt-2">{message}</p>}
+        </div>
+      </div>
+      <button
+        onClick={handleReclaim}
+        disabled={isWorking || status === 'closed'}
+        className="px-5 py-2.5 border border-white/20 rounded-lg text-sm font-medium hover:border-white/40 hover:bg-white/5 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+      >
+        {isWorking && <Loader2 className="w-4 h-4 animate-spin" />}
+        {status === 'active' ? 'Deactivate Lookup Table' : 'Close & Reclaim Rent'}
+      </button>
+    </div>
+  );
+};
+
+const delegateStatusLabels: { [key: string]: string } = {
+  created: 'Waiting for approval',
+  approved: 'Signing transfers',
+  revoke_pending: 'Allowance left over, revoke required',
+  revoked: 'Delegation ended',
+};
+
+const DelegateCard: React.FC<{ jobStatus: JobStatus }> = ({ jobStatus }) => {
+  const { signAllTransactions } = useWallet();
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState('');
+
+  // Approves the delegate of a job created without the upload flow, such as a scheduled run, or revokes a leftover allowance
+  const isApproval = jobStatus.delegate_status === 'created';
+  const canApprove = isApproval && ['pending', 'running'].includes(jobStatus.job_status);
+
+  const handleDelegateStep = async () => {
+    if (!signAllTransactions) {
+      setMessage(`Connect the distributor wallet to ${isApproval ? 'approve' : 'revoke'} the delegate.`);
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      const step = await getDelegateStep(jobStatus.job_id);
+      if (!step.transaction) {
+        setMessage(isApproval ? 'Nothing to approve.' : 'Nothing to revoke.');
+        return;
+      }
+      const [signedTx] = await signAllTransactions([
+        VersionedTransaction.deserialize(Buffer.from(step.transaction, 'base64')),
+      ]);
+      await submitDelegateTransaction(jobStatus.job_id, Buffer.from(signedTx.serialize()).toString('base64'));
+      setMessage(isApproval ? 'Delegate approved. The server is sending the transfers.' : 'Delegate revoked and its SOL returned.');
+    } catch (err: any) {
+      setMessage(err.message || `Failed to ${isApproval ? 'approve' : 'revoke'} the delegate.`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="border border-white/10 rounded-2xl p-6 mb-6 bg-white/5 backdrop-blur-sm flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+      <div className="flex items-start gap-3">
+        <KeyRound className="w-5 h-5 text-zinc-400 flex-shrink-0 mt-0.5" />
+        <div>
+          <p className="text-sm font-medium text-zinc-200">
+            Delegate Signer{' '}
+            <span className="text-zinc-500">({delegateStatusLabels[jobStatus.delegate_status || ''] || jobStatus.delegate_status})</span>
+          </p>
+          {jobStatus.delegate_address && (
+            <p className="text-xs font-mono text-zinc-500 mt-1">{jobStatus.delegate_address}</p>
+          )}
+          {jobStatus.delegate_approved_amount && (
+            <p className="text-xs text-zinc-500 mt-1">
+              Approved: {formatTokenAmount(jobStatus.delegate_approved_amount, jobStatus.token_decimals)} tokens
+            </p>
+          )}
+          {message && <p className="text-xs text-zinc-400 mt-2">{message}</p>}
+        </div>
+      </div>
+      {(canApprove || jobStatus.delegate_status === 'revoke_pending') && (
+        <button
+          onClick={handleDelegateStep}
+          disabled={isWorking}
+          className="px-5 py-2.5 border border-white/20 rounded-lg text-sm font-medium hover:border-white/40 hover:bg-white/5 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+        >
+          {isWorking && <Loader2 className="w-4 h-4 animate-spin" />}
+          {canApprove ? 'Approve Delegate' : 'Revoke Delegate'}
+        </button>
+      )}
+    </div>
   );
 };
 
-const DashboardView: React.FC<DashboardViewProps> = ({ setActiveView, jobId }) => {
-  const { jobStatus, tasks } = useJobPolling(jobId);
+const DashboardView: React.FC<DashboardViewProps> = ({ setActiveView, jobId, shareToken = null }) => {
+  const { jobStatus, changedTasks, refreshKey, error: updatesError, setJobStatus, startUpdates } = useJobUpdates(jobId, shareToken);
+  const { session, isSigningIn, signIn } = useSession();
+  const { canSign } = useTransactionSigner();
+  const signingSession = useSigningSession();
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [retryMessage, setRetryMessage] = useState('');
+  const [isConfirmingCancel, setIsConfirmingCancel] = useState(false);
+  const [isControlling, setIsControlling] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const isSigning = signingSession.status === 'running';
+  // Opened through a share link by someone other than the owner
+  const isReadOnly = jobStatus?.access === 'shared';
+
+  // Reconnect with the session once the wallet signs in (or its stored session loads)
+  useEffect(() => {
+    if (session) startUpdates();
+  }, [session, startUpdates]);
+
+  const handleSignIn = async () => {
+    try {
+      await signIn();
+    } catch (err: any) {
+      setRetryMessage(err.message || 'Failed to sign in.');
+    }
+  };
+
+  // Runs a cancel, pause or resume and applies the new job status straight away
+  const controlJob = async (action: typeof cancelJob, describe: (cancelledTasks: number) => string) => {
+    if (!jobId) return;
+    setIsControlling(true);
+    setRetryMessage('');
+    try {
+      // Stop the wallet signing loop; the server refuses its next round anyway
+      if (isSigning) signingSession.pause();
+      const result = await action(jobId);
+      setJobStatus((current) => current && { ...current, job_status: result.job_status });
+      setRetryMessage(describe(result.cancelled_tasks ?? 0));
+      startUpdates();
+    } catch (err: any) {
+      setRetryMessage(err.message || 'Failed to update the job.');
+    } finally {
+      setIsControlling(false);
+      setIsConfirmingCancel(false);
+    }
+  };
+
+  const handlePause = () => controlJob(pauseJob, () => 'Job paused. Sent transactions are still being tracked.');
+  const handleResume = () => controlJob(resumeJob, () => 'Job resumed.');
+  const handleCancel = () =>
+    controlJob(cancelJob, (cancelledTasks) => `Job cancelled. ${cancelledTasks} unsent transfers were dropped.`);
+
+  const handleShare = async () => {
+    if (!jobId) return;
+    try {
+      const link = await createShareLink(jobId);
+      const url = `${window.location.origin}/jobs/${jobId}?share=${encodeURIComponent(link.share_token)}`;
+      await navigator.clipboard.writeText(url);
+      setRetryMessage('Read-only link copied to the clipboard.');
+    } catch (err: any) {
+      setRetryMessage(err.message || 'Failed to create a share link.');
+    }
+  };
+
+  const handleDownloadReport = async (format: 'csv' | 'json') => {
+    if (!jobId) return;
+    setIsDownloading(true);
+    try {
+      await downloadJobReport(jobId, format, shareToken);
+    } catch (err: any) {
+      setRetryMessage(err.message || 'Failed to download the report.');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleSignPending = async () => {
+    if (!jobId) return;
+    if (!canSign) {
+      setRetryMessage('Connect the distributor wallet to sign the remaining transfers.');
+      return;
+    }
+    setRetryMessage('');
+    startUpdates();
+    await signingSession.run(jobId);
+  };
+
+  const handleRetry = async () => {
+    if (!jobId) return;
+    if (!canSign) {
+      setRetryMessage('Connect the distributor wallet to retry failed transfers.');
+      return;
+    }
+
+    setIsRetrying(true);
+    setRetryMessage('');
+    try {
+      const result = await retryFailedTasks(jobId);
+      if (jobStatus?.signing_mode === 'delegate' && result.reset > 0) {
+        setRetryMessage(`Resending ${result.reset} tasks with the delegate signer.`);
+        startUpdates();
+        return;
+      }
+      if (result.transactions.length === 0) {
+        setRetryMessage(
+          result.exhausted > 0
+            ? `${result.exhausted} tasks have used all their retries.`
+            : 'Nothing to retry.'
+        );
+        return;
+      }
+
+      if (result.exhausted > 0) {
+        setRetryMessage(`${result.exhausted} tasks have used all their retries.`);
+      }
+      startUpdates();
+      await signingSession.run(jobId, result);
+    } catch (err: any) {
+      setRetryMessage(err.message || 'Failed to retry tasks.');
+    } finally {
+      setIsRetrying(false);
+    }
+  };
 
   if (!jobId) {
     return (
@@ -69,21 +400,47 @@ const DashboardView: React.FC<DashboardViewProps> = ({ setActiveView, jobId }) =
     );
   }
 
-  const progress = jobStatus ? Math.round(((jobStatus.success + jobStatus.failed) / jobStatus.total) * 100) : 0;
+  const progress = jobStatus
+    ? Math.round(((jobStatus.success + jobStatus.failed + jobStatus.expired + (jobStatus.cancelled || 0)) / jobStatus.total) * 100)
+    : 0;
   
   return (
     <div className="max-w-7xl mx-auto px-6 py-24 relative z-10">
-      <button onClick={() => setActiveView('home')} className="text-zinc-400 hover:text-zinc-100 mb-10 flex items-center gap-2 transition-colors">
-        <ArrowLeft className="w-4 h-4" /> Back
+      <button onClick={() => setActiveView('jobs')} className="text-zinc-400 hover:text-zinc-100 mb-10 flex items-center gap-2 transition-colors">
+        <ArrowLeft className="w-4 h-4" /> All Jobs
       </button>
 
       {!jobStatus ? (
         <div className="text-center py-20">
-          <Loader2 className="w-8 h-8 mx-auto animate-spin mb-4" />
-          <p>Loading job details...</p>
+          {updatesError ? (
+            <>
+              <AlertCircle className="w-8 h-8 mx-auto mb-4 text-red-400" />
+              <p className="text-zinc-400">Could not load job {jobId}. Check the link, or pick a job from the list.</p>
+              {!session && (
+                <>
+                  <p className="text-zinc-500 text-sm mt-2">Jobs are only visible to the wallet that created them.</p>
+                  <button
+                    onClick={handleSignIn}
+                    disabled={isSigningIn}
+                    className="mt-6 px-6 py-3 bg-gradient-to-br from-zinc-200 to-white text-zinc-900 rounded-lg font-medium hover:shadow-lg hover:shadow-white/20 transition-all disabled:opacity-50"
+                  >
+                    {isSigningIn ? 'Signing in...' : 'Sign in with wallet'}
+                  </button>
+                </>
+              )}
+              {retryMessage && <p className="text-sm text-zinc-400 mt-4">{retryMessage}</p>}
+            </>
+          ) : (
+            <>
+              <Loader2 className="w-8 h-8 mx-auto animate-spin mb-4" />
+              <p>Loading job details...</p>
+            </>
+          )}
         </div>
       ) : (
         <>
+          <FundingWarning jobStatus={jobStatus} />
+
           <div className="border border-white/10 rounded-2xl p-10 mb-6 bg-white/5 backdrop-blur-sm">
             <div className="flex flex-col sm:flex-row items-start justify-between mb-8 gap-4">
               <div>
@@ -94,6 +451,13 @@ const DashboardView: React.FC<DashboardViewProps> = ({ setActiveView, jobId }) =
                     From: {jobStatus.distributor_address.slice(0, 8)}...{jobStatus.distributor_address.slice(-8)}
                   </p>
                 )}
+                <FeeBudget jobStatus={jobStatus} isReadOnly={isReadOnly} />
+                {jobStatus.token_extensions && jobStatus.token_extensions.length > 0 && (
+                  <p className="text-zinc-500 text-xs mt-1">
+                    Token-2022: {jobStatus.token_extensions.join(', ')}
+                    {jobStatus.transfer_fee_mode === 'net' && ' (fees covered by distributor)'}
+                  </p>
+                )}
               </div>
               <div className="flex items-center gap-3">
                 <div className={`px-4 py-2 rounded-lg font-medium text-sm capitalize ${
@@ -101,13 +465,126 @@ const DashboardView: React.FC<DashboardViewProps> = ({ setActiveView, jobId }) =
                   jobStatus.job_status === 'running' ? 'bg-white/10 text-zinc-100 border border-white/20' :
                   jobStatus.job_status === 'failed' ? 'bg-red-950/30 text-red-300 border border-red-900/30' :
                   jobStatus.job_status === 'cancelled' ? 'bg-zinc-900/50 text-zinc-400 border border-white/10' :
+                  jobStatus.job_status === 'paused' ? 'bg-zinc-900/50 text-zinc-300 border border-white/20' :
                   'bg-zinc-900/50 text-zinc-500 border border-white/10'
                 }`}>
-                  {jobStatus.job_status}
+                  {jobStatus.job_status === 'ingesting'
+                    ? `Ingesting ${(jobStatus.ingested_tasks ?? 0).toLocaleString()} / ${(jobStatus.expected_tasks ?? 0).toLocaleString()}`
+                    : jobStatus.job_status}
                 </div>
+                {isReadOnly && (
+                  <div className="px-4 py-2 border border-white/10 rounded-lg text-sm text-zinc-400 flex items-center gap-2">
+                    <Eye className="w-4 h-4" />
+                    Read-only
+                  </div>
+                )}
+                {jobStatus.job_status !== 'ingesting' && (
+                  <div className="flex items-center border border-white/20 rounded-lg text-sm font-medium overflow-hidden">
+                    <button
+                      onClick={() => handleDownloadReport('csv')}
+                      disabled={isDownloading}
+                      title="Receipts with signatures, slots, block times and fees"
+                      className="px-4 py-2 hover:bg-white/5 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                    >
+                      {isDownloading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                      Report
+                    </button>
+                    <button
+                      onClick={() => handleDownloadReport('json')}
+                      disabled={isDownloading}
+                      className="px-3 py-2 border-l border-white/20 text-zinc-400 hover:bg-white/5 hover:text-zinc-200 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      JSON
+                    </button>
+                  </div>
+                )}
+                {!isReadOnly && (
+                  <button
+                    onClick={handleShare}
+                    className="px-4 py-2 border border-white/20 rounded-lg text-sm font-medium hover:border-white/40 hover:bg-white/5 transition-all flex items-center gap-2"
+                  >
+                    <Link2 className="w-4 h-4" />
+                    Share
+                  </button>
+                )}
+                {!isReadOnly && jobStatus.pending > 0 && !['cancelled', 'paused'].includes(jobStatus.job_status) && jobStatus.signing_mode !== 'delegate' && (
+                  <button
+                    onClick={handleSignPending}
+                    disabled={isSigning || isRetrying}
+                    className="px-4 py-2 border border-white/20 rounded-lg text-sm font-medium hover:border-white/40 hover:bg-white/5 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                  >
+                    <PenLine className="w-4 h-4" />
+                    Sign pending
+                  </button>
+                )}
+                {!isReadOnly && jobStatus.failed + jobStatus.expired > 0 && !['cancelled', 'paused'].includes(jobStatus.job_status) && (
+                  <button
+                    onClick={handleRetry}
+                    disabled={isRetrying || isSigning}
+                    className="px-4 py-2 border border-white/20 rounded-lg text-sm font-medium hover:border-white/40 hover:bg-white/5 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                  >
+                    {isRetrying ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                    Retry failed
+                  </button>
+                )}
+                {!isReadOnly && ['pending', 'running'].includes(jobStatus.job_status) && (
+                  <button
+                    onClick={handlePause}
+                    disabled={isControlling}
+                    className="px-4 py-2 border border-white/20 rounded-lg text-sm font-medium hover:border-white/40 hover:bg-white/5 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                  >
+                    <Pause className="w-4 h-4" />
+                    Pause
+                  </button>
+                )}
+                {!isReadOnly && jobStatus.job_status === 'paused' && (
+                  <button
+                    onClick={handleResume}
+                    disabled={isControlling}
+                    className="px-4 py-2 border border-white/20 rounded-lg text-sm font-medium hover:border-white/40 hover:bg-white/5 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                  >
+                    <Play className="w-4 h-4" />
+                    Resume
+                  </button>
+                )}
+                {!isReadOnly && ['pending', 'running', 'paused'].includes(jobStatus.job_status) && (
+                  <button
+                    onClick={() => setIsConfirmingCancel(true)}
+                    disabled={isControlling}
+                    className="px-4 py-2 border border-red-900/40 text-red-300 rounded-lg text-sm font-medium hover:bg-red-950/30 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                  >
+                    <Ban className="w-4 h-4" />
+                    Cancel job
+                  </button>
+                )}
               </div>
             </div>
 
+            {isConfirmingCancel && (
+              <ConfirmDialog
+                title="Cancel this distribution?"
+                confirmLabel="Cancel job"
+                isBusy={isControlling}
+                onConfirm={handleCancel}
+                onCancel={() => setIsConfirmingCancel(false)}
+              >
+                {(jobStatus.pending + jobStatus.signing + jobStatus.queued).toLocaleString()} unsent transfers will be dropped and no further
+                signed transactions will be accepted for this job. Transfers already sent will still be tracked until they
+                land. This cannot be undone; pause the job instead if you may want to continue later.
+              </ConfirmDialog>
+            )}
+
+            {jobStatus.job_status === 'paused' && jobStatus.error_message && (
+              <p className="text-sm text-amber-300 -mt-4 mb-6">{jobStatus.error_message}</p>
+            )}
+            {retryMessage && <p className="text-sm text-zinc-400 -mt-4 mb-6">{retryMessage}</p>}
+
+            {signingSession.status !== 'idle' && (
+              <div className="mb-8">
+                <SigningProgress session={signingSession} />
+              </div>
+            )}
+
             <div className="mb-8">
               <div className="flex items-center justify-between mb-3">
                 <span className="text-sm text-zinc-400">Progress</span>
@@ -132,59 +609,54 @@ const DashboardView: React.FC<DashboardViewProps> = ({ setActiveView, jobId }) =
                   <div className="text-2xl font-light text-zinc-100">{jobStatus.success}</div>
                 </div>
                 <div className="text-sm text-zinc-400">Successful</div>
+                {jobStatus.confirmed > 0 && (
+                  <div className="text-xs text-zinc-500 mt-1">{jobStatus.finalized} finalized</div>
+                )}
               </div>
               <div className="p-5 border border-white/10 rounded-xl bg-white/5">
                 <div className="flex items-center gap-2 mb-1">
                   <XCircle className="w-5 h-5 text-zinc-500" />
-                  <div className="text-2xl font-light text-zinc-400">{jobStatus.failed}</div>
+                  <div className="text-2xl font-light text-zinc-400">{jobStatus.failed + jobStatus.expired}</div>
                 </div>
                 <div className="text-sm text-zinc-600">Failed</div>
+                {jobStatus.expired > 0 && (
+                  <div className="text-xs text-zinc-600 mt-1">{jobStatus.expired} expired</div>
+                )}
+                {jobStatus.cancelled > 0 && (
+                  <div className="text-xs text-zinc-600 mt-1">{jobStatus.cancelled} cancelled</div>
+                )}
               </div>
               <div className="p-5 border border-white/20 rounded-xl bg-white/10">
                 <div className="flex items-center gap-2 mb-1">
                   <Loader2 className="w-5 h-5 text-zinc-200 animate-spin" />
-                  <div className="text-2xl font-light text-zinc-100">{jobStatus.processing}</div>
+                  <div className="text-2xl font-light text-zinc-100">{jobStatus.queued + jobStatus.processing + jobStatus.sent}</div>
                 </div>
                 <div className="text-sm text-zinc-400">Processing</div>
+                {jobStatus.queued > 0 && (
+                  <div className="text-xs text-zinc-500 mt-1">{jobStatus.queued} queued to send</div>
+                )}
+                {jobStatus.sent > 0 && (
+                  <div className="text-xs text-zinc-500 mt-1">{jobStatus.sent} awaiting confirmation</div>
+                )}
               </div>
               <div className="p-5 border border-white/10 rounded-xl bg-white/5">
                 <div className="flex items-center gap-2 mb-1">
                   <Clock className="w-5 h-5 text-zinc-500" />
-                  <div className="text-2xl font-light text-zinc-400">{jobStatus.pending}</div>
+                  <div className="text-2xl font-light text-zinc-400">{jobStatus.pending + jobStatus.signing}</div>
                 </div>
                 <div className="text-sm text-zinc-600">Pending</div>
               </div>
             </div>
           </div>
 
-          <div className="border border-white/10 rounded-2xl overflow-hidden bg-white/5 backdrop-blur-sm">
-            <div className="p-8 border-b border-white/10">
-              <h3 className="text-xl font-light tracking-tight">Transaction Details</h3>
-            </div>
-            <div className="overflow-x-auto">
-              <table className="w-full min-w-[700px]">
-                <thead className="border-b border-white/10">
-                  <tr>
-                    <th className="px-8 py-4 text-left text-xs font-medium text-zinc-500 uppercase tracking-wider">Recipient</th>
-                    <th className="px-8 py-4 text-left text-xs font-medium text-zinc-500 uppercase tracking-wider">Amount</th>
-                    <th className="px-8 py-4 text-left text-xs font-medium text-zinc-500 uppercase tracking-wider">Status</th>
-                    <th className="px-8 py-4 text-left text-xs font-medium text-zinc-500 uppercase tracking-wider">Signature</th>
-                  </tr>
-                </thead>
-                <tbody className="divide-y divide-white/10">
-                  {tasks.length > 0 ? tasks.map((task) => (
-                    <TaskRow key={task.task_id} task={task} />
-                  )) : (
-                    <tr>
-                      <td colSpan={4} className="text-center py-10 text-zinc-500">
-                        {jobStatus.job_status === 'running' || jobStatus.job_status === 'pending' ? 'Waiting for transactions...' : 'No transactions found for this job.'}
-                      </td>
-                    </tr>
-                  )}
-                </tbody>
-              </table>
-            </div>
-          </div>
+          {!isReadOnly && jobStatus.signing_mode === 'delegate' && <DelegateCard jobStatus={jobStatus} />}
+
+          {!isReadOnly && jobStatus.job_status === 'completed' &&
+            (jobStatus.lookup_table_status === 'active' || jobStatus.lookup_table_status === 'deactivating') && (
+              <LookupTableCard jobStatus={jobStatus} />
+            )}
+
+          {jobId && <TaskTable key={jobId} jobId={jobId} jobStatus={jobStatus} changedTasks={changedTasks} refreshKey={refreshKey} shareToken={shareToken} />}
         </>
       )}
     </div>
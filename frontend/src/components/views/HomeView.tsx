@@ -58,6 +58,12 @@ const HomeView: React.FC<HomeViewProps> = ({ setActiveView, jobId }) => {
                 View Dashboard
               </button>
             )}
+            <button
+              onClick={() => setActiveView('jobs')}
+              className="px-7 py-3.5 border border-white/20 rounded-lg font-medium hover:border-white/40 hover:bg-white/5 transition-all"
+            >
+              Past Distributions
+            </button>
           </div>
         </div>
       </section>
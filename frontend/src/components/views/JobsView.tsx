@@ -0,0 +1,179 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, History, Loader2, AlertCircle, Upload, CalendarClock } from 'lucide-react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { listJobs } from '../../services/apiService';
+import { useSession } from '../../contexts/SessionContext';
+import { View } from '../../App';
+import { JobSummary } from '../../types';
+
+interface JobsViewProps {
+  setActiveView: (view: View) => void;
+  openJob: (jobId: string) => void;
+}
+
+const statusStyles: Record<JobSummary['status'], string> = {
+  completed: 'bg-gradient-to-br from-zinc-200 to-white text-zinc-900',
+  running: 'bg-white/10 text-zinc-100 border border-white/20',
+  failed: 'bg-red-950/30 text-red-300 border border-red-900/30',
+  cancelled: 'bg-zinc-900/50 text-zinc-400 border border-white/10',
+  paused: 'bg-zinc-900/50 text-zinc-300 border border-white/20',
+  pending: 'bg-zinc-900/50 text-zinc-500 border border-white/10',
+  ingesting: 'bg-zinc-900/50 text-zinc-500 border border-white/10',
+};
+
+const formatTokenAmount = (amount: string, decimals: number) =>
+  (Number(amount) / 10 ** decimals).toLocaleString(undefined, { maximumFractionDigits: decimals });
+
+const JobRow: React.FC<{ job: JobSummary; onOpen: () => void }> = ({ job, onOpen }) => (
+  <tr onClick={onOpen} className="hover:bg-white/5 transition-colors cursor-pointer">
+    <td className="px-8 py-5 text-sm text-zinc-400 whitespace-nowrap">
+      {new Date(job.created_at).toLocaleString()}
+      {job.scheduled_at && (
+        <span className="flex items-center gap-1 text-xs text-zinc-500 mt-1">
+          <CalendarClock className="w-3 h-3" /> Scheduled run
+        </span>
+      )}
+    </td>
+    <td className="px-8 py-5 text-sm font-mono text-zinc-300">{job.job_id.slice(0, 8)}...</td>
+    <td className="px-8 py-5">
+      <span className={`px-3 py-1 rounded-lg text-xs font-medium capitalize ${statusStyles[job.status]}`}>{job.status}</span>
+    </td>
+    <td className="px-8 py-5 text-sm text-zinc-300 whitespace-nowrap">
+      {job.successful_tasks.toLocaleString()} / {(job.total_tasks ?? 0).toLocaleString()}
+      {job.failed_tasks > 0 && <span className="text-red-400/80 ml-2">({job.failed_tasks.toLocaleString()} failed)</span>}
+    </td>
+    <td className="px-8 py-5 text-sm text-zinc-300 whitespace-nowrap">
+      {job.total_amount ? formatTokenAmount(job.total_amount, job.token_decimals) : '—'}
+    </td>
+    <td className="px-8 py-5 text-sm font-mono text-zinc-500">
+      {job.token_mint_address.slice(0, 4)}...{job.token_mint_address.slice(-4)}
+    </td>
+  </tr>
+);
+
+const JobsView: React.FC<JobsViewProps> = ({ setActiveView, openJob }) => {
+  const { publicKey } = useWallet();
+  const { session, isSigningIn, signIn } = useSession();
+  const [jobs, setJobs] = useState<JobSummary[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const distributor = publicKey?.toBase58() ?? null;
+
+  const loadJobs = useCallback(async (cursor: string | null) => {
+    if (!distributor || !session) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const page = await listJobs(distributor, cursor);
+      setJobs((current) => (cursor ? [...current, ...page.jobs] : page.jobs));
+      setNextCursor(page.next_cursor);
+    } catch (err) {
+      console.error('Error loading jobs:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load jobs.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [distributor, session]);
+
+  useEffect(() => {
+    setJobs([]);
+    setNextCursor(null);
+    loadJobs(null);
+  }, [loadJobs]);
+
+  return (
+    <div className="max-w-7xl mx-auto px-6 py-24 relative z-10">
+      <button onClick={() => setActiveView('home')} className="text-zinc-400 hover:text-zinc-100 mb-10 flex items-center gap-2 transition-colors">
+        <ArrowLeft className="w-4 h-4" /> Back
+      </button>
+
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between mb-8 gap-4">
+        <div>
+          <h2 className="text-3xl font-light mb-2 tracking-tight flex items-center gap-3">
+            <History className="w-7 h-7" /> Past Distributions
+          </h2>
+          <p className="text-zinc-400 text-sm">Every job created from the connected wallet, newest first.</p>
+        </div>
+        <button
+          onClick={() => setActiveView('upload')}
+          className="px-6 py-3 bg-gradient-to-br from-zinc-200 to-white text-zinc-900 rounded-lg font-medium flex items-center gap-2 hover:shadow-lg hover:shadow-white/20 transition-all"
+        >
+          New Distribution
+          <Upload className="w-4 h-4" />
+        </button>
+      </div>
+
+      {!distributor ? (
+        <div className="text-center py-20 border border-white/10 rounded-2xl bg-white/5">
+          <p className="text-zinc-400">Connect your wallet to see its distributions.</p>
+        </div>
+      ) : !session ? (
+        <div className="text-center py-20 border border-white/10 rounded-2xl bg-white/5">
+          <p className="text-zinc-400 mb-6">Sign a message with your wallet to prove it is yours.</p>
+          <button
+            onClick={() => signIn().catch((err) => setError(err.message || 'Failed to sign in.'))}
+            disabled={isSigningIn}
+            className="px-6 py-3 bg-gradient-to-br from-zinc-200 to-white text-zinc-900 rounded-lg font-medium hover:shadow-lg hover:shadow-white/20 transition-all disabled:opacity-50"
+          >
+            {isSigningIn ? 'Signing in...' : 'Sign in with wallet'}
+          </button>
+          {error && <p className="text-sm text-red-300 mt-4">{error}</p>}
+        </div>
+      ) : (
+        <>
+          {error && (
+            <div className="mb-6 p-4 border border-red-900/30 bg-red-950/20 rounded-lg flex items-center gap-3 text-red-300 text-sm">
+              <AlertCircle className="w-5 h-5 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {jobs.length === 0 && !isLoading && !error ? (
+            <div className="text-center py-20 border border-white/10 rounded-2xl bg-white/5">
+              <p className="text-zinc-400">No distributions yet.</p>
+            </div>
+          ) : (
+            <div className="border border-white/10 rounded-2xl overflow-hidden bg-white/5 backdrop-blur-sm">
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-white/5 border-b border-white/10">
+                    <tr>
+                      <th className="px-8 py-4 text-left text-xs font-medium text-zinc-400 uppercase tracking-wider">Created</th>
+                      <th className="px-8 py-4 text-left text-xs font-medium text-zinc-400 uppercase tracking-wider">Job</th>
+                      <th className="px-8 py-4 text-left text-xs font-medium text-zinc-400 uppercase tracking-wider">Status</th>
+                      <th className="px-8 py-4 text-left text-xs font-medium text-zinc-400 uppercase tracking-wider">Delivered</th>
+                      <th className="px-8 py-4 text-left text-xs font-medium text-zinc-400 uppercase tracking-wider">Amount</th>
+                      <th className="px-8 py-4 text-left text-xs font-medium text-zinc-400 uppercase tracking-wider">Token</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/5">
+                    {jobs.map((job) => (
+                      <JobRow key={job.job_id} job={job} onOpen={() => openJob(job.job_id)} />
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-center mt-6">
+            {isLoading ? (
+              <Loader2 className="w-6 h-6 animate-spin text-zinc-400" />
+            ) : nextCursor && (
+              <button
+                onClick={() => loadJobs(nextCursor)}
+                className="px-6 py-2.5 border border-white/20 rounded-lg text-sm font-medium hover:border-white/40 hover:bg-white/5 transition-all"
+              >
+                Load more
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default JobsView;
\ No newline at end of file
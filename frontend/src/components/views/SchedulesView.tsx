@@ -0,0 +1,293 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, CalendarClock, Loader2, AlertCircle, Upload, Pause, Play, Pencil, Trash2 } from 'lucide-react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { listSchedules, updateSchedule, deleteSchedule } from '../../services/apiService';
+import { useSession } from '../../contexts/SessionContext';
+import ConfirmDialog from '../ConfirmDialog';
+import { View } from '../../App';
+import { Recurrence, Schedule } from '../../types';
+
+interface SchedulesViewProps {
+  setActiveView: (view: View) => void;
+  openJob: (jobId: string) => void;
+}
+
+export const recurrenceLabels: Record<Recurrence | 'none', string> = {
+  none: 'Once',
+  daily: 'Every day',
+  weekly: 'Every week',
+  biweekly: 'Every two weeks',
+  monthly: 'Every month',
+};
+
+const statusStyles: Record<Schedule['status'], string> = {
+  active: 'bg-white/10 text-zinc-100 border border-white/20',
+  paused: 'bg-zinc-900/50 text-zinc-300 border border-white/20',
+  completed: 'bg-zinc-900/50 text-zinc-500 border border-white/10',
+};
+
+const formatTokenAmount = (amount: string, decimals: number) =>
+  (Number(amount) / 10 ** decimals).toLocaleString(undefined, { maximumFractionDigits: decimals });
+
+// `datetime-local` inputs work in local time without a zone
+export const toLocalInputValue = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+interface ScheduleEditorProps {
+  schedule: Schedule;
+  onSave: (changes: { name: string; scheduledAt?: string; recurrence?: Recurrence | 'none' }) => Promise<void>;
+  onCancel: () => void;
+}
+
+const ScheduleEditor: React.FC<ScheduleEditorProps> = ({ schedule, onSave, onCancel }) => {
+  const [name, setName] = useState(schedule.name ?? '');
+  const [nextRun, setNextRun] = useState(schedule.next_run_at ? toLocalInputValue(new Date(schedule.next_run_at)) : '');
+  const [recurrence, setRecurrence] = useState<Recurrence | 'none'>(schedule.recurrence ?? 'none');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const original = schedule.next_run_at ? toLocalInputValue(new Date(schedule.next_run_at)) : '';
+      // Unchanged timing is left out, so the schedule keeps counting from its first run
+      await onSave({
+        name,
+        ...(recurrence !== (schedule.recurrence ?? 'none') ? { recurrence } : {}),
+        ...(nextRun && nextRun !== original ? { scheduledAt: new Date(nextRun).toISOString() } : {}),
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mt-4">
+      <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Name"
+        className="px-3 py-2.5 bg-black/40 border border-white/20 rounded-xl focus:outline-none focus:border-white/40 text-sm text-zinc-100 placeholder-zinc-600" />
+      <input type="datetime-local" value={nextRun} onChange={(e) => setNextRun(e.target.value)}
+        className="px-3 py-2.5 bg-black/40 border border-white/20 rounded-xl focus:outline-none focus:border-white/40 text-sm text-zinc-100" />
+      <select value={recurrence} onChange={(e) => setRecurrence(e.target.value as Recurrence | 'none')}
+        className="px-3 py-2.5 bg-black/40 border border-white/20 rounded-xl focus:outline-none focus:border-white/40 text-sm text-zinc-100">
+        {Object.entries(recurrenceLabels).map(([value, label]) => (
+          <option key={value} value={value}>{label}</option>
+        ))}
+      </select>
+      <div className="sm:col-span-3 flex justify-end gap-3">
+        <button onClick={onCancel} disabled={isSaving}
+          className="px-4 py-2 border border-white/20 rounded-lg text-sm font-medium hover:border-white/40 hover:bg-white/5 transition-all disabled:opacity-50">
+          Cancel
+        </button>
+        <button onClick={handleSave} disabled={isSaving}
+          className="px-4 py-2 bg-gradient-to-br from-zinc-200 to-white text-zinc-900 rounded-lg text-sm font-medium flex items-center gap-2 transition-all disabled:opacity-50">
+          {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const SchedulesView: React.FC<SchedulesViewProps> = ({ setActiveView, openJob }) => {
+  const { publicKey } = useWallet();
+  const { session, isSigningIn, signIn } = useSession();
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<Schedule | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const loadSchedules = useCallback(async () => {
+    if (!publicKey || !session) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      setSchedules(await listSchedules());
+    } catch (err) {
+      console.error('Error loading schedules:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load schedules.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [publicKey, session]);
+
+  useEffect(() => {
+    setSchedules([]);
+    loadSchedules();
+  }, [loadSchedules]);
+
+  const replaceSchedule = (updated: Schedule) =>
+    setSchedules((current) => current.map((schedule) => (schedule.schedule_id === updated.schedule_id ? updated : schedule)));
+
+  const handleToggle = async (schedule: Schedule) => {
+    setError(null);
+    try {
+      replaceSchedule(await updateSchedule(schedule.schedule_id, { status: schedule.status === 'active' ? 'paused' : 'active' }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update schedule.');
+    }
+  };
+
+  const handleSave = async (schedule: Schedule, changes: Parameters<ScheduleEditorProps['onSave']>[0]) => {
+    setError(null);
+    try {
+      replaceSchedule(await updateSchedule(schedule.schedule_id, changes));
+      setEditingId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update schedule.');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    setIsDeleting(true);
+    try {
+      await deleteSchedule(deleting.schedule_id);
+      setSchedules((current) => current.filter((schedule) => schedule.schedule_id !== deleting.schedule_id));
+      setDeleting(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete schedule.');
+      setDeleting(null);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-6 py-24 relative z-10">
+      <button onClick={() => setActiveView('home')} className="text-zinc-400 hover:text-zinc-100 mb-10 flex items-center gap-2 transition-colors">
+        <ArrowLeft className="w-4 h-4" /> Back
+      </button>
+
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between mb-8 gap-4">
+        <div>
+          <h2 className="text-3xl font-light mb-2 tracking-tight flex items-center gap-3">
+            <CalendarClock className="w-7 h-7" /> Scheduled Distributions
+          </h2>
+          <p className="text-zinc-400 text-sm">Saved recipient lists that become a new job when they are due. Each run waits for your signature.</p>
+        </div>
+        <button
+          onClick={() => setActiveView('upload')}
+          className="px-6 py-3 bg-gradient-to-br from-zinc-200 to-white text-zinc-900 rounded-lg font-medium flex items-center gap-2 hover:shadow-lg hover:shadow-white/20 transition-all"
+        >
+          New Schedule
+          <Upload className="w-4 h-4" />
+        </button>
+      </div>
+
+      {!publicKey ? (
+        <div className="text-center py-20 border border-white/10 rounded-2xl bg-white/5">
+          <p className="text-zinc-400">Connect your wallet to see its schedules.</p>
+        </div>
+      ) : !session ? (
+        <div className="text-center py-20 border border-white/10 rounded-2xl bg-white/5">
+          <p className="text-zinc-400 mb-6">Sign a message with your wallet to prove it is yours.</p>
+          <button
+            onClick={() => signIn().catch((err) => setError(err.message || 'Failed to sign in.'))}
+            disabled={isSigningIn}
+            className="px-6 py-3 bg-gradient-to-br from-zinc-200 to-white text-zinc-900 rounded-lg font-medium hover:shadow-lg hover:shadow-white/20 transition-all disabled:opacity-50"
+          >
+            {isSigningIn ? 'Signing in...' : 'Sign in with wallet'}
+          </button>
+          {error && <p className="text-sm text-red-300 mt-4">{error}</p>}
+        </div>
+      ) : (
+        <>
+          {error && (
+            <div className="mb-6 p-4 border border-red-900/30 bg-red-950/20 rounded-lg flex items-center gap-3 text-red-300 text-sm">
+              <AlertCircle className="w-5 h-5 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-20">
+              <Loader2 className="w-6 h-6 animate-spin text-zinc-400" />
+            </div>
+          ) : schedules.length === 0 && !error ? (
+            <div className="text-center py-20 border border-white/10 rounded-2xl bg-white/5">
+              <p className="text-zinc-400">No schedules yet. Choose "Schedule" when starting a distribution.</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {schedules.map((schedule) => (
+                <div key={schedule.schedule_id} className="border border-white/10 rounded-2xl p-6 bg-white/5 backdrop-blur-sm">
+                  <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-3">
+                        <p className="font-medium text-zinc-100">{schedule.name || 'Untitled schedule'}</p>
+                        <span className={`px-3 py-1 rounded-lg text-xs font-medium capitalize ${statusStyles[schedule.status]}`}>{schedule.status}</span>
+                      </div>
+                      <p className="text-sm text-zinc-400">
+                        {recurrenceLabels[schedule.recurrence ?? 'none']}
+                        {schedule.next_run_at && <> · next run {new Date(schedule.next_run_at).toLocaleString()}</>}
+                      </p>
+                      <p className="text-xs text-zinc-500">
+                        {schedule.recipient_count.toLocaleString()} recipients · {formatTokenAmount(schedule.total_amount, schedule.token_decimals)} tokens ·{' '}
+                        {schedule.signing_mode === 'delegate' ? 'approve a delegate per run' : 'sign each run'}
+                      </p>
+                      {schedule.last_job_id && (
+                        <button onClick={() => openJob(schedule.last_job_id!)} className="text-xs text-zinc-400 hover:text-zinc-100 underline underline-offset-2">
+                          Last run {schedule.last_run_at ? new Date(schedule.last_run_at).toLocaleString() : ''}
+                        </button>
+                      )}
+                      {schedule.last_error && <p className="text-xs text-red-300">{schedule.last_error}</p>}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {schedule.status !== 'completed' && (
+                        <button
+                          onClick={() => handleToggle(schedule)}
+                          className="px-4 py-2 border border-white/20 rounded-lg text-sm font-medium hover:border-white/40 hover:bg-white/5 transition-all flex items-center gap-2"
+                        >
+                          {schedule.status === 'active' ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                          {schedule.status === 'active' ? 'Pause' : 'Resume'}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setEditingId(editingId === schedule.schedule_id ? null : schedule.schedule_id)}
+                        className="px-4 py-2 border border-white/20 rounded-lg text-sm font-medium hover:border-white/40 hover:bg-white/5 transition-all flex items-center gap-2"
+                      >
+                        <Pencil className="w-4 h-4" />
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => setDeleting(schedule)}
+                        className="px-4 py-2 border border-red-900/50 text-red-300 rounded-lg text-sm font-medium hover:bg-red-950/30 transition-all flex items-center gap-2"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                  {editingId === schedule.schedule_id && (
+                    <ScheduleEditor
+                      schedule={schedule}
+                      onSave={(changes) => handleSave(schedule, changes)}
+                      onCancel={() => setEditingId(null)}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      {deleting && (
+        <ConfirmDialog
+          title="Delete this schedule?"
+          confirmLabel="Delete schedule"
+          isBusy={isDeleting}
+          onConfirm={handleDelete}
+          onCancel={() => setDeleting(null)}
+        >
+          No further runs will be created. Jobs it already created stay in your job history.
+        </ConfirmDialog>
+      )}
+    </div>
+  );
+};
+
+export default SchedulesView
\ No newline at end of file
@@ -1,9 +1,40 @@
-import React, { useState, useCallback } from 'react';
-import { Upload, Shield, Zap, AlertCircle, Loader2, FileText, Download, ArrowLeft } from 'lucide-react';
+import React, { useState, useCallback, useEffect } from 'react';
+import { Upload, Shield, Zap, AlertCircle, Loader2, FileText, Download, ArrowLeft, CalendarClock } from 'lucide-react';
 import { useWallet } from '@solana/wallet-adapter-react';
 import { VersionedTransaction } from '@solana/web3.js';
 import { View } from '../../App';
-import { createJob, getUnsignedTransactions, submitSignedTransactions } from '../../services/apiService';
+import { DeliveryProvider, DeliveryProviderName, DryRunReport as DryRunReportData, DuplicateReport, ModeProfile, Recurrence, ValidationReport as ValidationReportData } from '../../types';
+import DryRunReport from '../DryRunReport';
+import ValidationReport from '../ValidationReport';
+import SigningProgress from '../SigningProgress';
+import { recurrenceLabels, toLocalInputValue } from './SchedulesView';
+import { useSession } from '../../contexts/SessionContext';
+import { useSigningSession } from '../../hooks/useSigningSession';
+import {
+  createJob,
+  createSchedule,
+  ApiError,
+  validateRecipients,
+  runDryRun,
+  getLookupTableTransactions,
+  submitLookupTableTransactions,
+  getDelegateStep,
+  submitDelegateTransaction,
+  getJobStatus,
+  getDeliveryProviders,
+  listModeProfiles,
+} from '../../services/apiService';
+
+type RecipientFormat = 'auto' | 'csv' | 'tsv' | 'json' | 'jsonl';
+
+// .txt covers tab-separated text saved from spreadsheets
+const RECIPIENT_FILE_EXTENSIONS = ['.csv', '.tsv', '.txt', '.json', '.jsonl'];
+
+const isRecipientFile = (file: File) =>
+  RECIPIENT_FILE_EXTENSIONS.some((extension) => file.name.toLowerCase().endsWith(extension));
+
+const INGESTION_POLL_INTERVAL_MS = 1000;
+const LAMPORTS_PER_SOL = 1_000_000_000;
 
 interface UploadViewProps {
   setActiveView: (view: View) => void;
@@ -12,13 +43,65 @@ interface UploadViewProps {
 
 const UploadView: React.FC<UploadViewProps> = ({ setActiveView, setJobId }) => {
   const { publicKey, signAllTransactions } = useWallet();
+  const { session, signIn } = useSession();
+  const signingSession = useSigningSession();
   const [csvFile, setCsvFile] = useState<File | null>(null);
   const [tokenMint, setTokenMint] = useState('');
-  const [mode, setMode] = useState<'high-assurance' | 'cost-saver'>('high-assurance');
+  // A built-in mode or the name of one of the wallet's own profiles
+  const [mode, setMode] = useState('high-assurance');
+  const [customProfiles, setCustomProfiles] = useState<ModeProfile[]>([]);
+  const [feeBudgetSol, setFeeBudgetSol] = useState('');
+  const [useLookupTable, setUseLookupTable] = useState(false);
+  const [transferFeeMode, setTransferFeeMode] = useState<'gross' | 'net'>('gross');
+  const [allowUnderfunded, setAllowUnderfunded] = useState(false);
+  const [useDelegate, setUseDelegate] = useState(false);
+  const [deliveryProviders, setDeliveryProviders] = useState<DeliveryProvider[]>([]);
+  // Empty means the server's default provider
+  const [deliveryProvider, setDeliveryProvider] = useState<DeliveryProviderName | ''>('');
+  // Run now, or save the list as a schedule that creates a job when it is due
+  const [runAt, setRunAt] = useState<'now' | 'schedule'>('now');
+  const [scheduledAt, setScheduledAt] = useState('');
+  const [recurrence, setRecurrence] = useState<Recurrence | 'none'>('none');
+  const [scheduleName, setScheduleName] = useState('');
+  const [notifyUrl, setNotifyUrl] = useState('');
+  const [fileFormat, setFileFormat] = useState<RecipientFormat>('auto');
+  const [addressColumn, setAddressColumn] = useState('');
+  const [amountColumn, setAmountColumn] = useState('');
+  const [memoColumn, setMemoColumn] = useState('');
+  const [duplicateHandling, setDuplicateHandling] = useState<DuplicateReport['mode']>('merge');
+  const [duplicateJobId, setDuplicateJobId] = useState<string | null>(null);
+  const [allowDuplicateJob, setAllowDuplicateJob] = useState(false);
+  const [duplicateReport, setDuplicateReport] = useState<DuplicateReport | null>(null);
+  // One key per file, so a double submit or network retry returns the same job
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState('');
   const [dragActive, setDragActive] = useState(false);
   const [progress, setProgress] = useState('');
+  const [dryRunReport, setDryRunReport] = useState<DryRunReportData | null>(null);
+  const [dryRunJobId, setDryRunJobId] = useState<string | null>(null);
+  const [validationReport, setValidationReport] = useState<ValidationReportData | null>(null);
+
+  useEffect(() => {
+    if (!session) return;
+    listModeProfiles()
+      .then((profiles) => setCustomProfiles(profiles.filter((profile) => !profile.built_in)))
+      .catch((err) => console.error('Failed to load mode profiles:', err));
+  }, [session]);
+
+  useEffect(() => {
+    getDeliveryProviders()
+      .then(setDeliveryProviders)
+      .catch((err) => console.error('Failed to load delivery providers:', err));
+  }, []);
+
+  // Head to the dashboard once every round has been signed, including after a resume
+  useEffect(() => {
+    if (signingSession.status === 'completed') {
+      const timer = setTimeout(() => setActiveView('dashboard'), 1000);
+      return () => clearTimeout(timer);
+    }
+  }, [signingSession.status, setActiveView]);
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -37,11 +120,14 @@ const UploadView: React.FC<UploadViewProps> = ({ setActiveView, setJobId }) => {
     
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
       const file = e.dataTransfer.files[0];
-      if (file.name.endsWith('.csv')) {
+      if (isRecipientFile(file)) {
         setCsvFile(file);
+        setIdempotencyKey(crypto.randomUUID());
+        setDuplicateJobId(null);
+        setAllowDuplicateJob(false);
         setError('');
       } else {
-        setError('Please upload a valid CSV file.');
+        setError('Please upload a CSV, TSV or JSON file.');
       }
     }
   }, []);
@@ -49,15 +135,32 @@ const UploadView: React.FC<UploadViewProps> = ({ setActiveView, setJobId }) => {
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const file = e.target.files[0];
-      if (file.name.endsWith('.csv')) {
+      if (isRecipientFile(file)) {
         setCsvFile(file);
+        setIdempotencyKey(crypto.randomUUID());
+        setDuplicateJobId(null);
+        setAllowDuplicateJob(false);
         setError('');
       } else {
-        setError('Please upload a valid CSV file.');
+        setError('Please upload a CSV, TSV or JSON file.');
       }
     }
   };
 
+  // Format and column names go with both the validation and the job upload
+  const appendRecipientOptions = (formData: FormData) => {
+    if (fileFormat !== 'auto') {
+      formData.append('format', fileFormat);
+    }
+    const columnMapping: Record<string, string> = {};
+    if (addressColumn.trim()) columnMapping.address = addressColumn.trim();
+    if (amountColumn.trim()) columnMapping.amount = amountColumn.trim();
+    if (memoColumn.trim()) columnMapping.memo = memoColumn.trim();
+    if (Object.keys(columnMapping).length > 0) {
+      formData.append('columnMapping', JSON.stringify(columnMapping));
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -67,7 +170,7 @@ const UploadView: React.FC<UploadViewProps> = ({ setActiveView, setJobId }) => {
     }
 
     if (!csvFile || !tokenMint) {
-      setError('Please fill all fields and upload a CSV file.');
+      setError('Please fill all fields and upload a recipient list.');
       return;
     }
 
@@ -76,56 +179,219 @@ const UploadView: React.FC<UploadViewProps> = ({ setActiveView, setJobId }) => {
       return;
     }
 
+    if (runAt === 'schedule' && (!scheduledAt || new Date(scheduledAt) <= new Date())) {
+      setError('Please pick a time in the future for the first run.');
+      return;
+    }
+
     setError('');
     setIsSubmitting(true);
 
     try {
-      // Step 1: Create job
+      // Step 1: Check every row before creating anything
+      setProgress('Validating recipient list...');
+      const validationData = new FormData();
+      validationData.append('csvFile', csvFile);
+      validationData.append('tokenMintAddress', tokenMint);
+      appendRecipientOptions(validationData);
+      const report = await validateRecipients(validationData);
+      if (report.rejected.length > 0 || report.warnings.length > 0) {
+        setValidationReport(report);
+        return;
+      }
+    } catch (err: any) {
+      console.error('Error:', err);
+      setError(err.message || 'An error occurred. Please try again.');
+      return;
+    } finally {
+      setIsSubmitting(false);
+      setProgress('');
+    }
+
+    await submitRecipients(false);
+  };
+
+  const handleProceedWithValidation = async () => {
+    setValidationReport(null);
+    await submitRecipients(true);
+  };
+
+  const submitRecipients = (acceptInvalidRows: boolean) =>
+    runAt === 'schedule' ? saveSchedule(acceptInvalidRows) : createAndSimulate(acceptInvalidRows);
+
+  const saveSchedule = async (acceptInvalidRows: boolean) => {
+    if (!publicKey || !csvFile) {
+      return;
+    }
+
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      // Schedules belong to the signed-in wallet
+      if (!session) {
+        setProgress('Please sign in with your wallet...');
+        await signIn();
+      }
+
+      setProgress('Saving schedule...');
+      const formData = new FormData();
+      formData.append('csvFile', csvFile);
+      formData.append('tokenMintAddress', tokenMint);
+      formData.append('distributorAddress', publicKey.toBase58());
+      formData.append('mode', mode);
+      formData.append('transferFeeMode', transferFeeMode);
+      formData.append('signingMode', useDelegate ? 'delegate' : 'wallet');
+      formData.append('duplicateHandling', duplicateHandling);
+      formData.append('acceptInvalidRows', String(acceptInvalidRows));
+      formData.append('scheduledAt', new Date(scheduledAt).toISOString());
+      formData.append('recurrence', recurrence);
+      formData.append('name', scheduleName);
+      if (notifyUrl.trim()) formData.append('notifyUrl', notifyUrl.trim());
+      appendRecipientOptions(formData);
+
+      await createSchedule(formData);
+      setActiveView('schedules');
+    } catch (err: any) {
+      console.error('Error:', err);
+      setError(err.message || 'An error occurred. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+      setProgress('');
+    }
+  };
+
+  const createAndSimulate = async (acceptInvalidRows: boolean) => {
+    if (!publicKey || !csvFile) {
+      return;
+    }
+
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      // Jobs belong to the signed-in wallet
+      if (!session) {
+        setProgress('Please sign in with your wallet...');
+        await signIn();
+      }
+
+      // Step 2: Create job
       setProgress('Creating job...');
       const formData = new FormData();
       formData.append('csvFile', csvFile);
       formData.append('tokenMintAddress', tokenMint);
       formData.append('distributorAddress', publicKey.toBase58());
       formData.append('mode', mode);
+      formData.append('useLookupTable', String(useLookupTable));
+      formData.append('transferFeeMode', transferFeeMode);
+      formData.append('allowUnderfunded', String(allowUnderfunded));
+      formData.append('signingMode', useDelegate ? 'delegate' : 'wallet');
+      formData.append('duplicateHandling', duplicateHandling);
+      formData.append('allowDuplicateJob', String(allowDuplicateJob));
+      formData.append('acceptInvalidRows', String(acceptInvalidRows));
+      if (deliveryProvider) formData.append('deliveryProvider', deliveryProvider);
+      if (feeBudgetSol.trim()) {
+        formData.append('feeBudgetLamports', String(Math.round(parseFloat(feeBudgetSol) * LAMPORTS_PER_SOL)));
+      }
+      appendRecipientOptions(formData);
 
-      const jobData = await createJob(formData);
+      const jobData = await createJob(formData, idempotencyKey);
       const currentJobId = jobData.job_id;
       setJobId(currentJobId);
+      setDuplicateReport(jobData.duplicates?.count > 0 ? jobData.duplicates : null);
+
+      // Large lists keep loading after the job is created; wait until every task is in
+      if (jobData.job_status === 'ingesting') {
+        await waitForIngestion(currentJobId);
+      }
 
-      // Step 2: Get unsigned transactions
-      setProgress('Preparing transactions...');
-      const { transactions } = await getUnsignedTransactions(currentJobId);
+      // Step 3: Simulate everything the job would send before asking for signatures
+      setProgress('Simulating transactions...');
+      const report = await runDryRun(currentJobId);
+      setDryRunJobId(currentJobId);
+      setDryRunReport(report);
+    } catch (err: any) {
+      console.error('Error:', err);
+      if (err instanceof ApiError && err.status === 409) {
+        setDuplicateJobId(err.data.duplicate_of);
+      }
+      setError(err.message || 'An error occurred. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+      setProgress('');
+    }
+  };
 
-      if (transactions.length === 0) {
-        setProgress('No transactions to process.');
-        setActiveView('dashboard');
+  const waitForIngestion = async (currentJobId: string) => {
+    while (true) {
+      const status = await getJobStatus(currentJobId);
+      if (status.job_status === 'failed') {
+        throw new Error(status.error_message || 'Loading the recipient list failed.');
+      }
+      if (status.job_status !== 'ingesting') {
         return;
       }
+      setProgress(`Loading recipients... ${(status.ingested_tasks ?? 0).toLocaleString()} of ${(status.expected_tasks ?? 0).toLocaleString()}`);
+      await new Promise((resolve) => setTimeout(resolve, INGESTION_POLL_INTERVAL_MS));
+    }
+  };
 
-      // Step 3: Deserialize and sign transactions
-      setProgress(`Please sign ${transactions.length} transactions in your wallet...`);
-      const unsignedTxs = transactions.map((item: any) => {
-        const txBuffer = Buffer.from(item.transaction, 'base64');
-        return VersionedTransaction.deserialize(txBuffer);
-      });
+  const handleCancelDryRun = () => {
+    // The cancelled job keeps its key; a new attempt must not be answered with it
+    setIdempotencyKey(crypto.randomUUID());
+    setDryRunReport(null);
+    setDryRunJobId(null);
+  };
 
-      const signedTxs = await signAllTransactions(unsignedTxs);
+  const handleAcceptDryRun = async () => {
+    if (!dryRunJobId || !signAllTransactions) {
+      return;
+    }
+    const currentJobId = dryRunJobId;
 
-      // Step 4: Serialize signed transactions
-      setProgress('Submitting transactions...');
-      const signedTransactionsData = signedTxs.map((tx, index) => ({
-        task_id: transactions[index].task_id,
-        transaction: Buffer.from(tx.serialize()).toString('base64'),
-      }));
+    setError('');
+    setIsSubmitting(true);
 
-      // Step 5: Submit to backend
-      await submitSignedTransactions(currentJobId, signedTransactionsData);
+    try {
+      // Step 4: Create the address lookup table before building transfers
+      if (useLookupTable) {
+        setProgress('Preparing address lookup table...');
+        const lookupTableStep = await getLookupTableTransactions(currentJobId);
+        if (lookupTableStep.transactions.length > 0) {
+          setProgress('Please sign the lookup table setup in your wallet...');
+          const signedSetupTxs = await signAllTransactions(
+            lookupTableStep.transactions.map((tx) => VersionedTransaction.deserialize(Buffer.from(tx, 'base64')))
+          );
+          setProgress('Creating address lookup table...');
+          await submitLookupTableTransactions(
+            currentJobId,
+            signedSetupTxs.map((tx) => Buffer.from(tx.serialize()).toString('base64'))
+          );
+        }
+      }
 
-      setProgress('Success! Redirecting to dashboard...');
-      setTimeout(() => {
-        setActiveView('dashboard');
-      }, 1000);
+      // Step 5 (delegate): approve the delegate once and let the server send everything
+      if (useDelegate) {
+        const delegateStep = await getDelegateStep(currentJobId);
+        if (delegateStep.transaction) {
+          setProgress('Please approve the delegate in your wallet...');
+          const [signedApproveTx] = await signAllTransactions([
+            VersionedTransaction.deserialize(Buffer.from(delegateStep.transaction, 'base64')),
+          ]);
+          setProgress('Approving delegate...');
+          await submitDelegateTransaction(currentJobId, Buffer.from(signedApproveTx.serialize()).toString('base64'));
+        }
+        setProgress('Delegate approved! Redirecting to dashboard...');
+        setTimeout(() => {
+          setActiveView('dashboard');
+        }, 1000);
+        return;
+      }
 
+      // Step 5: Fetch, sign and submit rounds of transactions until none are left
+      setProgress('');
+      await signingSession.run(currentJobId);
     } catch (err: any) {
       console.error('Error:', err);
       setError(err.message || 'An error occurred. Please try again.');
@@ -150,7 +416,7 @@ const UploadView: React.FC<UploadViewProps> = ({ setActiveView, setJobId }) => {
 
       <div className="border border-white/10 rounded-2xl p-10 bg-white/5 backdrop-blur-sm">
         <h2 className="text-3xl font-light mb-2 tracking-tight">Start Distribution</h2>
-        <p className="text-zinc-400 mb-10 text-sm">Upload your CSV and configure distribution settings</p>
+        <p className="text-zinc-400 mb-10 text-sm">Upload your recipient list and configure distribution settings</p>
 
         {!publicKey && (
           <div className="mb-8 p-4 bg-amber-950/30 border border-amber-900/30 rounded-xl flex items-start gap-3">
@@ -175,83 +441,288 @@ const UploadView: React.FC<UploadViewProps> = ({ setActiveView, setJobId }) => {
           </div>
         )}
 
-        <form onSubmit={handleSubmit} className="space-y-8">
-          <div>
-            <label className="block text-sm font-medium mb-3 text-zinc-300">Recipient List (CSV)</label>
-            <div
-              onDragEnter={handleDrag} onDragLeave={handleDrag} onDragOver={handleDrag} onDrop={handleDrop}
-              className={`border-2 border-dashed rounded-xl p-10 text-center transition-all ${
-                dragActive ? 'border-white/40 bg-white/10' : 'border-white/20 hover:border-white/30 bg-white/5'
-              }`}
-            >
-              <input type="file" accept=".csv" onChange={handleFileChange} className="hidden" id="csv-upload" />
-              <label htmlFor="csv-upload" className="cursor-pointer flex flex-col items-center justify-center">
-                {csvFile ? (
-                  <div className="flex flex-col items-center justify-center gap-2">
-                    <FileText className="w-10 h-10 text-zinc-300" />
-                    <span className="font-medium text-zinc-100">{csvFile.name}</span>
-                    <span className="text-sm text-zinc-500">{(csvFile.size / 1024).toFixed(2)} KB</span>
-                    <span className="mt-2 text-xs text-zinc-500">Click to change file</span>
+        {signingSession.status !== 'idle' ? (
+          <div className="space-y-4">
+            <SigningProgress session={signingSession} />
+            {signingSession.status !== 'running' && (
+              <button type="button" onClick={() => setActiveView('dashboard')}
+                className="w-full py-3 border border-white/20 rounded-xl text-sm font-medium hover:border-white/40 hover:bg-white/5 transition-all">
+                Go to Dashboard
+              </button>
+            )}
+          </div>
+        ) : validationReport ? (
+          <ValidationReport
+            report={validationReport}
+            onProceed={handleProceedWithValidation}
+            onCancel={() => setValidationReport(null)}
+            isSubmitting={isSubmitting}
+          />
+        ) : dryRunReport ? (
+          <>
+            {duplicateReport && (
+              <div className="mb-6 p-4 bg-amber-950/30 border border-amber-900/30 rounded-xl text-sm text-amber-300">
+                {duplicateReport.count} addresses appeared more than once in {duplicateReport.rows_in_file} rows
+                {duplicateReport.mode === 'merge' ? ' and were merged into one transfer each.' : ' and will each receive a transfer per row.'}
+              </div>
+            )}
+            <DryRunReport
+              report={dryRunReport}
+              onAccept={handleAcceptDryRun}
+              onCancel={handleCancelDryRun}
+              isSubmitting={isSubmitting}
+            />
+          </>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-8">
+            <div>
+              <label className="block text-sm font-medium mb-3 text-zinc-300">Recipient List</label>
+              <div
+                onDragEnter={handleDrag} onDragLeave={handleDrag} onDragOver={handleDrag} onDrop={handleDrop}
+                className={`border-2 border-dashed rounded-xl p-10 text-center transition-all ${
+                  dragActive ? 'border-white/40 bg-white/10' : 'border-white/20 hover:border-white/30 bg-white/5'
+                }`}
+              >
+                <input type="file" accept={RECIPIENT_FILE_EXTENSIONS.join(',')} onChange={handleFileChange} className="hidden" id="csv-upload" />
+                <label htmlFor="csv-upload" className="cursor-pointer flex flex-col items-center justify-center">
+                  {csvFile ? (
+                    <div className="flex flex-col items-center justify-center gap-2">
+                      <FileText className="w-10 h-10 text-zinc-300" />
+                      <span className="font-medium text-zinc-100">{csvFile.name}</span>
+                      <span className="text-sm text-zinc-500">{(csvFile.size / 1024).toFixed(2)} KB</span>
+                      <span className="mt-2 text-xs text-zinc-500">Click to change file</span>
+                    </div>
+                  ) : (
+                    <>
+                      <Upload className="w-10 h-10 mx-auto mb-4 text-zinc-500" />
+                      <p className="text-base mb-2 text-zinc-300">Drop a CSV, TSV or JSON file here or click to upload</p>
+                      <p className="text-sm text-zinc-500">Columns: address, amount, optional memo</p>
+                    </>
+                  )}
+                </label>
+              </div>
+              <button type="button" onClick={downloadTemplate} className="mt-3 text-sm text-zinc-400 hover:text-zinc-100 flex items-center gap-2 transition-colors">
+                <Download className="w-4 h-4" />
+                Download CSV Template
+              </button>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-3 text-zinc-300">File Format &amp; Columns</label>
+              <select value={fileFormat} onChange={(e) => setFileFormat(e.target.value as RecipientFormat)}
+                className="w-full px-4 py-3.5 bg-black/40 border border-white/20 rounded-xl focus:outline-none focus:border-white/40 text-sm text-zinc-100">
+                <option value="auto">Detect from the file</option>
+                <option value="csv">CSV (comma-separated)</option>
+                <option value="tsv">TSV (tab-separated, e.g. copied from a spreadsheet)</option>
+                <option value="json">JSON array of objects</option>
+                <option value="jsonl">JSON Lines (one object per line)</option>
+              </select>
+              <div className="grid grid-cols-3 gap-3 mt-3">
+                {[
+                  { value: addressColumn, setValue: setAddressColumn, placeholder: 'address' },
+                  { value: amountColumn, setValue: setAmountColumn, placeholder: 'amount' },
+                  { value: memoColumn, setValue: setMemoColumn, placeholder: 'memo' },
+                ].map(({ value, setValue, placeholder }) => (
+                  <input key={placeholder} type="text" value={value} onChange={(e) => setValue(e.target.value)} placeholder={placeholder}
+                    className="w-full px-3 py-2.5 bg-black/40 border border-white/20 rounded-xl focus:outline-none focus:border-white/40 font-mono text-xs text-zinc-100 placeholder-zinc-600" />
+                ))}
+              </div>
+              <p className="text-xs text-zinc-500 leading-relaxed mt-2">
+                Column names in your file, if they differ from these. Memo falls back to a "reference" column and is stored with each transfer.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-3 text-zinc-300">Token Mint Address</label>
+              <input type="text" value={tokenMint} onChange={(e) => setTokenMint(e.target.value)} placeholder="Enter SPL token mint address"
+                className="w-full px-4 py-3.5 bg-black/40 border border-white/20 rounded-xl focus:outline-none focus:border-white/40 font-mono text-sm text-zinc-100 placeholder-zinc-600" />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-4 text-zinc-300">Distribution Mode</label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <button type="button" onClick={() => setMode('high-assurance')}
+                  className={`flex flex-col items-start p-3 rounded-xl border text-left transition-all ${
+                    mode === 'high-assurance' ? 'border-white/40 bg-white/20' : 'border-white/20 hover:border-white/30 bg-white/5'
+                  }`}>
+                  <div className="flex items-center gap-2">
+                    <Shield className="w-4 h-4 text-zinc-300" />
+                    <p className="font-medium">High Assurance</p>
                   </div>
-                ) : (
-                  <>
-                    <Upload className="w-10 h-10 mx-auto mb-4 text-zinc-500" />
-                    <p className="text-base mb-2 text-zinc-300">Drop CSV file here or click to upload</p>
-                    <p className="text-sm text-zinc-500">Format: address, amount</p>
-                  </>
-                )}
-              </label>
+                  <p className="text-xs text-zinc-500 leading-relaxed mt-1">Maximum reliability</p>
+                </button>
+                <button type="button" onClick={() => setMode('cost-saver')}
+                  className={`flex flex-col items-start p-3 rounded-xl border text-left transition-all ${
+                    mode === 'cost-saver' ? 'border-white/40 bg-white/20' : 'border-white/20 hover:border-white/30 bg-white/5'
+                  }`}>
+                  <div className="flex items-center gap-2">
+                    <Zap className="w-4 h-4 text-zinc-300" />
+                    <p className="font-medium">Cost Saver</p>
+                  </div>
+                  <p className="text-xs text-zinc-500 leading-relaxed mt-1">Budget-friendly</p>
+                </button>
+              </div>
+              {customProfiles.length > 0 && (
+                <select value={customProfiles.some((profile) => profile.name === mode) ? mode : ''}
+                  onChange={(e) => setMode(e.target.value || 'high-assurance')}
+                  className="w-full mt-4 px-4 py-3.5 bg-black/40 border border-white/20 rounded-xl focus:outline-none focus:border-white/40 text-sm text-zinc-100">
+                  <option value="">Or pick one of your mode profiles...</option>
+                  {customProfiles.map((profile) => (
+                    <option key={profile.name} value={profile.name}>
+                      {profile.name} ({profile.cu_price_strategy} CU price, {profile.delivery_method})
+                    </option>
+                  ))}
+                </select>
+              )}
             </div>
-            <button type="button" onClick={downloadTemplate} className="mt-3 text-sm text-zinc-400 hover:text-zinc-100 flex items-center gap-2 transition-colors">
-              <Download className="w-4 h-4" />
-              Download CSV Template
-            </button>
-          </div>
 
-          <div>
-            <label className="block text-sm font-medium mb-3 text-zinc-300">Token Mint Address</label>
-            <input type="text" value={tokenMint} onChange={(e) => setTokenMint(e.target.value)} placeholder="Enter SPL token mint address"
-              className="w-full px-4 py-3.5 bg-black/40 border border-white/20 rounded-xl focus:outline-none focus:border-white/40 font-mono text-sm text-zinc-100 placeholder-zinc-600" />
-          </div>
+            {runAt === 'now' && (
+              <div>
+                <label className="block text-sm font-medium mb-3 text-zinc-300">Fee Budget (SOL, optional)</label>
+                <input type="number" min="0" step="0.000001" value={feeBudgetSol} onChange={(e) => setFeeBudgetSol(e.target.value)}
+                  placeholder="No limit"
+                  className="w-full px-4 py-3.5 bg-black/40 border border-white/20 rounded-xl focus:outline-none focus:border-white/40 text-sm text-zinc-100 placeholder-zinc-600" />
+                <p className="text-xs text-zinc-500 leading-relaxed mt-2">The job pauses before its network fees and tips would go over this amount.</p>
+              </div>
+            )}
 
-          <div>
-            <label className="block text-sm font-medium mb-4 text-zinc-300">Distribution Mode</label>
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-              <button type="button" onClick={() => setMode('high-assurance')}
-                className={`flex flex-col items-start p-3 rounded-xl border text-left transition-all ${
-                  mode === 'high-assurance' ? 'border-white/40 bg-white/20' : 'border-white/20 hover:border-white/30 bg-white/5'
-                }`}>
-                <div className="flex items-center gap-2">
-                  <Shield className="w-4 h-4 text-zinc-300" />
-                  <p className="font-medium">High Assurance</p>
-                </div>
-                <p className="text-xs text-zinc-500 leading-relaxed mt-1">Maximum reliability</p>
-              </button>
-              <button type="button" onClick={() => setMode('cost-saver')}
-                className={`flex flex-col items-start p-3 rounded-xl border text-left transition-all ${
-                  mode === 'cost-saver' ? 'border-white/40 bg-white/20' : 'border-white/20 hover:border-white/30 bg-white/5'
-                }`}>
-                <div className="flex items-center gap-2">
-                  <Zap className="w-4 h-4 text-zinc-300" />
-                  <p className="font-medium">Cost Saver</p>
+            <div>
+              <label className="block text-sm font-medium mb-3 text-zinc-300">Transfer Fees (Token-2022)</label>
+              <select value={transferFeeMode} onChange={(e) => setTransferFeeMode(e.target.value as 'gross' | 'net')}
+                className="w-full px-4 py-3.5 bg-black/40 border border-white/20 rounded-xl focus:outline-none focus:border-white/40 text-sm text-zinc-100">
+                <option value="gross">Recipients absorb the fee (send the listed amount)</option>
+                <option value="net">Distributor covers the fee (recipients receive the listed amount)</option>
+              </select>
+              <p className="text-xs text-zinc-500 leading-relaxed mt-2">Only applies to mints with a transfer fee extension.</p>
+            </div>
+
+            {runAt === 'now' && deliveryProviders.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium mb-3 text-zinc-300">Delivery</label>
+                <select value={deliveryProvider} onChange={(e) => setDeliveryProvider(e.target.value as DeliveryProviderName | '')}
+                  className="w-full px-4 py-3.5 bg-black/40 border border-white/20 rounded-xl focus:outline-none focus:border-white/40 text-sm text-zinc-100">
+                  <option value="">Server default ({deliveryProviders.find((provider) => provider.default)?.label ?? 'unknown'})</option>
+                  {deliveryProviders.map((provider) => (
+                    <option key={provider.name} value={provider.name} disabled={!provider.configured}>
+                      {provider.label}{provider.configured ? '' : ' (not configured)'}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-zinc-500 leading-relaxed mt-2">Failed sends fall back to the server's backup providers when that cannot pay anyone twice.</p>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium mb-3 text-zinc-300">Repeated Addresses</label>
+              <select value={duplicateHandling} onChange={(e) => setDuplicateHandling(e.target.value as DuplicateReport['mode'])}
+                className="w-full px-4 py-3.5 bg-black/40 border border-white/20 rounded-xl focus:outline-none focus:border-white/40 text-sm text-zinc-100">
+                <option value="merge">Merge into one transfer with the summed amount</option>
+                <option value="reject">Reject the file</option>
+                <option value="keep">Keep every row as its own transfer</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-3 text-zinc-300">When</label>
+              <div className="grid grid-cols-2 gap-4">
+                {(['now', 'schedule'] as const).map((option) => (
+                  <button key={option} type="button" onClick={() => setRunAt(option)}
+                    className={`flex items-center gap-2 p-3 rounded-xl border text-left text-sm font-medium transition-all ${
+                      runAt === option ? 'border-white/40 bg-white/20' : 'border-white/20 hover:border-white/30 bg-white/5'
+                    }`}>
+                    {option === 'now' ? <Zap className="w-4 h-4 text-zinc-300" /> : <CalendarClock className="w-4 h-4 text-zinc-300" />}
+                    {option === 'now' ? 'Run now' : 'Schedule'}
+                  </button>
+                ))}
+              </div>
+              {runAt === 'schedule' && (
+                <div className="space-y-3 mt-3">
+                  <div className="grid grid-cols-2 gap-3">
+                    <input type="datetime-local" value={scheduledAt} min={toLocalInputValue(new Date())} onChange={(e) => setScheduledAt(e.target.value)}
+                      className="w-full px-3 py-2.5 bg-black/40 border border-white/20 rounded-xl focus:outline-none focus:border-white/40 text-sm text-zinc-100" />
+                    <select value={recurrence} onChange={(e) => setRecurrence(e.target.value as Recurrence | 'none')}
+                      className="w-full px-3 py-2.5 bg-black/40 border border-white/20 rounded-xl focus:outline-none focus:border-white/40 text-sm text-zinc-100">
+                      {Object.entries(recurrenceLabels).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <input type="text" value={scheduleName} onChange={(e) => setScheduleName(e.target.value)} placeholder="Name, e.g. Monthly payroll"
+                    className="w-full px-3 py-2.5 bg-black/40 border border-white/20 rounded-xl focus:outline-none focus:border-white/40 text-sm text-zinc-100 placeholder-zinc-600" />
+                  <input type="url" value={notifyUrl} onChange={(e) => setNotifyUrl(e.target.value)} placeholder="Notification webhook URL (optional)"
+                    className="w-full px-3 py-2.5 bg-black/40 border border-white/20 rounded-xl focus:outline-none focus:border-white/40 text-sm text-zinc-100 placeholder-zinc-600" />
+                  <p className="text-xs text-zinc-500 leading-relaxed">
+                    Each run becomes a new job that waits for you to sign it, or to approve its delegate with one signature. The webhook is called when a run is ready.
+                  </p>
                 </div>
-                <p className="text-xs text-zinc-500 leading-relaxed mt-1">Budget-friendly</p>
-              </button>
+              )}
             </div>
-          </div>
 
-          <button type="submit" disabled={isSubmitting || !csvFile || !publicKey}
-            className="w-full py-4 bg-gradient-to-br from-zinc-200 to-white text-zinc-900 rounded-xl font-medium flex items-center justify-center gap-2 hover:shadow-lg hover:shadow-white/20 transition-all disabled:opacity-50 disabled:cursor-not-allowed hover:scale-[1.01]">
-            {isSubmitting ? (
+            {duplicateJobId && runAt === 'now' && (
+              <label className="flex items-start gap-3 cursor-pointer">
+                <input type="checkbox" checked={allowDuplicateJob} onChange={(e) => setAllowDuplicateJob(e.target.checked)}
+                  className="mt-1 accent-zinc-200" />
+                <div>
+                  <p className="text-sm font-medium text-amber-300">Create Anyway</p>
+                  <p className="text-xs text-zinc-500 leading-relaxed mt-1">
+                    Job {duplicateJobId} already pays these recipients the same amounts. Only continue if you mean to pay them again.
+                  </p>
+                </div>
+              </label>
+            )}
+
+            {runAt === 'now' && (
               <>
-                <Loader2 className="w-5 h-5 animate-spin" />
-                Processing...
+                <label className="flex items-start gap-3 cursor-pointer">
+                  <input type="checkbox" checked={useLookupTable} onChange={(e) => setUseLookupTable(e.target.checked)}
+                    className="mt-1 accent-zinc-200" />
+                  <div>
+                    <p className="text-sm font-medium text-zinc-300">Use Address Lookup Table</p>
+                    <p className="text-xs text-zinc-500 leading-relaxed mt-1">
+                      Fits more transfers per transaction for large distributions. The table is closed and its rent refunded once the job completes.
+                    </p>
+                  </div>
+                </label>
+
+                <label className="flex items-start gap-3 cursor-pointer">
+                  <input type="checkbox" checked={allowUnderfunded} onChange={(e) => setAllowUnderfunded(e.target.checked)}
+                    className="mt-1 accent-zinc-200" />
+                  <div>
+                    <p className="text-sm font-medium text-zinc-300">Allow Underfunded Job</p>
+                    <p className="text-xs text-zinc-500 leading-relaxed mt-1">
+                      Create the job even if the wallet's token or SOL balance does not cover it yet. The dashboard will show the shortfall.
+                    </p>
+                  </div>
+                </label>
               </>
-            ) : (
-              'Start Distribution'
             )}
-          </button>
-        </form>
+
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input type="checkbox" checked={useDelegate} onChange={(e) => setUseDelegate(e.target.checked)}
+                className="mt-1 accent-zinc-200" />
+              <div>
+                <p className="text-sm font-medium text-zinc-300">Server-side Delegate Signing</p>
+                <p className="text-xs text-zinc-500 leading-relaxed mt-1">
+                  Sign once to approve a job-only delegate for the total amount and fund its fees. The server then signs and sends every transfer. The delegation ends with the job.
+                </p>
+              </div>
+            </label>
+
+            <button type="submit" disabled={isSubmitting || !csvFile || !publicKey}
+              className="w-full py-4 bg-gradient-to-br from-zinc-200 to-white text-zinc-900 rounded-xl font-medium flex items-center justify-center gap-2 hover:shadow-lg hover:shadow-white/20 transition-all disabled:opacity-50 disabled:cursor-not-allowed hover:scale-[1.01]">
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                  Processing...
+                </>
+              ) : runAt === 'schedule' ? (
+                'Save Schedule'
+              ) : (
+                'Start Distribution'
+              )}
+            </button>
+          </form>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,91 @@
+// src/contexts/SessionContext.tsx
+import { FC, ReactNode, createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { createSession, deleteSession, requestSignInNonce, setSessionToken } from '../services/apiService';
+import { Session } from '../types';
+
+interface SessionContextValue {
+  session: Session | null;
+  isSigningIn: boolean;
+  signIn: () => Promise<Session>;
+  signOut: () => Promise<void>;
+}
+
+const SessionContext = createContext<SessionContextValue | null>(null);
+
+// Sessions are kept per wallet, so switching wallets back and forth does not ask to sign again
+const storageKey = (wallet: string) => `conductor.session.${wallet}`;
+
+const loadStoredSession = (wallet: string): Session | null => {
+  try {
+    const stored = localStorage.getItem(storageKey(wallet));
+    const session: Session | null = stored ? JSON.parse(stored) : null;
+    return session && new Date(session.expires_at) > new Date() ? session : null;
+  } catch {
+    return null;
+  }
+};
+
+interface SessionProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Signs the connected wallet in to the backend (sign-in with Solana) and
+ * keeps the session token that job routes require.
+ */
+export const SessionProvider: FC<SessionProviderProps> = ({ children }) => {
+  const { publicKey, signMessage } = useWallet();
+  const [session, setSession] = useState<Session | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  const wallet = publicKey?.toBase58() ?? null;
+
+  useEffect(() => {
+    const stored = wallet ? loadStoredSession(wallet) : null;
+    setSessionToken(stored?.token ?? null);
+    setSession(stored);
+  }, [wallet]);
+
+  const signIn = useCallback(async () => {
+    if (!wallet) throw new Error('Please connect your wallet.');
+    if (!signMessage) throw new Error('This wallet cannot sign messages.');
+
+    setIsSigningIn(true);
+    try {
+      const { nonce, message } = await requestSignInNonce(wallet);
+      const signature = await signMessage(new TextEncoder().encode(message));
+      const newSession = await createSession(wallet, nonce, Buffer.from(signature).toString('base64'));
+
+      localStorage.setItem(storageKey(wallet), JSON.stringify(newSession));
+      setSessionToken(newSession.token);
+      setSession(newSession);
+      return newSession;
+    } finally {
+      setIsSigningIn(false);
+    }
+  }, [wallet, signMessage]);
+
+  const signOut = useCallback(async () => {
+    try {
+      await deleteSession();
+    } catch (err) {
+      console.error('Error signing out:', err);
+    }
+    if (wallet) localStorage.removeItem(storageKey(wallet));
+    setSessionToken(null);
+    setSession(null);
+  }, [wallet]);
+
+  return (
+    <SessionContext.Provider value={{ session, isSigningIn, signIn, signOut }}>
+      {children}
+    </SessionContext.Provider>
+  );
+};
+
+export const useSession = (): SessionContextValue => {
+  const context = useContext(SessionContext);
+  if (!context) throw new Error('useSession must be used inside SessionProvider');
+  return context;
+};
\ No newline at end of file
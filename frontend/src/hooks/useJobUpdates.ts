@@ -0,0 +1,156 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { JobStatus, Task } from '../types';
+import { getJobStatus, getJobEventsUrl } from '../services/apiService';
+
+const POLL_INTERVAL_MS = 3000;
+// While polling after the stream dropped, how long to wait before trying the stream again
+const STREAM_RETRY_MS = 30000;
+
+export type JobUpdatesConnection = 'idle' | 'live' | 'polling';
+
+// Nothing more will change once the job has ended and every sent transaction has landed or expired
+const isSettled = (status: JobStatus) =>
+  ['completed', 'failed', 'cancelled'].includes(status.job_status) && (status.sent || 0) + (status.confirmed || 0) === 0;
+
+/**
+ * Follows a job through the server's event stream: status updates plus the
+ * rows of tasks as they change (`changedTasks`). Task lists are paginated, so
+ * instead of holding every task this bumps `refreshKey` whenever a list should
+ * be re-read (after a poll or once ingestion finishes). Falls back to polling
+ * while the stream is down and stops once the job has settled. `shareToken`
+ * reads a job through a share link instead of the signed-in session.
+ */
+export const useJobUpdates = (jobId: string | null, shareToken: string | null = null) => {
+  const [jobStatus, setJobStatus] = useState<JobStatus | null>(null);
+  const [changedTasks, setChangedTasks] = useState<Task[]>([]);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [connection, setConnection] = useState<JobUpdatesConnection>('idle');
+  const [error, setError] = useState<string | null>(null);
+
+  const streamRef = useRef<EventSource | null>(null);
+  const pollingRef = useRef<number | null>(null);
+  const retryRef = useRef<number | null>(null);
+  const lastJobStatusRef = useRef<JobStatus['job_status'] | null>(null);
+  // Bumped by stopUpdates, so a stream still fetching its URL knows not to open
+  const generationRef = useRef(0);
+  const openingRef = useRef(false);
+
+  const stopUpdates = useCallback(() => {
+    generationRef.current += 1;
+    openingRef.current = false;
+    streamRef.current?.close();
+    streamRef.current = null;
+    if (pollingRef.current) {
+      clearInterval(pollingRef.current);
+      pollingRef.current = null;
+    }
+    if (retryRef.current) {
+      clearTimeout(retryRef.current);
+      retryRef.current = null;
+    }
+    setConnection('idle');
+  }, []);
+
+  const loadSnapshot = useCallback(async () => {
+    if (!jobId) return null;
+    const statusData = await getJobStatus(jobId, shareToken);
+    lastJobStatusRef.current = statusData.job_status;
+    setJobStatus(statusData);
+    setError(null);
+    setRefreshKey((key) => key + 1);
+    return statusData;
+  }, [jobId, shareToken]);
+
+  const startUpdates = useCallback(() => {
+    if (!jobId || streamRef.current || pollingRef.current || openingRef.current) return;
+
+    const poll = async () => {
+      try {
+        const statusData = await loadSnapshot();
+        if (statusData && isSettled(statusData)) {
+          stopUpdates();
+        }
+      } catch (err) {
+        console.error('Error polling data:', err);
+        setError('Failed to poll job data. Please refresh.');
+        stopUpdates();
+      }
+    };
+
+    const fallBackToPolling = () => {
+      streamRef.current?.close();
+      streamRef.current = null;
+      if (!pollingRef.current) {
+        setConnection('polling');
+        pollingRef.current = window.setInterval(poll, POLL_INTERVAL_MS);
+      }
+      retryRef.current = window.setTimeout(openStream, STREAM_RETRY_MS);
+    };
+
+    const openStream = async () => {
+      retryRef.current = null;
+      const generation = generationRef.current;
+      openingRef.current = true;
+      let url: string;
+      try {
+        url = await getJobEventsUrl(jobId, shareToken);
+      } catch (err) {
+        if (generation !== generationRef.current) return;
+        openingRef.current = false;
+        console.error('Error opening job stream:', err);
+        fallBackToPolling();
+        return;
+      }
+      if (generation !== generationRef.current) return;
+      openingRef.current = false;
+
+      const stream = new EventSource(url);
+      streamRef.current = stream;
+
+      stream.onopen = () => {
+        if (pollingRef.current) {
+          clearInterval(pollingRef.current);
+          pollingRef.current = null;
+        }
+        setConnection('live');
+        // Catch up on anything that changed while the stream was down
+        poll();
+      };
+
+      stream.addEventListener('status', (event) => {
+        const statusData: JobStatus = JSON.parse((event as MessageEvent).data);
+        const previousJobStatus = lastJobStatusRef.current;
+        lastJobStatusRef.current = statusData.job_status;
+        // Stream updates carry no funding check, so keep the one from the last snapshot
+        setJobStatus((current) => ({ ...current, ...statusData }));
+
+        if (previousJobStatus === 'ingesting' && statusData.job_status !== 'ingesting') {
+          // Tasks arrive in bulk once ingestion commits, without individual events
+          loadSnapshot().catch((err) => console.error('Error loading tasks:', err));
+        } else if (isSettled(statusData)) {
+          stopUpdates();
+        }
+      });
+
+      stream.addEventListener('tasks', (event) => {
+        setChangedTasks(JSON.parse((event as MessageEvent).data));
+      });
+
+      stream.onerror = fallBackToPolling;
+    };
+
+    openStream();
+  }, [jobId, shareToken, loadSnapshot, stopUpdates]);
+
+  useEffect(() => {
+    setChangedTasks([]);
+    if (jobId) {
+      startUpdates();
+    }
+    return () => {
+      stopUpdates();
+    };
+  }, [jobId, startUpdates, stopUpdates]);
+
+  return { jobStatus, changedTasks, refreshKey, connection, error, setJobStatus, startUpdates };
+};
@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback } from 'react';
+import { View } from '../App';
+
+export interface Route {
+  view: View;
+  jobId: string | null;
+  // From a read-only share link, `/jobs/:id?share=<token>`
+  shareToken: string | null;
+}
+
+// `/jobs/:id` opens a job's dashboard, so it can be bookmarked and shared
+export const parseRoute = (pathname: string, search = ''): Route => {
+  const jobMatch = pathname.match(/^\/jobs\/([^/]+)\/?$/);
+  if (jobMatch) {
+    const shareToken = new URLSearchParams(search).get('share');
+    return { view: 'dashboard', jobId: decodeURIComponent(jobMatch[1]), shareToken };
+  }
+  if (/^\/jobs\/?$/.test(pathname)) return { view: 'jobs', jobId: null, shareToken: null };
+  if (/^\/upload\/?$/.test(pathname)) return { view: 'upload', jobId: null, shareToken: null };
+  if (/^\/schedules\/?$/.test(pathname)) return { view: 'schedules', jobId: null, shareToken: null };
+  return { view: 'home', jobId: null, shareToken: null };
+};
+
+export const routePath = (view: View, jobId: string | null): string => {
+  switch (view) {
+    case 'upload':
+      return '/upload';
+    case 'jobs':
+      return '/jobs';
+    case 'schedules':
+      return '/schedules';
+    case 'dashboard':
+      return jobId ? `/jobs/${encodeURIComponent(jobId)}` : '/jobs';
+    case 'home':
+    default:
+      return '/';
+  }
+};
+
+/**
+ * Keeps the active view in the address bar with the History API, and follows
+ * the back and forward buttons.
+ */
+export const useRoute = () => {
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.pathname, window.location.search));
+
+  useEffect(() => {
+    const handlePopState = () => setRoute(parseRoute(window.location.pathname, window.location.search));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = useCallback((view: View, jobId: string | null = null) => {
+    const path = routePath(view, jobId);
+    if (path !== window.location.pathname || window.location.search) {
+      window.history.pushState(null, '', path);
+    }
+    setRoute(parseRoute(path));
+    window.scrollTo(0, 0);
+  }, []);
+
+  return { ...route, navigate };
+};
@@ -0,0 +1,96 @@
+import { useState, useRef, useCallback } from 'react';
+import { UnsignedTransaction } from '../types';
+import { getUnsignedTransactions, releaseBatches } from '../services/apiService';
+import { useTransactionSigner } from './useTransactionSigner';
+
+export type SigningSessionStatus = 'idle' | 'running' | 'paused' | 'completed' | 'error';
+
+interface SigningRound {
+  transactions: UnsignedTransaction[];
+  remaining?: number;
+}
+
+// Keeps fetching, signing and submitting rounds of transactions until the job has nothing left to sign
+export const useSigningSession = () => {
+  const { signAndSubmit } = useTransactionSigner();
+  const [status, setStatus] = useState<SigningSessionStatus>('idle');
+  const [message, setMessage] = useState('');
+  const [submitted, setSubmitted] = useState(0);
+  const [total, setTotal] = useState(0);
+
+  const pauseRequested = useRef(false);
+  const activeJobId = useRef<string | null>(null);
+  const submittedRef = useRef(0);
+
+  const run = useCallback(
+    async (jobId: string, firstRound?: SigningRound): Promise<SigningSessionStatus> => {
+      if (activeJobId.current !== jobId) {
+        activeJobId.current = jobId;
+        submittedRef.current = 0;
+        setSubmitted(0);
+      }
+      pauseRequested.current = false;
+      setStatus('running');
+
+      let nextRound = firstRound;
+      try {
+        while (true) {
+          if (pauseRequested.current) {
+            setStatus('paused');
+            setMessage('Paused. Resume to keep signing.');
+            return 'paused';
+          }
+
+          let round = nextRound;
+          nextRound = undefined;
+          if (!round) {
+            setMessage('Preparing transactions...');
+            round = await getUnsignedTransactions(jobId);
+          }
+
+          if (round.transactions.length === 0) {
+            setStatus('completed');
+            setMessage('All transactions signed and queued for sending.');
+            return 'completed';
+          }
+
+          const roundTasks = round.transactions.reduce((sum, tx) => sum + tx.task_ids.length, 0);
+          setTotal(submittedRef.current + roundTasks + (round.remaining ?? 0));
+
+          try {
+            await signAndSubmit(jobId, round.transactions, setMessage);
+          } catch (err) {
+            // Hand unsigned batches back so the next round can pick them up straight away
+            await releaseBatches(jobId, round.transactions.map((tx) => tx.batch_id)).catch(() => undefined);
+            throw err;
+          }
+
+          submittedRef.current += roundTasks;
+          setSubmitted(submittedRef.current);
+        }
+      } catch (err: any) {
+        console.error('Signing session error:', err);
+        setStatus('error');
+        setMessage(err.message || 'Signing failed. Resume to try again.');
+        return 'error';
+      }
+    },
+    [signAndSubmit]
+  );
+
+  // Takes effect once the round in the wallet has been submitted
+  const pause = useCallback(() => {
+    pauseRequested.current = true;
+    setMessage('Pausing after this round...');
+  }, []);
+
+  const resume = useCallback(() => {
+    if (activeJobId.current) {
+      return run(activeJobId.current);
+    }
+  }, [run]);
+
+  return { status, message, submitted, total, run, pause, resume };
+};
+
+export type SigningSession = ReturnType<typeof useSigningSession>;
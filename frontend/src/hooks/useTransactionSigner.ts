@@ -0,0 +1,35 @@
+import { useCallback } from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { VersionedTransaction } from '@solana/web3.js';
+import { UnsignedTransaction } from '../types';
+import { submitSignedTransactions } from '../services/apiService';
+
+// Shared wallet loop: sign a round of unsigned transactions and queue them for sending by batch
+export const useTransactionSigner = () => {
+  const { signAllTransactions } = useWallet();
+
+  const signAndSubmit = useCallback(
+    async (jobId: string, transactions: UnsignedTransaction[], onProgress?: (message: string) => void) => {
+      if (!signAllTransactions) {
+        throw new Error('Your wallet does not support signing multiple transactions.');
+      }
+
+      onProgress?.(`Please sign ${transactions.length} transactions in your wallet...`);
+      const unsignedTxs = transactions.map((item) =>
+        VersionedTransaction.deserialize(Buffer.from(item.transaction, 'base64'))
+      );
+      const signedTxs = await signAllTransactions(unsignedTxs);
+
+      onProgress?.('Queueing transactions...');
+      const signedTransactionsData = signedTxs.map((tx, index) => ({
+        batch_id: transactions[index].batch_id,
+        transaction: Buffer.from(tx.serialize()).toString('base64'),
+      }));
+
+      return submitSignedTransactions(jobId, signedTransactionsData);
+    },
+    [signAllTransactions]
+  );
+
+  return { signAndSubmit, canSign: !!signAllTransactions };
+};
@@ -1,35 +1,119 @@
 // src/services/apiService.ts
-import { JobStatus, Task } from '../types';
+import { DelegateStep, DeliveryProvider, DryRunReport, JobControlResult, JobListPage, JobStatus, ModeProfile, Schedule, ScheduleChanges, Session, ShareLink, ValidationReport, LookupTableStep, RetryResult, TaskEvent, TaskListQuery, TaskPage, UnsignedTransaction } from '../types';
 
 // Cast import.meta to any to avoid "Property 'env' does not exist on type 'ImportMeta'" TS error
 const API_BASE_URL =
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   (import.meta as any).env?.VITE_API_BASE_URL || 'http://localhost:4000/api';
 
-export const createJob = async (formData: FormData): Promise<any> => {
-  const response = await fetch(`${API_BASE_URL}/create-job`, {
+// Error that keeps the status and body of a failed request for callers that need more than the message
+export class ApiError extends Error {
+  status: number;
+  data: any;
+
+  constructor(message: string, status: number, data: any) {
+    super(message);
+    this.status = status;
+    this.data = data;
+  }
+}
+
+// Session token of the signed-in wallet, sent with every request
+let sessionToken: string | null = null;
+
+export const setSessionToken = (token: string | null): void => {
+  sessionToken = token;
+};
+
+const apiFetch = (url: string, init: RequestInit = {}): Promise<Response> => {
+  const headers = new Headers(init.headers);
+  if (sessionToken) headers.set('Authorization', `Bearer ${sessionToken}`);
+  return fetch(url, { ...init, headers });
+};
+
+// Adds a job share token, for read-only access without signing in
+const withShareToken = (url: string, shareToken?: string | null): string =>
+  shareToken ? `${url}${url.includes('?') ? '&' : '?'}share=${encodeURIComponent(shareToken)}` : url;
+
+export const requestSignInNonce = async (wallet: string): Promise<{ nonce: string; message: string }> => {
+  const response = await apiFetch(`${API_BASE_URL}/auth/nonce`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ wallet }),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to start sign-in');
+  }
+  return data;
+};
+
+export const createSession = async (wallet: string, nonce: string, signature: string): Promise<Session> => {
+  const response = await apiFetch(`${API_BASE_URL}/auth/session`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ wallet, nonce, signature }),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to sign in');
+  }
+  return data;
+};
+
+export const deleteSession = async (): Promise<void> => {
+  await apiFetch(`${API_BASE_URL}/auth/session`, { method: 'DELETE' });
+};
+
+export const createJob = async (formData: FormData, idempotencyKey?: string): Promise<any> => {
+  const response = await apiFetch(`${API_BASE_URL}/create-job`, {
     method: 'POST',
+    headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
     body: formData,
   });
 
   const data = await response.json();
   if (!response.ok) {
-    throw new Error(data.error || 'Failed to create job');
+    throw new ApiError(data.error || 'Failed to create job', response.status, data);
   }
   return data;
 };
 
-export const getUnsignedTransactions = async (jobId: string): Promise<any> => {
-  const response = await fetch(`${API_BASE_URL}/get-unsigned-transactions/${jobId}`);
+export const validateRecipients = async (formData: FormData): Promise<ValidationReport> => {
+  const response = await apiFetch(`${API_BASE_URL}/validate-recipients`, {
+    method: 'POST',
+    body: formData,
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to validate recipients');
+  }
+  return data;
+};
+
+export const runDryRun = async (jobId: string): Promise<DryRunReport> => {
+  const response = await apiFetch(`${API_BASE_URL}/jobs/${jobId}/dry-run`, { method: 'POST' });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to run dry run');
+  }
+  return data;
+};
+
+export const getUnsignedTransactions = async (
+  jobId: string
+): Promise<{ job_id?: string; transactions: UnsignedTransaction[]; remaining: number; message?: string }> => {
+  const response = await apiFetch(`${API_BASE_URL}/get-unsigned-transactions/${jobId}`);
   if (!response.ok) throw new Error('Failed to fetch unsigned transactions');
   return response.json();
 };
 
 export const submitSignedTransactions = async (
   jobId: string,
-  signedTransactions: Array<{ task_id: number; transaction: string }>
+  signedTransactions: Array<{ batch_id: string; transaction: string }>
 ): Promise<any> => {
-  const response = await fetch(`${API_BASE_URL}/submit-signed-transactions`, {
+  const response = await apiFetch(`${API_BASE_URL}/submit-signed-transactions`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -47,18 +131,268 @@ export const submitSignedTransactions = async (
   return data;
 };
 
-export const getJobStatus = async (jobId: string): Promise<JobStatus> => {
-  const response = await fetch(`${API_BASE_URL}/job-status/${jobId}`);
-  if (!response.ok) throw new Error('Failed to fetch job status');
-  return response.json();
+// Cancel, pause or resume a job; returns its new status
+const controlJob = async (jobId: string, action: 'cancel' | 'pause' | 'resume'): Promise<JobControlResult> => {
+  const response = await apiFetch(`${API_BASE_URL}/jobs/${jobId}/${action}`, { method: 'POST' });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Failed to ${action} job`);
+  }
+  return data;
+};
+
+export const cancelJob = (jobId: string) => controlJob(jobId, 'cancel');
+export const pauseJob = (jobId: string) => controlJob(jobId, 'pause');
+export const resumeJob = (jobId: string) => controlJob(jobId, 'resume');
+
+// Lamports as a whole-number string, or null to remove the budget
+export const setJobFeeBudget = async (
+  jobId: string,
+  feeBudgetLamports: string | null
+): Promise<{ fee_budget_lamports: string | null; fees_committed_lamports: string }> => {
+  const response = await apiFetch(`${API_BASE_URL}/jobs/${jobId}/fee-budget`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ feeBudgetLamports }),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to set the fee budget');
+  }
+  return data;
+};
+
+export const retryFailedTasks = async (jobId: string): Promise<RetryResult> => {
+  const response = await apiFetch(`${API_BASE_URL}/jobs/${jobId}/retry`, { method: 'POST' });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to retry tasks');
+  }
+  return data;
+};
+
+export const releaseBatches = async (jobId: string, batchIds: string[]): Promise<{ released: number }> => {
+  const response = await apiFetch(`${API_BASE_URL}/jobs/${jobId}/release`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ batch_ids: batchIds }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to release batches');
+  }
+  return data;
+};
+
+export const listJobs = async (distributor: string, cursor?: string | null): Promise<JobListPage> => {
+  const params = new URLSearchParams({ distributor });
+  if (cursor) params.set('cursor', cursor);
+
+  const response = await apiFetch(`${API_BASE_URL}/jobs?${params}`);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to fetch jobs');
+  }
+  return data;
+};
+
+export const listModeProfiles = async (): Promise<ModeProfile[]> => {
+  const response = await apiFetch(`${API_BASE_URL}/mode-profiles`);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to fetch mode profiles');
+  }
+  return data.profiles;
+};
+
+export const getDeliveryProviders = async (): Promise<DeliveryProvider[]> => {
+  const response = await apiFetch(`${API_BASE_URL}/delivery-providers`);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to fetch delivery providers');
+  }
+  return data.providers;
 };
 
-export const getJobTasks = async (jobId: string): Promise<{ tasks: Task[] }> => {
-  const response = await fetch(`${API_BASE_URL}/job-tasks/${jobId}`);
-  if (!response.ok) throw new Error('Failed to fetch tasks');
+export const listSchedules = async (): Promise<Schedule[]> => {
+  const response = await apiFetch(`${API_BASE_URL}/schedules`);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to fetch schedules');
+  }
+  return data.schedules;
+};
+
+// Takes the same form fields as createJob, plus scheduledAt and recurrence
+export const createSchedule = async (formData: FormData): Promise<Schedule> => {
+  const response = await apiFetch(`${API_BASE_URL}/schedules`, { method: 'POST', body: formData });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new ApiError(data.error || 'Failed to create schedule', response.status, data);
+  }
+  return data;
+};
+
+export const updateSchedule = async (scheduleId: string, changes: ScheduleChanges): Promise<Schedule> => {
+  const response = await apiFetch(`${API_BASE_URL}/schedules/${scheduleId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to update schedule');
+  }
+  return data;
+};
+
+export const deleteSchedule = async (scheduleId: string): Promise<void> => {
+  const response = await apiFetch(`${API_BASE_URL}/schedules/${scheduleId}`, { method: 'DELETE' });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to delete schedule');
+  }
+};
+
+export const getJobStatus = async (jobId: string, shareToken?: string | null): Promise<JobStatus> => {
+  const response = await apiFetch(withShareToken(`${API_BASE_URL}/job-status/${jobId}`, shareToken));
+  if (!response.ok) throw new ApiError('Failed to fetch job status', response.status, null);
   return response.json();
 };
 
+// EventSource URL for a job's progress stream. EventSource cannot send headers, so the owner's URL carries a single-use stream token instead of the session.
+export const getJobEventsUrl = async (jobId: string, shareToken?: string | null): Promise<string> => {
+  const url = `${API_BASE_URL}/jobs/${jobId}/events`;
+  if (shareToken || !sessionToken) return withShareToken(url, shareToken);
+
+  const response = await apiFetch(`${API_BASE_URL}/jobs/${jobId}/stream-token`, { method: 'POST' });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to open job stream');
+  }
+  return `${url}?stream_token=${encodeURIComponent(data.stream_token)}`;
+};
+
+export const getJobTasks = async (
+  jobId: string,
+  listQuery: TaskListQuery = {},
+  shareToken?: string | null
+): Promise<TaskPage> => {
+  const params = new URLSearchParams();
+  if (listQuery.status && listQuery.status.length > 0) params.set('status', listQuery.status.join(','));
+  if (listQuery.recipient) params.set('recipient', listQuery.recipient);
+  if (listQuery.signature) params.set('signature', listQuery.signature);
+  if (listQuery.sort) params.set('sort', listQuery.sort);
+  if (listQuery.order) params.set('order', listQuery.order);
+  if (listQuery.limit) params.set('limit', String(listQuery.limit));
+  if (listQuery.cursor) params.set('cursor', listQuery.cursor);
+  if (shareToken) params.set('share', shareToken);
+
+  const response = await apiFetch(`${API_BASE_URL}/job-tasks/${jobId}?${params}`);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to fetch tasks');
+  }
+  return data;
+};
+
+export const getTaskHistory = async (jobId: string, taskId: number, shareToken?: string | null): Promise<TaskEvent[]> => {
+  const response = await apiFetch(withShareToken(`${API_BASE_URL}/jobs/${jobId}/tasks/${taskId}/history`, shareToken));
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to fetch task history');
+  }
+  return data.events;
+};
+
+export const createShareLink = async (jobId: string): Promise<ShareLink> => {
+  const response = await apiFetch(`${API_BASE_URL}/jobs/${jobId}/share`, { method: 'POST' });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to create share link');
+  }
+  return data;
+};
+
+export const getLookupTableTransactions = async (jobId: string): Promise<LookupTableStep> => {
+  const response = await apiFetch(`${API_BASE_URL}/jobs/${jobId}/lookup-table`);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to fetch lookup table transactions');
+  }
+  return data;
+};
+
+export const submitLookupTableTransactions = async (
+  jobId: string,
+  signedTransactions: string[]
+): Promise<any> => {
+  const response = await apiFetch(`${API_BASE_URL}/jobs/${jobId}/lookup-table`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ signed_transactions: signedTransactions }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to submit lookup table transactions');
+  }
+  return data;
+};
+
+export const getDelegateStep = async (jobId: string): Promise<DelegateStep> => {
+  const response = await apiFetch(`${API_BASE_URL}/jobs/${jobId}/delegate`);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to fetch delegate transaction');
+  }
+  return data;
+};
+
+export const submitDelegateTransaction = async (
+  jobId: string,
+  signedTransaction: string
+): Promise<{ signature: string; delegate_status: DelegateStep['delegate_status'] }> => {
+  const response = await apiFetch(`${API_BASE_URL}/jobs/${jobId}/delegate`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ signed_transaction: signedTransaction }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to submit delegate transaction');
+  }
+  return data;
+};
+
+// Fetches the report with the session header, then saves it through a temporary link
+export const downloadJobReport = async (
+  jobId: string,
+  format: 'csv' | 'json',
+  shareToken?: string | null
+): Promise<void> => {
+  const response = await apiFetch(withShareToken(`${API_BASE_URL}/jobs/${jobId}/report?format=${format}`, shareToken));
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to download report');
+  }
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `conductor-report-${jobId}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
 export const downloadTemplate = (): void => {
   window.open(`${API_BASE_URL}/csv-template`, '_blank');
 };
\ No newline at end of file
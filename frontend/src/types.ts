@@ -1,25 +1,313 @@
+export interface JobFunding {
+  funding_status?: 'funded' | 'underfunded' | null;
+  funded: boolean;
+  token: {
+    required: string;
+    balance: string;
+    shortfall: string;
+  };
+  sol: {
+    required_lamports: string;
+    balance_lamports: string;
+    shortfall_lamports: string;
+  };
+}
+
 export interface JobStatus {
   job_id: string;
-  job_status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  job_status: 'ingesting' | 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
   total: number;
+  expected_tasks?: number | null;
+  ingested_tasks?: number | null;
   success: number;
   failed: number;
   pending: number;
+  signing: number;
+  queued: number;
   processing: number;
+  sent: number;
+  confirmed: number;
+  finalized: number;
+  expired: number;
+  cancelled: number;
   token_mint: string;
   token_decimals: number;
+  token_program_id?: string | null;
+  token_extensions?: string[] | null;
+  transfer_fee_mode?: 'gross' | 'net' | null;
   distributor_address?: string;
+  lookup_table_address?: string | null;
+  lookup_table_status?: 'pending' | 'active' | 'deactivating' | 'closed' | null;
+  signing_mode?: 'wallet' | 'delegate';
+  delegate_address?: string | null;
+  delegate_approved_amount?: string | null;
+  delegate_status?: DelegateStatus | null;
+  delivery_provider?: DeliveryProviderName;
   mode: string;
+  mode_profile?: ModeProfile;
+  fee_budget_lamports?: string | null;
+  fees_committed_lamports?: string;
   error_message?: string;
   created_at?: string;
+  funding?: JobFunding | null;
+  access?: 'owner' | 'shared';
 }
 
 export interface Task {
   task_id: number;
+  batch_id?: string | null;
   recipient_address: string;
   amount: string;
-  status: 'pending' | 'processing' | 'success' | 'failed';
+  memo?: string | null;
+  status: 'pending' | 'signing' | 'queued' | 'processing' | 'sent' | 'confirmed' | 'finalized' | 'success' | 'failed' | 'expired' | 'cancelled';
   tx_signature: string | null;
   retry_count?: number;
   error_message?: string;
+  confirmed_slot?: string | null;
+  confirmed_at?: string | null;
+  updated_at?: string;
+}
+
+// One status change in a task's history
+export interface TaskEvent {
+  event_id: string;
+  previous_status: Task['status'] | null;
+  status: Task['status'];
+  error_message: string | null;
+  tx_signature: string | null;
+  // Who made the change: `wallet:<address>`, or a server component such as `submitter` or `tracker`
+  actor: string;
+  created_at: string;
+}
+
+export interface TaskPage {
+  job_id: string;
+  tasks: Task[];
+  next_cursor: string | null;
+  total: number;
+}
+
+export interface TaskListQuery {
+  status?: Task['status'][];
+  recipient?: string;
+  signature?: string;
+  sort?: 'task_id' | 'amount' | 'updated_at';
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string | null;
+}
+
+export interface Session {
+  token: string;
+  wallet: string;
+  expires_at: string;
+}
+
+export interface ShareLink {
+  job_id: string;
+  share_token: string;
+  expires_at: string | null;
+}
+
+export interface JobControlResult {
+  job_id: string;
+  job_status: JobStatus['job_status'];
+  cancelled_tasks?: number;
+}
+
+export interface JobSummary {
+  job_id: string;
+  status: JobStatus['job_status'];
+  mode: string;
+  signing_mode: 'wallet' | 'delegate';
+  token_mint_address: string;
+  token_decimals: number;
+  total_amount: string | null;
+  expected_tasks: number | null;
+  error_message: string | null;
+  // Set on jobs created by a schedule
+  schedule_id: string | null;
+  scheduled_at: string | null;
+  created_at: string;
+  total_tasks: number;
+  successful_tasks: number;
+  failed_tasks: number;
+}
+
+export type Recurrence = 'daily' | 'weekly' | 'biweekly' | 'monthly';
+
+export interface ScheduleRun {
+  job_id: string;
+  status: JobStatus['job_status'];
+  scheduled_at: string | null;
+  created_at: string;
+}
+
+export interface Schedule {
+  schedule_id: string;
+  name: string | null;
+  distributor_address: string;
+  token_mint_address: string;
+  token_decimals: number;
+  mode: string;
+  signing_mode: 'wallet' | 'delegate';
+  transfer_fee_mode: 'gross' | 'net';
+  recurrence: Recurrence | null;
+  status: 'active' | 'paused' | 'completed';
+  first_run_at: string;
+  next_run_at: string | null;
+  run_count: number;
+  notify_url: string | null;
+  last_job_id: string | null;
+  last_run_at: string | null;
+  last_error: string | null;
+  recipient_count: number;
+  total_amount: string;
+  created_at: string;
+  updated_at: string;
+  runs?: ScheduleRun[];
+}
+
+export interface ScheduleChanges {
+  name?: string;
+  scheduledAt?: string;
+  recurrence?: Recurrence | 'none';
+  mode?: Schedule['mode'];
+  signingMode?: Schedule['signing_mode'];
+  notifyUrl?: string;
+  status?: 'active' | 'paused';
+}
+
+export interface JobListPage {
+  jobs: JobSummary[];
+  next_cursor: string | null;
+}
+
+export interface UnsignedTransaction {
+  batch_id: string;
+  task_ids: number[];
+  recipients: string[];
+  amount: string;
+  transaction: string;
+}
+
+export interface ModeProfile {
+  name: string;
+  built_in: boolean;
+  cu_price_strategy: 'fixed' | 'percentile' | 'capped';
+  cu_price_micro_lamports: number | null;
+  cu_price_percentile: number | null;
+  compute_unit_limit: number;
+  jito_tip_range: 'low' | 'medium' | 'high' | 'max' | null;
+  delivery_method: 'rpc' | 'sanctum-sender' | 'helius-sender' | 'jito';
+}
+
+export type DeliveryProviderName = 'sanctum' | 'rpc' | 'jito' | 'mock';
+
+export interface DeliveryProvider {
+  name: DeliveryProviderName;
+  label: string;
+  configured: boolean;
+  default: boolean;
+}
+
+export type DelegateStatus = 'created' | 'approved' | 'revoke_pending' | 'revoked';
+
+export interface DelegateStep {
+  job_id: string;
+  delegate_address: string;
+  delegate_status: DelegateStatus;
+  approved_amount: string;
+  funding_lamports: string;
+  step: 'approve' | 'revoke' | null;
+  transaction: string | null;
+}
+
+export interface DuplicateRecipient {
+  address: string;
+  occurrences: number;
+  total_amount: string;
+}
+
+export interface DuplicateReport {
+  mode: 'merge' | 'reject' | 'keep';
+  count: number;
+  rows_in_file: number;
+  recipients: DuplicateRecipient[];
+}
+
+export interface RejectedRow {
+  line: number;
+  address: string;
+  amount: string;
+  code: string;
+  reason: string;
+}
+
+export interface ValidationWarning {
+  line: number;
+  address: string;
+  amount: string;
+  code: 'precision_loss' | 'off_curve_address';
+  message: string;
+}
+
+export interface ValidationReport {
+  total_rows: number;
+  valid_rows: number;
+  rejected_rows: number;
+  rejected: RejectedRow[];
+  warnings: ValidationWarning[];
+}
+
+export interface RetryResult {
+  job_id: string;
+  reset: number;
+  exhausted: number;
+  transactions: UnsignedTransaction[];
+  remaining: number;
+}
+
+export interface LookupTableStep {
+  job_id: string;
+  lookup_table_address: string | null;
+  lookup_table_status: JobStatus['lookup_table_status'];
+  action: 'create' | 'extend' | 'deactivate' | 'close' | null;
+  transactions: string[];
+  message?: string;
+}
+
+export interface DryRunTask {
+  task_id: number;
+  recipient_address: string;
+  amount: string;
+  transaction_index: number;
+  compute_units: number | null;
+  success: boolean;
+  error_code: string | null;
+  error: string | null;
+}
+
+export interface DryRunReport {
+  job_id: string;
+  summary?: {
+    transactions: number;
+    tasks: number;
+    pending_tasks: number;
+    sampled: boolean;
+    failed_transactions: number;
+    failed_tasks: number;
+    compute_units: number;
+    estimated_cost: {
+      accounts_to_create: number;
+      base_fees: string;
+      priority_fees: string;
+      ata_rent: string;
+      lookup_table_rent: string;
+      total_lamports: string;
+      total_sol: number;
+    };
+  };
+  tasks: DryRunTask[];
+  message?: string;
 }
\ No newline at end of file
@@ -0,0 +1,101 @@
+/*
+ * =============================================================================
+ * Distributor Funding Checks
+ * =============================================================================
+ * Compares what a distribution needs (tokens, ATA rent and fees) with the
+ * distributor's token and SOL balances.
+ * =============================================================================
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import { getAssociatedTokenAddressSync, getAccount, TokenAccountNotFoundError } from '@solana/spl-token';
+import { calculateTransfer } from './tokens.js';
+import { fetchExistingAccounts, estimateTransferFees } from './transactions.js';
+
+/**
+ * Fetches the distributor's token balance (zero if its ATA does not exist
+ * yet) and SOL balance, both in base units.
+ */
+export async function fetchDistributorBalances(connection, distributorPubkey, mintPubkey, programId) {
+  const distributorTokenAccount = getAssociatedTokenAddressSync(mintPubkey, distributorPubkey, false, programId);
+
+  let tokenBalance = BigInt(0);
+  try {
+    const account = await getAccount(connection, distributorTokenAccount, 'confirmed', programId);
+    tokenBalance = account.amount;
+  } catch (err) {
+    if (!(err instanceof TokenAccountNotFoundError)) {
+      throw err;
+    }
+  }
+
+  const solBalance = BigInt(await connection.getBalance(distributorPubkey, 'confirmed'));
+  return { tokenBalance, solBalance };
+}
+
+/**
+ * Works out what sending to the given recipients will take: tokens including
+ * any transfer fees the distributor covers, plus SOL for ATA rent and fees
+ * at the given `computeUnitPrice`. Recipients come as an async iterable of
+ * arrays ordered by address, so a repeated recipient follows itself and only
+ * one chunk is held at a time.
+ */
+export async function calculateRequirement(connection, mintInfo, recipientChunks, { epoch, feeMode, computeUnitPrice }) {
+  let tokens = BigInt(0);
+  let transfers = 0;
+  let accountsToCreate = 0;
+  let previousAddress = null;
+
+  for await (const recipients of recipientChunks) {
+    const recipientTokenAccounts = [];
+    for (const recipient of recipients) {
+      tokens += calculateTransfer(mintInfo, BigInt(recipient.amount), epoch, feeMode).transferAmount;
+      transfers++;
+      if (recipient.address === previousAddress) continue;
+      previousAddress = recipient.address;
+      recipientTokenAccounts.push(
+        getAssociatedTokenAddressSync(mintInfo.address, new PublicKey(recipient.address), true, mintInfo.programId)
+      );
+    }
+
+    const existingAccounts = await fetchExistingAccounts(connection, recipientTokenAccounts);
+    accountsToCreate += recipientTokenAccounts.length - existingAccounts.size;
+  }
+
+  const rentPerAccount = BigInt(await connection.getMinimumBalanceForRentExemption(mintInfo.accountSize));
+  const ataRent = rentPerAccount * BigInt(accountsToCreate);
+  const { baseFee, priorityFee } = estimateTransferFees(transfers, accountsToCreate, computeUnitPrice);
+
+  return {
+    tokens,
+    lamports: ataRent + baseFee + priorityFee,
+    ataRent,
+    fees: baseFee + priorityFee,
+    accountsToCreate,
+  };
+}
+
+const shortfall = (required, balance) => (required > balance ? required - balance : BigInt(0));
+
+// Side-by-side breakdown of requirement and balances, as strings for JSON
+export function summarizeFunding(requirement, balances) {
+  const tokenShortfall = shortfall(requirement.tokens, balances.tokenBalance);
+  const solShortfall = shortfall(requirement.lamports, balances.solBalance);
+
+  return {
+    funded: tokenShortfall === BigInt(0) && solShortfall === BigInt(0),
+    token: {
+      required: requirement.tokens.toString(),
+      balance: balances.tokenBalance.toString(),
+      shortfall: tokenShortfall.toString(),
+    },
+    sol: {
+      required_lamports: requirement.lamports.toString(),
+      balance_lamports: balances.solBalance.toString(),
+      shortfall_lamports: solShortfall.toString(),
+      ata_rent_lamports: requirement.ataRent?.toString(),
+      estimated_fee_lamports: requirement.fees?.toString(),
+      accounts_to_create: requirement.accountsToCreate,
+    },
+  };
+}
@@ -0,0 +1,225 @@
+/*
+ * =============================================================================
+ * Task Ingestion
+ * =============================================================================
+ * Loads a new job's recipients into the tasks table. The recipient list is
+ * streamed into a temporary staging table one chunk at a time, so neither the
+ * upload nor its rows are ever held in memory whole; duplicates, totals and
+ * the content hash are worked out there. Once the job row exists, the staged
+ * rows move into tasks as multi-row inserts after the request has returned,
+ * and the job reports how many are in while it sits in the `ingesting` state.
+ * =============================================================================
+ */
+
+import { query, getClient } from './db.js';
+import { publishJobChange } from './events.js';
+import { readRecipientChunks, validateRecipientRows } from './recipients.js';
+
+// Rows per INSERT; each chunk is a single statement with array parameters
+const INGEST_CHUNK_SIZE = 2000;
+
+/**
+ * Opens a transaction holding an empty staging table for one recipient list.
+ * The table lives until the transaction ends; hand the client to
+ * ingestJobTasks or close it with closeRecipientStaging.
+ */
+export async function openRecipientStaging() {
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+    await client.query(
+      `CREATE TEMP TABLE staged_recipients (
+         position SERIAL PRIMARY KEY,
+         line INTEGER,
+         recipient_address TEXT NOT NULL,
+         amount TEXT NOT NULL,
+         memo TEXT
+       ) ON COMMIT DROP;
+       CREATE INDEX ON staged_recipients (recipient_address, position);`
+    );
+    return client;
+  } catch (err) {
+    client.release();
+    throw err;
+  }
+}
+
+// Discards a staged list that did not become a job
+export async function closeRecipientStaging(client) {
+  try {
+    await client.query('ROLLBACK');
+  } finally {
+    client.release();
+  }
+}
+
+async function insertStagedChunk(client, recipients) {
+  await client.query(
+    `INSERT INTO staged_recipients (line, recipient_address, amount, memo)
+     SELECT r.line, r.recipient_address, r.amount, r.memo
+     FROM UNNEST($1::integer[], $2::text[], $3::text[], $4::text[]) WITH ORDINALITY AS r(line, recipient_address, amount, memo, ord)
+     ORDER BY r.ord`,
+    [
+      recipients.map((recipient) => recipient.line ?? null),
+      recipients.map((recipient) => recipient.address),
+      recipients.map((recipient) => recipient.amount),
+      recipients.map((recipient) => recipient.memo ?? null),
+    ]
+  );
+}
+
+/**
+ * Streams an uploaded list into staging, validating it chunk by chunk. Only
+ * rejected rows and warnings are kept; returns them with the valid row count.
+ */
+export async function stageRecipientFile(client, source, readOptions, decimals) {
+  const summary = { validRows: 0, rejected: [], warnings: [] };
+  for await (const rows of readRecipientChunks(source, readOptions, INGEST_CHUNK_SIZE)) {
+    const validation = validateRecipientRows(rows, decimals);
+    summary.validRows += validation.recipients.length;
+    summary.rejected.push(...validation.rejected);
+    summary.warnings.push(...validation.warnings);
+    if (validation.recipients.length > 0) {
+      await insertStagedChunk(client, validation.recipients);
+    }
+  }
+  return summary;
+}
+
+// Stages a schedule's saved recipients, which were checked when it was saved; returns how many
+export async function stageScheduleRecipients(client, scheduleId) {
+  const result = await client.query(
+    `INSERT INTO staged_recipients (line, recipient_address, amount, memo)
+     SELECT position, recipient_address, amount, memo FROM schedule_recipients
+     WHERE schedule_id = $1 ORDER BY position`,
+    [scheduleId]
+  );
+  return result.rowCount;
+}
+
+/**
+ * Applies the duplicate policy to the staged list, as applyDuplicatePolicy
+ * does in memory: `merge` sums a repeated address into its first row, joining
+ * distinct memos in the order they appear. Returns every address that
+ * appeared more than once.
+ */
+export async function applyStagedDuplicatePolicy(client, mode) {
+  const result = await client.query(
+    `SELECT recipient_address AS address, COUNT(*)::integer AS occurrences, SUM(amount::numeric)::text AS total_amount
+     FROM staged_recipients GROUP BY recipient_address HAVING COUNT(*) > 1
+     ORDER BY MIN(position)`
+  );
+  const duplicates = result.rows;
+
+  if (mode === 'merge' && duplicates.length > 0) {
+    await client.query(
+      `WITH merged AS (
+         SELECT s.recipient_address, MIN(s.position) AS position, SUM(s.amount::numeric)::text AS amount,
+                (SELECT string_agg(memos.memo, '; ' ORDER BY memos.first_position)
+                 FROM (SELECT m.memo, MIN(m.position) AS first_position FROM staged_recipients m
+                       WHERE m.recipient_address = s.recipient_address AND m.memo IS NOT NULL
+                       GROUP BY m.memo) memos) AS memo
+         FROM staged_recipients s GROUP BY s.recipient_address HAVING COUNT(*) > 1
+       ), removed AS (
+         DELETE FROM staged_recipients s USING merged
+         WHERE s.recipient_address = merged.recipient_address AND s.position <> merged.position
+       )
+       UPDATE staged_recipients s SET amount = merged.amount, memo = merged.memo
+       FROM merged WHERE s.position = merged.position`
+    );
+  }
+  return duplicates;
+}
+
+export async function countStagedRecipients(client) {
+  const result = await client.query('SELECT COUNT(*)::integer AS count FROM staged_recipients');
+  return result.rows[0].count;
+}
+
+// Staged recipients in arrays, ordered by address so a repeated recipient follows itself
+export async function* stagedRecipientChunks(client) {
+  let after = ['', 0];
+  for (;;) {
+    const result = await client.query(
+      `SELECT position, recipient_address AS address, amount, memo FROM staged_recipients
+       WHERE (recipient_address, position) > ($1, $2)
+       ORDER BY recipient_address, position LIMIT $3`,
+      [...after, INGEST_CHUNK_SIZE]
+    );
+    if (result.rows.length === 0) return;
+    yield result.rows;
+    const last = result.rows[result.rows.length - 1];
+    after = [last.address, last.position];
+  }
+}
+
+// Order-independent fingerprint of who gets what, so a re-exported file with the same payouts still matches
+export async function hashStagedRecipients(client) {
+  const result = await client.query(
+    `SELECT encode(sha256(convert_to(COALESCE(string_agg(entry, E'\\n' ORDER BY entry COLLATE "C"), ''), 'UTF8')), 'hex') AS hash
+     FROM (SELECT recipient_address || ':' || amount AS entry FROM staged_recipients) entries`
+  );
+  return result.rows[0].hash;
+}
+
+/**
+ * Moves a staged list into a job's tasks, in the staging transaction so a
+ * failed load leaves no partial job behind, and moves the job from
+ * `ingesting` to `pending` once committed. Takes over the staging client and
+ * releases it. Progress is written to the job row outside the transaction so
+ * job-status can show it.
+ */
+export async function ingestJobTasks(jobId, client) {
+  try {
+    let ingested = 0;
+    let lastPosition = 0;
+    for (;;) {
+      const result = await client.query(
+        `WITH chunk AS (
+           SELECT position, recipient_address, amount, memo FROM staged_recipients
+           WHERE position > $2 ORDER BY position LIMIT $3
+         ), inserted AS (
+           INSERT INTO tasks (job_id, recipient_address, amount, memo, status, retry_count, status_actor)
+           SELECT $1, recipient_address, amount, memo, 'pending', 0, 'ingestion' FROM chunk ORDER BY position
+         )
+         SELECT COUNT(*)::integer AS count, MAX(position) AS last_position FROM chunk`,
+        [jobId, lastPosition, INGEST_CHUNK_SIZE]
+      );
+      const { count, last_position } = result.rows[0];
+      if (count === 0) break;
+
+      ingested += count;
+      lastPosition = last_position;
+      await query('UPDATE jobs SET ingested_tasks = $1, updated_at = NOW() WHERE job_id = $2', [ingested, jobId]);
+      publishJobChange(jobId);
+    }
+    await client.query(
+      'UPDATE jobs SET status = $1, ingested_tasks = $2, updated_at = NOW() WHERE job_id = $3 AND status = $4',
+      ['pending', ingested, jobId, 'ingesting']
+    );
+    await client.query('COMMIT');
+    publishJobChange(jobId);
+    console.log(`[Job ${jobId}]: Ingested ${ingested} tasks`);
+  } catch (err) {
+    await client.query('ROLLBACK').catch((rollbackErr) => console.error('Error rolling back ingestion:', rollbackErr.message));
+    console.error(`[Job ${jobId}]: Ingestion failed:`, err.message);
+    await query('UPDATE jobs SET status = $1, error_message = $2, updated_at = NOW() WHERE job_id = $3', [
+      'failed',
+      `Ingestion failed: ${err.message}`.substring(0, 500),
+      jobId,
+    ]);
+    publishJobChange(jobId);
+  } finally {
+    client.release();
+  }
+}
+
+// Jobs whose ingestion died with a previous process have no tasks to resume from
+export async function failInterruptedIngestions() {
+  const result = await query(
+    `UPDATE jobs SET status = $1, error_message = $2, updated_at = NOW()
+     WHERE status = $3 RETURNING job_id`,
+    ['failed', 'Server restarted while the recipient list was being ingested; upload it again.', 'ingesting']
+  );
+  result.rows.forEach((row) => console.log(`[Job ${row.job_id}]: Ingestion interrupted by restart`));
+}
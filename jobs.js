@@ -0,0 +1,242 @@
+/*
+ * =============================================================================
+ * Jobs
+ * =============================================================================
+ * A distributor's past and current jobs, newest first, with task totals for
+ * the jobs view. Pages are keyed on (created_at, job_id) like the task list.
+ * Also the operator's controls over a job: cancel, pause and resume, and the
+ * SOL fee budget that pauses a job before it would be overspent.
+ * =============================================================================
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import { query, getClient } from './db.js';
+import { publishJobChange } from './events.js';
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+export const JOB_STATUSES = ['ingesting', 'pending', 'running', 'paused', 'completed', 'failed', 'cancelled'];
+
+const CANCELLABLE_STATUSES = ['pending', 'running', 'paused'];
+const PAUSABLE_STATUSES = ['pending', 'running'];
+
+/**
+ * Reads list options from a request's query string: `distributor` (required),
+ * `status` (comma-separated), `limit` and `cursor`. Throws on invalid values.
+ */
+export function parseJobListOptions(params) {
+  if (!params.distributor) {
+    throw new Error('distributor is required.');
+  }
+  try {
+    new PublicKey(params.distributor);
+  } catch {
+    throw new Error('Invalid distributor address.');
+  }
+
+  const statuses = params.status ? String(params.status).split(',').map((status) => status.trim()) : [];
+  const unknownStatus = statuses.find((status) => !JOB_STATUSES.includes(status));
+  if (unknownStatus) {
+    throw new Error(`Unknown status "${unknownStatus}".`);
+  }
+
+  const limit = params.limit === undefined ? DEFAULT_PAGE_SIZE : parseInt(params.limit, 10);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new Error(`Limit must be between 1 and ${MAX_PAGE_SIZE}.`);
+  }
+
+  let cursor = null;
+  if (params.cursor) {
+    try {
+      const [createdAt, jobId] = JSON.parse(Buffer.from(String(params.cursor), 'base64url').toString('utf8'));
+      cursor = { createdAt: String(createdAt), jobId: String(jobId) };
+    } catch {
+      throw new Error('Invalid cursor.');
+    }
+  }
+
+  return { distributor: String(params.distributor), statuses, limit, cursor };
+}
+
+// One page of jobs with their task counts, plus the cursor of the next page
+export async function listJobs(options) {
+  const conditions = ['j.distributor_address = $1'];
+  const params = [options.distributor];
+
+  if (options.statuses.length > 0) {
+    params.push(options.statuses);
+    conditions.push(`j.status = ANY($${params.length})`);
+  }
+  if (options.cursor) {
+    params.push(options.cursor.createdAt, options.cursor.jobId);
+    conditions.push(`(j.created_at, j.job_id) < ($${params.length - 1}::timestamp, $${params.length}::uuid)`);
+  }
+
+  params.push(options.limit + 1);
+  const jobsResult = await query(
+    `SELECT j.job_id, j.status, j.mode, j.signing_mode, j.token_mint_address, j.token_decimals, j.total_amount,
+            j.expected_tasks, j.error_message, j.schedule_id, j.scheduled_at, j.created_at,
+            j.created_at::text AS cursor_created_at,
+            COUNT(t.task_id) AS total_tasks,
+            COUNT(t.task_id) FILTER (WHERE t.status IN ('confirmed', 'finalized', 'success')) AS successful_tasks,
+            COUNT(t.task_id) FILTER (WHERE t.status IN ('failed', 'expired')) AS failed_tasks
+     FROM jobs j LEFT JOIN tasks t ON t.job_id = j.job_id
+     WHERE ${conditions.join(' AND ')}
+     GROUP BY j.job_id
+     ORDER BY j.created_at DESC, j.job_id DESC
+     LIMIT $${params.length}`,
+    params
+  );
+
+  const rows = jobsResult.rows.slice(0, options.limit);
+  const last = rows[rows.length - 1];
+  const nextCursor =
+    jobsResult.rows.length > options.limit
+      ? Buffer.from(JSON.stringify([last.cursor_created_at, last.job_id])).toString('base64url')
+      : null;
+
+  return {
+    jobs: rows.map(({ cursor_created_at, ...job }) => ({
+      ...job,
+      // Ingesting jobs have no committed tasks yet, so report what is on the way
+      total_tasks: job.status === 'ingesting' ? job.expected_tasks : parseInt(job.total_tasks),
+      successful_tasks: parseInt(job.successful_tasks),
+      failed_tasks: parseInt(job.failed_tasks),
+    })),
+    next_cursor: nextCursor,
+  };
+}
+
+/**
+ * Cancels a job and every task not yet handed to the network: pending tasks,
+ * claims still out for signing and signed batches waiting in the submission
+ * queue. Tasks already sent keep being tracked. `actor` is recorded in the
+ * cancelled tasks' history. Returns the job and the cancelled task ids, or
+ * null if the job is not in a state that can be cancelled.
+ */
+export async function cancelJob(jobId, actor) {
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+    const jobResult = await client.query(
+      `UPDATE jobs SET status = $1, paused_from = NULL, updated_at = NOW()
+       WHERE job_id = $2 AND status = ANY($3)
+       RETURNING *`,
+      ['cancelled', jobId, CANCELLABLE_STATUSES]
+    );
+    if (jobResult.rowCount === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const taskResult = await client.query(
+      `UPDATE tasks SET status = $1, batch_id = NULL, signing_expires_at = NULL, signed_transaction = NULL,
+              error_message = $2, status_actor = $4, updated_at = NOW()
+       WHERE job_id = $3 AND status IN ('pending', 'signing', 'queued')
+       RETURNING task_id`,
+      ['cancelled', 'Cancelled before it was sent.', jobId, actor]
+    );
+    await client.query('COMMIT');
+
+    const taskIds = taskResult.rows.map((row) => row.task_id);
+    console.log(`[Job ${jobId}]: Cancelled (${taskIds.length} unsent tasks)`);
+    publishJobChange(jobId, taskIds);
+    return { job: jobResult.rows[0], cancelledTaskIds: taskIds };
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Holds a pending or running job. Tasks keep their state; claims out for
+ * signing go back to the queue, since their submissions will be refused, and
+ * queued batches wait for the job to resume.
+ * A `reason` is shown as the job's error until it is resumed; `actor` is
+ * recorded in the history of tasks sent back. Returns the job, or null if it
+ * cannot be paused.
+ */
+export async function pauseJob(jobId, reason, actor) {
+  const jobResult = await query(
+    `UPDATE jobs SET paused_from = status, status = $1, error_message = $4, updated_at = NOW()
+     WHERE job_id = $2 AND status = ANY($3)
+     RETURNING *`,
+    ['paused', jobId, PAUSABLE_STATUSES, reason]
+  );
+  if (jobResult.rowCount === 0) return null;
+
+  const releaseResult = await query(
+    `UPDATE tasks SET status = $1, batch_id = NULL, signing_expires_at = NULL, status_actor = $4, updated_at = NOW()
+     WHERE job_id = $2 AND status = $3
+     RETURNING task_id`,
+    ['pending', jobId, 'signing', actor]
+  );
+
+  console.log(`[Job ${jobId}]: Paused${reason ? ` (${reason})` : ''}`);
+  publishJobChange(jobId, releaseResult.rows.map((row) => row.task_id));
+  return jobResult.rows[0];
+}
+
+// Puts a paused job back in the state it was paused from. Returns the job, or null if it was not paused.
+export async function resumeJob(jobId) {
+  const jobResult = await query(
+    `UPDATE jobs SET status = COALESCE(paused_from, 'pending'), paused_from = NULL, error_message = NULL,
+            updated_at = NOW()
+     WHERE job_id = $1 AND status = $2
+     RETURNING *`,
+    [jobId, 'paused']
+  );
+  if (jobResult.rowCount === 0) return null;
+
+  console.log(`[Job ${jobId}]: Resumed`);
+  publishJobChange(jobId);
+  return jobResult.rows[0];
+}
+
+// Reads a fee budget in lamports: a positive whole number, or null/empty for no budget. Throws otherwise.
+export function parseFeeBudget(value) {
+  if (value === undefined || value === null || value === '') return null;
+  if (!/^\d+$/.test(String(value)) || BigInt(value) === BigInt(0)) {
+    throw new Error('Fee budget must be a positive whole number of lamports.');
+  }
+  return BigInt(value);
+}
+
+/**
+ * Sets aside a transaction's estimated cost against the job's fee budget.
+ * Returns false, reserving nothing, when it would take the job over budget.
+ */
+export async function reserveJobFees(jobId, lamports) {
+  const result = await query(
+    `UPDATE jobs SET fees_committed_lamports = COALESCE(fees_committed_lamports, 0) + $2, updated_at = NOW()
+     WHERE job_id = $1
+       AND (fee_budget_lamports IS NULL OR COALESCE(fees_committed_lamports, 0) + $2 <= fee_budget_lamports)
+     RETURNING job_id`,
+    [jobId, lamports.toString()]
+  );
+  return result.rowCount > 0;
+}
+
+// Hands back a reservation for a transaction that failed to send
+export async function releaseJobFees(jobId, lamports) {
+  await query(
+    `UPDATE jobs SET fees_committed_lamports = GREATEST(COALESCE(fees_committed_lamports, 0) - $2, 0)
+     WHERE job_id = $1`,
+    [jobId, lamports.toString()]
+  );
+}
+
+// Replaces a job's fee budget (null removes it). Returns the job, or null if it does not exist.
+export async function setJobFeeBudget(jobId, lamports) {
+  const result = await query(
+    `UPDATE jobs SET fee_budget_lamports = $2, updated_at = NOW() WHERE job_id = $1 RETURNING *`,
+    [jobId, lamports === null ? null : lamports.toString()]
+  );
+  if (result.rowCount === 0) return null;
+
+  publishJobChange(jobId);
+  return result.rows[0];
+}
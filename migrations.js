@@ -0,0 +1,306 @@
+/*
+ * =============================================================================
+ * Schema Migrations
+ * =============================================================================
+ * Numbered migrations, applied in order at startup. `schema_migrations`
+ * records each version once it has run, so every migration runs exactly once
+ * per database, inside a transaction, and an advisory lock keeps two server
+ * processes from applying them at the same time. Schema changes go in a new
+ * migration at the end of the list; applied migrations are never edited.
+ * =============================================================================
+ */
+
+// --- Configuration ---
+// Key of the advisory lock held while migrating
+const MIGRATION_LOCK_KEY = 724501;
+
+export const MIGRATIONS = [
+  {
+    version: 1,
+    name: 'baseline',
+    // The schema databases had before migrations; IF NOT EXISTS lets those databases adopt it as is
+    statements: [
+      // Create jobs table
+      `
+      CREATE TABLE IF NOT EXISTS jobs (
+        job_id UUID PRIMARY KEY,
+        token_mint_address TEXT NOT NULL,
+        token_decimals INTEGER NOT NULL,
+        distributor_address TEXT NOT NULL,
+        mode TEXT NOT NULL,
+        status TEXT NOT NULL,
+        error_message TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+      `,
+      // Create tasks table
+      `
+      CREATE TABLE IF NOT EXISTS tasks (
+        task_id SERIAL PRIMARY KEY,
+        job_id UUID NOT NULL REFERENCES jobs(job_id) ON DELETE CASCADE,
+        recipient_address TEXT NOT NULL,
+        amount TEXT NOT NULL,
+        status TEXT NOT NULL,
+        retry_count INTEGER DEFAULT 0,
+        tx_signature TEXT,
+        error_message TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+      `,
+      // Wallet sign-in: one-time nonces and the sessions they are exchanged for
+      `
+      CREATE TABLE IF NOT EXISTS auth_nonces (
+        nonce TEXT PRIMARY KEY,
+        wallet_address TEXT NOT NULL,
+        message TEXT NOT NULL,
+        expires_at TIMESTAMP NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS sessions (
+        token_hash TEXT PRIMARY KEY,
+        wallet_address TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        expires_at TIMESTAMP NOT NULL
+      );
+      `,
+      // Read-only share links for jobs
+      `
+      CREATE TABLE IF NOT EXISTS job_shares (
+        token_hash TEXT PRIMARY KEY,
+        job_id UUID NOT NULL REFERENCES jobs(job_id) ON DELETE CASCADE,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        expires_at TIMESTAMP,
+        revoked_at TIMESTAMP
+      );
+      `,
+      // Wallets' own distribution mode profiles; the built-in modes live in code
+      `
+      CREATE TABLE IF NOT EXISTS mode_profiles (
+        owner_address TEXT NOT NULL,
+        name TEXT NOT NULL,
+        cu_price_strategy TEXT NOT NULL,
+        cu_price_micro_lamports BIGINT,
+        cu_price_percentile INTEGER,
+        compute_unit_limit INTEGER NOT NULL,
+        jito_tip_range TEXT,
+        delivery_method TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (owner_address, name)
+      );
+      `,
+      // What crash recovery decided for each task it reconciled
+      `
+      CREATE TABLE IF NOT EXISTS audit_log (
+        audit_id SERIAL PRIMARY KEY,
+        job_id UUID NOT NULL REFERENCES jobs(job_id) ON DELETE CASCADE,
+        task_id INTEGER,
+        action TEXT NOT NULL,
+        previous_status TEXT,
+        new_status TEXT,
+        tx_signature TEXT,
+        detail TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+      `,
+      // Saved recipient lists that the scheduler turns into jobs, once or on a recurrence
+      `
+      CREATE TABLE IF NOT EXISTS schedules (
+        schedule_id UUID PRIMARY KEY,
+        distributor_address TEXT NOT NULL,
+        name TEXT,
+        token_mint_address TEXT NOT NULL,
+        token_decimals INTEGER NOT NULL,
+        mode TEXT NOT NULL,
+        signing_mode TEXT NOT NULL DEFAULT 'wallet',
+        transfer_fee_mode TEXT NOT NULL DEFAULT 'gross',
+        duplicate_handling TEXT,
+        recurrence TEXT,
+        first_run_at TIMESTAMP NOT NULL,
+        next_run_at TIMESTAMP,
+        run_count INTEGER NOT NULL DEFAULT 0,
+        status TEXT NOT NULL,
+        notify_url TEXT,
+        last_job_id UUID,
+        last_run_at TIMESTAMP,
+        last_error TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE TABLE IF NOT EXISTS schedule_recipients (
+        schedule_id UUID NOT NULL REFERENCES schedules(schedule_id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        recipient_address TEXT NOT NULL,
+        amount TEXT NOT NULL,
+        memo TEXT,
+        PRIMARY KEY (schedule_id, position)
+      );
+      `,
+      // Columns added after the initial schema
+      `
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS batch_id UUID;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS lookup_table_address TEXT;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS lookup_table_status TEXT;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS token_program_id TEXT;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS token_extensions JSONB;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS transfer_fee_mode TEXT DEFAULT 'gross';
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS total_amount TEXT;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS required_token_amount TEXT;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS required_lamports TEXT;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS funding_status TEXT;
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS last_valid_block_height BIGINT;
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS sent_at TIMESTAMP;
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS confirmed_slot BIGINT;
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMP;
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS signing_expires_at TIMESTAMP;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS signing_mode TEXT DEFAULT 'wallet';
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS delegate_address TEXT;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS delegate_approved_amount TEXT;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS delegate_status TEXT;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS delegate_keystore TEXT;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS content_hash TEXT;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS duplicate_handling TEXT;
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS memo TEXT;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS expected_tasks INTEGER;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS ingested_tasks INTEGER;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS paused_from TEXT;
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS fee_lamports BIGINT;
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS block_time TIMESTAMP;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS schedule_id UUID REFERENCES schedules(schedule_id) ON DELETE SET NULL;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS scheduled_at TIMESTAMP;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS delivery_provider TEXT;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS mode_profile JSONB;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS fee_budget_lamports BIGINT;
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS fees_committed_lamports BIGINT DEFAULT 0;
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS signed_transaction TEXT;
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS submit_attempts INTEGER DEFAULT 0;
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP;
+      `,
+      // Create indexes for better performance
+      `
+      CREATE INDEX IF NOT EXISTS idx_tasks_job_id ON tasks(job_id);
+      CREATE INDEX IF NOT EXISTS idx_tasks_batch_id ON tasks(batch_id);
+      CREATE INDEX IF NOT EXISTS idx_tasks_tx_signature ON tasks(tx_signature);
+      CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
+      CREATE INDEX IF NOT EXISTS idx_tasks_job_updated_at ON tasks(job_id, updated_at, task_id);
+      CREATE INDEX IF NOT EXISTS idx_jobs_content_hash ON jobs(distributor_address, token_mint_address, content_hash);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_idempotency_key ON jobs(distributor_address, idempotency_key);
+      CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
+      CREATE INDEX IF NOT EXISTS idx_jobs_distributor_created_at ON jobs(distributor_address, created_at);
+      CREATE INDEX IF NOT EXISTS idx_job_shares_job_id ON job_shares(job_id);
+      CREATE INDEX IF NOT EXISTS idx_jobs_schedule_id ON jobs(schedule_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_schedules_distributor ON schedules(distributor_address, created_at);
+      CREATE INDEX IF NOT EXISTS idx_schedules_due ON schedules(next_run_at) WHERE status = 'active';
+      CREATE INDEX IF NOT EXISTS idx_tasks_stale ON tasks(updated_at) WHERE status IN ('processing', 'sent');
+      CREATE INDEX IF NOT EXISTS idx_audit_log_job_id ON audit_log(job_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_tasks_queued ON tasks(next_attempt_at, task_id) WHERE status = 'queued';
+      `,
+    ],
+  },
+  {
+    version: 2,
+    name: 'task_events',
+    statements: [
+      // Every task status change. Tasks only disappear with their job, so events hang off the job.
+      `
+      CREATE TABLE task_events (
+        event_id BIGSERIAL PRIMARY KEY,
+        job_id UUID NOT NULL REFERENCES jobs(job_id) ON DELETE CASCADE,
+        task_id INTEGER NOT NULL,
+        previous_status TEXT,
+        status TEXT NOT NULL,
+        error_message TEXT,
+        tx_signature TEXT,
+        actor TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX idx_task_events_task_id ON task_events(task_id, event_id);
+      `,
+      // Writes set status_actor next to status; the trigger records it with the change and clears it
+      `
+      ALTER TABLE tasks ADD COLUMN status_actor TEXT;
+
+      CREATE FUNCTION record_task_event() RETURNS trigger AS $$
+      BEGIN
+        IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+          INSERT INTO task_events (job_id, task_id, previous_status, status, error_message, tx_signature, actor)
+          VALUES (
+            NEW.job_id,
+            NEW.task_id,
+            CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+            NEW.status,
+            NEW.error_message,
+            NEW.tx_signature,
+            COALESCE(NEW.status_actor, 'system')
+          );
+        END IF;
+        NEW.status_actor := NULL;
+        RETURN NEW;
+      END;
+      $$ LANGUAGE plpgsql;
+
+      CREATE TRIGGER tasks_record_event BEFORE INSERT OR UPDATE ON tasks
+      FOR EACH ROW EXECUTE FUNCTION record_task_event();
+      `,
+    ],
+  },
+  {
+    version: 3,
+    name: 'stream_tokens',
+    statements: [
+      // Single-use tokens that open one job's event stream, as EventSource cannot send the session header
+      `
+      CREATE TABLE stream_tokens (
+        token_hash TEXT PRIMARY KEY,
+        job_id UUID NOT NULL REFERENCES jobs(job_id) ON DELETE CASCADE,
+        wallet_address TEXT NOT NULL,
+        expires_at TIMESTAMP NOT NULL
+      );
+      `,
+    ],
+  },
+];
+
+/**
+ * Applies every migration the database has not recorded yet, in version
+ * order. A failing migration is rolled back and stops the rest.
+ */
+export async function runMigrations(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+
+  await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+  try {
+    const appliedResult = await client.query('SELECT version FROM schema_migrations');
+    const applied = new Set(appliedResult.rows.map((row) => row.version));
+
+    for (const migration of MIGRATIONS) {
+      if (applied.has(migration.version)) continue;
+
+      await client.query('BEGIN');
+      try {
+        for (const statement of migration.statements) {
+          await client.query(statement);
+        }
+        await client.query('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [
+          migration.version,
+          migration.name,
+        ]);
+        await client.query('COMMIT');
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${err.message}`);
+      }
+      console.log(`🗄️  Applied migration ${migration.version} (${migration.name})`);
+    }
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+  }
+}
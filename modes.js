@@ -0,0 +1,265 @@
+/*
+ * =============================================================================
+ * Distribution Modes
+ * =============================================================================
+ * A mode profile decides how a job's transactions are priced and delivered:
+ * the compute unit price strategy (a fixed price, a percentile of recent
+ * prioritization fees, or that percentile capped at a price), the most
+ * compute a transaction may ask for, the Jito tip range and the gateway
+ * delivery method. `cost-saver` and `high-assurance` are built in; wallets
+ * can save their own profiles. A job keeps a copy of its profile from when
+ * it was created, so later edits only affect new jobs.
+ * =============================================================================
+ */
+
+import { query } from './db.js';
+import { MAX_COMPUTE_UNITS, DEFAULT_COMPUTE_UNIT_PRICE_MICRO_LAMPORTS } from './transactions.js';
+
+export const CU_PRICE_STRATEGIES = ['fixed', 'percentile', 'capped'];
+export const JITO_TIP_RANGES = ['low', 'medium', 'high', 'max'];
+export const DELIVERY_METHODS = ['rpc', 'sanctum-sender', 'helius-sender', 'jito'];
+
+const NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+const MIN_COMPUTE_UNIT_LIMIT = 20_000;
+const MAX_COMPUTE_UNIT_PRICE_MICRO_LAMPORTS = 50_000_000;
+
+// The original two modes; the gateway still re-prices their transactions
+const BUILT_IN_PROFILES = {
+  'high-assurance': {
+    name: 'high-assurance',
+    built_in: true,
+    cu_price_strategy: 'fixed',
+    cu_price_micro_lamports: DEFAULT_COMPUTE_UNIT_PRICE_MICRO_LAMPORTS,
+    cu_price_percentile: null,
+    compute_unit_limit: MAX_COMPUTE_UNITS,
+    jito_tip_range: 'high',
+    delivery_method: 'sanctum-sender',
+    gateway_cu_price_range: 'high',
+  },
+  'cost-saver': {
+    name: 'cost-saver',
+    built_in: true,
+    cu_price_strategy: 'fixed',
+    cu_price_micro_lamports: DEFAULT_COMPUTE_UNIT_PRICE_MICRO_LAMPORTS,
+    cu_price_percentile: null,
+    compute_unit_limit: MAX_COMPUTE_UNITS,
+    jito_tip_range: null,
+    delivery_method: 'rpc',
+    gateway_cu_price_range: 'low',
+  },
+};
+
+export const isBuiltInMode = (name) => Object.hasOwn(BUILT_IN_PROFILES, name);
+
+function parseInteger(value, field, min, max) {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new Error(`${field} must be a whole number between ${min} and ${max}.`);
+  }
+  return number;
+}
+
+/**
+ * Reads profile fields from a request body: `name` (only when creating),
+ * `cuPriceStrategy`, `cuPriceMicroLamports`, `cuPricePercentile`,
+ * `computeUnitLimit`, `jitoTipRange` and `deliveryMethod`. Only the fields
+ * present are returned, except that a new profile gets defaults for the
+ * rest. Throws on invalid values.
+ */
+export function parseModeProfile(body, { creating = false } = {}) {
+  const fields = {};
+
+  if (creating) {
+    const name = String(body.name ?? '').trim();
+    if (!NAME_PATTERN.test(name)) {
+      throw new Error('Name must be 1-40 lowercase letters, digits or dashes.');
+    }
+    if (isBuiltInMode(name)) {
+      throw new Error(`"${name}" is a built-in mode.`);
+    }
+    fields.name = name;
+  }
+  if (body.cuPriceStrategy !== undefined) {
+    if (!CU_PRICE_STRATEGIES.includes(body.cuPriceStrategy)) {
+      throw new Error(`cuPriceStrategy must be one of ${CU_PRICE_STRATEGIES.join(', ')}.`);
+    }
+    fields.cuPriceStrategy = body.cuPriceStrategy;
+  }
+  if (body.cuPriceMicroLamports !== undefined) {
+    fields.cuPriceMicroLamports =
+      body.cuPriceMicroLamports === null
+        ? null
+        : parseInteger(body.cuPriceMicroLamports, 'cuPriceMicroLamports', 0, MAX_COMPUTE_UNIT_PRICE_MICRO_LAMPORTS);
+  }
+  if (body.cuPricePercentile !== undefined) {
+    fields.cuPricePercentile =
+      body.cuPricePercentile === null ? null : parseInteger(body.cuPricePercentile, 'cuPricePercentile', 1, 100);
+  }
+  if (body.computeUnitLimit !== undefined) {
+    fields.computeUnitLimit = parseInteger(
+      body.computeUnitLimit,
+      'computeUnitLimit',
+      MIN_COMPUTE_UNIT_LIMIT,
+      MAX_COMPUTE_UNITS
+    );
+  }
+  if (body.jitoTipRange !== undefined) {
+    if (body.jitoTipRange && !JITO_TIP_RANGES.includes(body.jitoTipRange)) {
+      throw new Error(`jitoTipRange must be empty or one of ${JITO_TIP_RANGES.join(', ')}.`);
+    }
+    fields.jitoTipRange = body.jitoTipRange || null;
+  }
+  if (body.deliveryMethod !== undefined) {
+    if (!DELIVERY_METHODS.includes(body.deliveryMethod)) {
+      throw new Error(`deliveryMethod must be one of ${DELIVERY_METHODS.join(', ')}.`);
+    }
+    fields.deliveryMethod = body.deliveryMethod;
+  }
+
+  if (creating) {
+    const profile = {
+      name: fields.name,
+      cuPriceStrategy: 'fixed',
+      cuPriceMicroLamports: null,
+      cuPricePercentile: null,
+      computeUnitLimit: MAX_COMPUTE_UNITS,
+      jitoTipRange: null,
+      deliveryMethod: 'rpc',
+      ...fields,
+    };
+    checkStrategy(profile);
+    return profile;
+  }
+  return fields;
+}
+
+// The price fields each strategy needs
+function checkStrategy(profile) {
+  const strategy = profile.cuPriceStrategy;
+  if ((strategy === 'fixed' || strategy === 'capped') && profile.cuPriceMicroLamports === null) {
+    throw new Error(`The ${strategy} strategy needs cuPriceMicroLamports.`);
+  }
+  if ((strategy === 'percentile' || strategy === 'capped') && profile.cuPricePercentile === null) {
+    throw new Error(`The ${strategy} strategy needs cuPricePercentile.`);
+  }
+}
+
+// A saved profile with edits from parseModeProfile applied. Throws if the result is incomplete.
+export function applyModeProfileChanges(profile, fields) {
+  const updated = {
+    name: profile.name,
+    cuPriceStrategy: profile.cu_price_strategy,
+    cuPriceMicroLamports: profile.cu_price_micro_lamports,
+    cuPricePercentile: profile.cu_price_percentile,
+    computeUnitLimit: profile.compute_unit_limit,
+    jitoTipRange: profile.jito_tip_range,
+    deliveryMethod: profile.delivery_method,
+    ...fields,
+  };
+  checkStrategy(updated);
+  return updated;
+}
+
+function describeModeProfile(row) {
+  return {
+    name: row.name,
+    built_in: false,
+    cu_price_strategy: row.cu_price_strategy,
+    cu_price_micro_lamports: row.cu_price_micro_lamports === null ? null : Number(row.cu_price_micro_lamports),
+    cu_price_percentile: row.cu_price_percentile,
+    compute_unit_limit: row.compute_unit_limit,
+    jito_tip_range: row.jito_tip_range,
+    delivery_method: row.delivery_method,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+// Built-in profiles followed by the wallet's own
+export async function listModeProfiles(owner) {
+  const result = await query('SELECT * FROM mode_profiles WHERE owner_address = $1 ORDER BY name', [owner]);
+  return [...Object.values(BUILT_IN_PROFILES), ...result.rows.map(describeModeProfile)];
+}
+
+// A built-in profile or one of the wallet's own; null if there is none by that name
+export async function getModeProfile(owner, name) {
+  if (isBuiltInMode(name)) return BUILT_IN_PROFILES[name];
+  const result = await query('SELECT * FROM mode_profiles WHERE owner_address = $1 AND name = $2', [owner, name]);
+  return result.rows[0] ? describeModeProfile(result.rows[0]) : null;
+}
+
+const profileValues = (owner, profile) => [
+  owner,
+  profile.name,
+  profile.cuPriceStrategy,
+  profile.cuPriceMicroLamports,
+  profile.cuPricePercentile,
+  profile.computeUnitLimit,
+  profile.jitoTipRange,
+  profile.deliveryMethod,
+];
+
+// Saves a new profile; a name the wallet already uses fails with Postgres code 23505
+export async function createModeProfile(owner, profile) {
+  const result = await query(
+    `INSERT INTO mode_profiles (owner_address, name, cu_price_strategy, cu_price_micro_lamports, cu_price_percentile,
+                                compute_unit_limit, jito_tip_range, delivery_method)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     RETURNING *`,
+    profileValues(owner, profile)
+  );
+  return describeModeProfile(result.rows[0]);
+}
+
+// Saves the result of applyModeProfileChanges. Returns null if the profile no longer exists.
+export async function updateModeProfile(owner, profile) {
+  const result = await query(
+    `UPDATE mode_profiles
+     SET cu_price_strategy = $3, cu_price_micro_lamports = $4, cu_price_percentile = $5,
+         compute_unit_limit = $6, jito_tip_range = $7, delivery_method = $8, updated_at = NOW()
+     WHERE owner_address = $1 AND name = $2
+     RETURNING *`,
+    profileValues(owner, profile)
+  );
+  return result.rows[0] ? describeModeProfile(result.rows[0]) : null;
+}
+
+// Deletes one of the wallet's profiles; jobs keep their copy. Returns false if it did not exist.
+export async function deleteModeProfile(owner, name) {
+  const result = await query('DELETE FROM mode_profiles WHERE owner_address = $1 AND name = $2', [owner, name]);
+  return result.rowCount > 0;
+}
+
+// The profile a job runs with: its saved copy, or the built-in mode for jobs created before profiles
+export function jobModeProfile(job) {
+  return job.mode_profile ?? BUILT_IN_PROFILES[job.mode] ?? BUILT_IN_PROFILES['cost-saver'];
+}
+
+/**
+ * The compute unit price, in micro-lamports, for transactions built now.
+ * Percentiles are taken over the prioritization fees recent slots paid to
+ * write `writableAccounts` (the fee payer), so busy accounts price higher.
+ */
+export async function resolveComputeUnitPrice(connection, profile, writableAccounts) {
+  if (profile.cu_price_strategy === 'fixed') {
+    return profile.cu_price_micro_lamports;
+  }
+
+  const recentFees = await connection.getRecentPrioritizationFees({ lockedWritableAccounts: writableAccounts });
+  const fees = recentFees.map((entry) => entry.prioritizationFee).sort((a, b) => a - b);
+  // Nearest-rank percentile; no recent fees means no competition for the accounts
+  const rank = Math.ceil((profile.cu_price_percentile / 100) * fees.length);
+  const price = fees.length > 0 ? fees[Math.max(rank, 1) - 1] : 0;
+
+  return profile.cu_price_strategy === 'capped' ? Math.min(price, profile.cu_price_micro_lamports) : price;
+}
+
+// Sanctum Gateway buildGatewayTransaction parameters for a profile
+export function gatewayBuildParams(profile) {
+  return {
+    ...(profile.gateway_cu_price_range && { cuPriceRange: profile.gateway_cu_price_range }),
+    ...(profile.jito_tip_range && { jitoTipRange: profile.jito_tip_range }),
+    deliveryMethodType: profile.delivery_method,
+    encoding: 'base64',
+  };
+}
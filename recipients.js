@@ -0,0 +1,315 @@
+/*
+ * =============================================================================
+ * Recipient Lists
+ * =============================================================================
+ * Turns an uploaded recipient list (CSV, TSV, JSON or JSONL) into tasks:
+ * column mapping, row validation and duplicate handling.
+ * =============================================================================
+ */
+
+import { createInterface } from 'readline';
+import { parse } from 'csv-parse';
+import { PublicKey } from '@solana/web3.js';
+
+export const DUPLICATE_MODES = ['merge', 'reject', 'keep'];
+
+export const RECIPIENT_FORMATS = ['csv', 'tsv', 'json', 'jsonl'];
+
+const AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
+const MAX_MEMO_LENGTH = 256;
+const MAPPABLE_FIELDS = ['address', 'amount', 'memo'];
+
+/**
+ * Validates a column mapping such as { "address": "wallet", "amount": "tokens" }.
+ * Fields left out use their own name; memo falls back to a `memo` or
+ * `reference` column.
+ */
+export function parseColumnMapping(value) {
+  if (!value) {
+    return {};
+  }
+  const mapping = typeof value === 'string' ? JSON.parse(value) : value;
+  if (typeof mapping !== 'object' || Array.isArray(mapping)) {
+    throw new Error('Column mapping must be an object.');
+  }
+  for (const [field, column] of Object.entries(mapping)) {
+    if (!MAPPABLE_FIELDS.includes(field)) {
+      throw new Error(`Unknown field "${field}" in column mapping; expected ${MAPPABLE_FIELDS.join(', ')}.`);
+    }
+    if (typeof column !== 'string' || !column.trim()) {
+      throw new Error(`Column for "${field}" must be a non-empty string.`);
+    }
+  }
+  return mapping;
+}
+
+// Format from an explicit choice, the file extension, or failing both the first bytes of the file
+export function detectFormat(filename, head, requested) {
+  if (requested) {
+    if (!RECIPIENT_FORMATS.includes(requested)) {
+      throw new Error(`Unsupported format "${requested}"; expected ${RECIPIENT_FORMATS.join(', ')}.`);
+    }
+    return requested;
+  }
+
+  const extension = filename?.split('.').pop()?.toLowerCase();
+  if (RECIPIENT_FORMATS.includes(extension)) {
+    return extension;
+  }
+
+  const text = head.toString('utf8').replace(/^\uFEFF/, '').trimStart();
+  if (text.startsWith('[')) return 'json';
+  if (text.startsWith('{')) return 'jsonl';
+  return text.split('\n')[0].includes('\t') ? 'tsv' : 'csv';
+}
+
+// Header lookup that ignores case and stray whitespace, as spreadsheet exports vary
+function pickField(record, column) {
+  const key = Object.keys(record).find((name) => name.trim().toLowerCase() === column.trim().toLowerCase());
+  return key === undefined ? undefined : record[key];
+}
+
+function toRow(line, record, mapping) {
+  const memo = mapping.memo
+    ? pickField(record, mapping.memo)
+    : pickField(record, 'memo') ?? pickField(record, 'reference');
+
+  return {
+    line,
+    address: String(pickField(record, mapping.address || 'address') ?? '').trim(),
+    amount: String(pickField(record, mapping.amount || 'amount') ?? '').trim(),
+    memo: memo === undefined || memo === null || String(memo).trim() === '' ? null : String(memo).trim(),
+  };
+}
+
+/**
+ * Reads an uploaded list from a stream as raw rows, keeping where each one
+ * came from: the file line for CSV, TSV and JSONL, the entry number for a JSON
+ * array. CSV, TSV and JSONL are parsed as they stream in; a JSON array has to
+ * be read whole. JSON that cannot be read becomes a row with an `error` for
+ * the validator.
+ */
+async function* streamRecipientRows(source, { format = 'csv', mapping = {} } = {}) {
+  if (format === 'csv' || format === 'tsv') {
+    const parser = source.pipe(
+      parse({
+        columns: true,
+        delimiter: format === 'tsv' ? '\t' : ',',
+        bom: true,
+        skip_empty_lines: true,
+        trim: true,
+        relax_column_count: true,
+        info: true,
+      })
+    );
+    for await (const { record, info } of parser) {
+      yield toRow(info.lines, record, mapping);
+    }
+    return;
+  }
+
+  if (format === 'json') {
+    const chunks = [];
+    for await (const chunk of source) {
+      chunks.push(chunk);
+    }
+
+    let entries;
+    try {
+      entries = JSON.parse(Buffer.concat(chunks).toString('utf8').replace(/^\uFEFF/, ''));
+    } catch {
+      yield { line: 1, address: '', amount: '', memo: null, error: 'File is not valid JSON.' };
+      return;
+    }
+    if (!Array.isArray(entries)) {
+      yield { line: 1, address: '', amount: '', memo: null, error: 'JSON recipient lists must be an array of objects.' };
+      return;
+    }
+    for (const [index, entry] of entries.entries()) {
+      yield entry && typeof entry === 'object'
+        ? toRow(index + 1, entry, mapping)
+        : { line: index + 1, address: '', amount: '', memo: null, error: 'Entry is not an object.' };
+    }
+    return;
+  }
+
+  let line = 0;
+  for await (const content of createInterface({ input: source, crlfDelay: Infinity })) {
+    line++;
+    if (!content.trim()) continue;
+    try {
+      yield toRow(line, JSON.parse(line === 1 ? content.replace(/^\uFEFF/, '') : content), mapping);
+    } catch {
+      yield { line, address: '', amount: '', memo: null, error: 'Line is not valid JSON.' };
+    }
+  }
+}
+
+// Every raw row of an uploaded list; see streamRecipientRows
+export async function readRecipientRows(source, options) {
+  const rows = [];
+  for await (const row of streamRecipientRows(source, options)) {
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Raw rows of an uploaded list in arrays of up to `size`, so a large file never sits in memory whole
+export async function* readRecipientChunks(source, options, size) {
+  let chunk = [];
+  for await (const row of streamRecipientRows(source, options)) {
+    chunk.push(row);
+    if (chunk.length === size) {
+      yield chunk;
+      chunk = [];
+    }
+  }
+  if (chunk.length > 0) {
+    yield chunk;
+  }
+}
+
+/**
+ * Converts a decimal token amount to base units. Digits beyond the mint's
+ * decimals are cut off and reported, never silently dropped.
+ */
+export function toSmallestUnit(amount, decimals) {
+  const [whole, fraction = ''] = String(amount).split('.');
+  const paddedFraction = fraction.padEnd(decimals, '0').slice(0, decimals);
+  return {
+    value: BigInt(whole + paddedFraction),
+    truncated: /[1-9]/.test(fraction.slice(decimals)),
+  };
+}
+
+// Converts base units back to a decimal token amount, without trailing zeros
+export function fromSmallestUnit(amount, decimals) {
+  const amountStr = BigInt(amount).toString().padStart(decimals + 1, '0');
+  const whole = amountStr.slice(0, amountStr.length - decimals);
+  const fraction = decimals > 0 ? amountStr.slice(-decimals).replace(/0+$/, '') : '';
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+/**
+ * Checks every row and splits the file into recipients that can be paid and
+ * rejected rows, each with its line number and reason. Rows that are accepted
+ * but deserve a second look (PDA recipients, amounts cut to the mint's
+ * precision) come back as warnings.
+ */
+export function validateRecipientRows(rows, decimals) {
+  const recipients = [];
+  const rejected = [];
+  const warnings = [];
+
+  for (const row of rows) {
+    const reject = (code, reason) => rejected.push({ ...row, code, reason });
+
+    if (row.error) {
+      reject('invalid_row', row.error);
+      continue;
+    }
+    if (!row.address) {
+      reject('missing_address', 'Address is empty.');
+      continue;
+    }
+    if (!row.amount) {
+      reject('missing_amount', 'Amount is empty.');
+      continue;
+    }
+
+    let recipientPubkey;
+    try {
+      recipientPubkey = new PublicKey(row.address);
+    } catch {
+      reject('invalid_address', 'Address is not a valid Solana public key.');
+      continue;
+    }
+
+    if (row.amount.startsWith('-')) {
+      reject('negative_amount', 'Amount is negative.');
+      continue;
+    }
+    if (!AMOUNT_PATTERN.test(row.amount)) {
+      reject('invalid_amount', 'Amount is not a decimal number.');
+      continue;
+    }
+
+    if (row.memo && row.memo.length > MAX_MEMO_LENGTH) {
+      reject('memo_too_long', `Memo is longer than ${MAX_MEMO_LENGTH} characters.`);
+      continue;
+    }
+
+    const { value, truncated } = toSmallestUnit(row.amount, decimals);
+    if (value <= BigInt(0)) {
+      reject(
+        'non_positive_amount',
+        truncated ? `Amount rounds to zero at ${decimals} decimals.` : 'Amount must be greater than zero.'
+      );
+      continue;
+    }
+
+    if (truncated) {
+      warnings.push({
+        ...row,
+        code: 'precision_loss',
+        message: `Amount has more than ${decimals} decimals; extra digits are dropped.`,
+      });
+    }
+    if (!PublicKey.isOnCurve(recipientPubkey.toBytes())) {
+      warnings.push({
+        ...row,
+        code: 'off_curve_address',
+        message: 'Address is off-curve (a program-derived address); make sure the program can use tokens sent to it.',
+      });
+    }
+
+    recipients.push({ line: row.line, address: row.address, amount: value.toString(), memo: row.memo });
+  }
+
+  return { recipients, rejected, warnings };
+}
+
+/**
+ * Applies the duplicate policy to parsed recipients ({ address, amount } in
+ * base units, in file order). `merge` sums a repeated address into its first
+ * row (joining distinct memos), `keep` leaves every row as its own task and
+ * `reject` leaves the list alone so the caller can refuse it. Returns the
+ * resulting recipients and a report of every address that appeared more than
+ * once.
+ */
+export function applyDuplicatePolicy(recipients, mode) {
+  const byAddress = new Map();
+  for (const recipient of recipients) {
+    const entry = byAddress.get(recipient.address) || { occurrences: 0, total: BigInt(0), memos: new Set() };
+    entry.occurrences++;
+    entry.total += BigInt(recipient.amount);
+    if (recipient.memo) entry.memos.add(recipient.memo);
+    byAddress.set(recipient.address, entry);
+  }
+
+  const duplicates = [...byAddress.entries()]
+    .filter(([, entry]) => entry.occurrences > 1)
+    .map(([address, entry]) => ({
+      address,
+      occurrences: entry.occurrences,
+      total_amount: entry.total.toString(),
+    }));
+
+  if (mode !== 'merge' || duplicates.length === 0) {
+    return { recipients, duplicates };
+  }
+
+  const merged = [];
+  const seen = new Set();
+  for (const recipient of recipients) {
+    if (seen.has(recipient.address)) continue;
+    seen.add(recipient.address);
+    const entry = byAddress.get(recipient.address);
+    merged.push({
+      ...recipient,
+      amount: entry.total.toString(),
+      memo: entry.memos.size > 0 ? [...entry.memos].join('; ') : null,
+    });
+  }
+  return { recipients: merged, duplicates };
+}
@@ -0,0 +1,328 @@
+/*
+ * =============================================================================
+ * Crash Recovery
+ * =============================================================================
+ * Reconciles tasks a restart or a lost send left behind: `processing` tasks
+ * whose send never recorded an outcome, and `sent` tasks the tracker could
+ * not settle. For each transaction it asks the chain whether it landed, by
+ * signature or, when the signature is unknown (the gateway rebuilt the
+ * transaction, or a delegate signed it in memory), by a transfer from the
+ * job's payer into a recipient's token account. Landed tasks take the
+ * on-chain outcome. The rest go back to a retryable state only once their
+ * blockhash provably can no longer land them, or when no send was ever
+ * recorded for them: delivery records the signature and blockhash expiry
+ * before any bytes leave the server. Every change is written to audit_log.
+ * =============================================================================
+ */
+
+import bs58 from 'bs58';
+import { PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { query } from './db.js';
+import { publishJobChange } from './events.js';
+import { completeJobIfDone } from './tracker.js';
+import { getJobTokenProgramId } from './tokens.js';
+
+// --- Configuration ---
+const RECOVERY_INTERVAL_MS = 60000;
+// A task untouched this long is no longer in anyone's hands; well past a blockhash's lifetime
+const STALE_TASK_SECONDS = 300;
+const MAX_TASKS_PER_RUN = 500;
+// Recent transactions of a recipient's token account searched for a missing transfer
+const RECENT_SIGNATURE_LIMIT = 25;
+// Allowance for clock drift between this server and block times
+const BLOCK_TIME_SLACK_MS = 60000;
+
+// Records what recovery did to each task; task ids share one action
+async function recordAuditEntries(jobId, taskIds, { action, previousStatus, newStatus, signature, detail }) {
+  await query(
+    `INSERT INTO audit_log (job_id, task_id, action, previous_status, new_status, tx_signature, detail)
+     SELECT $1, UNNEST($2::integer[]), $3, $4, $5, $6, $7`,
+    [jobId, taskIds, action, previousStatus, newStatus, signature ?? null, detail]
+  );
+}
+
+// The fee payer's signature, which is the transaction id, of a stored signed transaction
+function describeSignedTransaction(transaction) {
+  const tx = VersionedTransaction.deserialize(Buffer.from(transaction, 'base64'));
+  return { signature: bs58.encode(tx.signatures[0]), blockhash: tx.message.recentBlockhash };
+}
+
+/**
+ * Looks for a transaction paid by the job's payer that raised the recipient's
+ * token account balance after `since`. Transactions already recorded on
+ * another task of the job are skipped, since a recipient can appear in
+ * several batches. Returns { signature, slot } or null.
+ */
+async function findLandedTransfer(connection, job, task, since) {
+  const recipientTokenAccount = getAssociatedTokenAddressSync(
+    new PublicKey(job.token_mint_address),
+    new PublicKey(task.recipient_address),
+    true,
+    getJobTokenProgramId(job)
+  );
+  const payer = job.signing_mode === 'delegate' ? job.delegate_address : job.distributor_address;
+  const balanceOf = (balances) =>
+    BigInt(
+      balances?.find((entry) => entry.owner === task.recipient_address && entry.mint === job.token_mint_address)
+        ?.uiTokenAmount.amount ?? '0'
+    );
+
+  const signatures = await connection.getSignaturesForAddress(recipientTokenAccount, { limit: RECENT_SIGNATURE_LIMIT });
+  for (const entry of signatures) {
+    if (entry.err || !entry.blockTime || entry.blockTime * 1000 < since.getTime() - BLOCK_TIME_SLACK_MS) continue;
+
+    const tx = await connection.getTransaction(entry.signature, { maxSupportedTransactionVersion: 0 });
+    if (!tx?.meta || tx.transaction.message.staticAccountKeys[0].toBase58() !== payer) continue;
+    if (balanceOf(tx.meta.postTokenBalances) <= balanceOf(tx.meta.preTokenBalances)) continue;
+
+    const recorded = await query('SELECT 1 FROM tasks WHERE job_id = $1 AND tx_signature = $2 LIMIT 1', [
+      job.job_id,
+      entry.signature,
+    ]);
+    if (recorded.rows.length === 0) {
+      return { signature: entry.signature, slot: entry.slot };
+    }
+  }
+  return null;
+}
+
+// Looks for a landed transfer to any of the group's recipients, as one task may have been paid by another batch too
+async function findGroupTransfer(connection, job, group) {
+  for (const task of group.tasks) {
+    const transfer = await findLandedTransfer(connection, job, task, group.updatedAt);
+    if (transfer) return transfer;
+  }
+  return null;
+}
+
+// Whether a transaction that has not landed yet still could; null when there is nothing to prove it either way
+async function couldStillLand(connection, group, blockhash, blockHeight) {
+  if (group.lastValidBlockHeight !== null) {
+    return blockHeight <= Number(group.lastValidBlockHeight);
+  }
+  if (blockhash) {
+    return (await connection.isBlockhashValid(blockhash, { commitment: 'confirmed' })).value;
+  }
+  return null;
+}
+
+// Moves a group's tasks out of `previousStatus`, audits the change and returns the task ids moved
+async function settleGroup(group, previousStatus, newStatus, sql, params, audit) {
+  const result = await query(
+    `UPDATE tasks SET status = $1, ${sql}, status_actor = 'recovery', updated_at = NOW()
+     WHERE task_id = ANY($2) AND status = $3
+     RETURNING task_id`,
+    [newStatus, group.taskIds, previousStatus, ...params]
+  );
+  const taskIds = result.rows.map((row) => row.task_id);
+  if (taskIds.length > 0) {
+    await recordAuditEntries(group.jobId, taskIds, { previousStatus, newStatus, ...audit });
+    console.log(`[Job ${group.jobId}]: Recovered ${taskIds.length} ${previousStatus} tasks as ${newStatus}`);
+  }
+  return taskIds;
+}
+
+/**
+ * Settles one transaction's stale tasks. Returns the task ids it changed,
+ * and whether they went back to the queue to be signed again.
+ */
+async function recoverGroup(connection, job, group, blockHeight) {
+  let { signature } = group;
+  let blockhash = null;
+  if (!signature && group.signedTransaction) {
+    ({ signature, blockhash } = describeSignedTransaction(group.signedTransaction));
+  }
+
+  let status = null;
+  if (signature) {
+    ({ value: [status] } = await connection.getSignatureStatuses([signature], { searchTransactionHistory: true }));
+  }
+  if (!status && group.status === 'processing') {
+    const transfer = await findGroupTransfer(connection, job, group);
+    if (transfer) {
+      signature = transfer.signature;
+      status = { slot: transfer.slot, err: null, confirmationStatus: 'confirmed' };
+    }
+  }
+
+  if (status?.err) {
+    const taskIds = await settleGroup(
+      group,
+      group.status,
+      'failed',
+      `tx_signature = $4, confirmed_slot = $5, error_message = $6, retry_count = retry_count + 1,
+       signed_transaction = NULL`,
+      [signature, status.slot, `Transaction failed on chain: ${JSON.stringify(status.err)}`.substring(0, 500)],
+      { action: 'recovered_failed', signature, detail: 'Transaction landed with an error.' }
+    );
+    return { taskIds, requeued: false };
+  }
+
+  if (status) {
+    // The tracker takes confirmed tasks on to finalized
+    const landedStatus = status.confirmationStatus === 'finalized' ? 'finalized' : 'confirmed';
+    const taskIds = await settleGroup(
+      group,
+      group.status,
+      landedStatus,
+      `tx_signature = $4, confirmed_slot = $5, confirmed_at = COALESCE(confirmed_at, NOW()), error_message = NULL,
+       sent_at = COALESCE(sent_at, NOW()), signed_transaction = NULL`,
+      [signature, status.slot],
+      { action: 'recovered_landed', signature, detail: 'Transaction found on chain.' }
+    );
+    return { taskIds, requeued: false };
+  }
+
+  // A transaction that went out is only given up on once its blockhash has provably expired
+  if (signature) {
+    const stillLandable = await couldStillLand(connection, group, blockhash, blockHeight);
+    if (stillLandable) {
+      return { taskIds: [], requeued: false };
+    }
+    if (stillLandable === null) {
+      const taskIds = await settleGroup(
+        group,
+        group.status,
+        'failed',
+        'tx_signature = $4, error_message = $5, signed_transaction = NULL',
+        [signature, 'Send outcome unknown; check the recipients on chain before retrying.'],
+        { action: 'recovered_unknown', signature, detail: 'Not found on chain and its blockhash expiry is unknown.' }
+      );
+      return { taskIds, requeued: false };
+    }
+  }
+
+  // Never landed and never will, or was never sent: it goes out again, unless the job was cancelled
+  if (group.status === 'processing' && job.status === 'cancelled') {
+    const taskIds = await settleGroup(
+      group,
+      'processing',
+      'cancelled',
+      'batch_id = NULL, signed_transaction = NULL, error_message = $4',
+      ['Cancelled before it was sent.'],
+      { action: 'recovered_cancelled', signature, detail: 'Send was interrupted and never landed.' }
+    );
+    return { taskIds, requeued: false };
+  }
+  if (group.status === 'processing') {
+    const taskIds = await settleGroup(
+      group,
+      'processing',
+      'pending',
+      `batch_id = NULL, tx_signature = NULL, signed_transaction = NULL, retry_count = retry_count + 1,
+       error_message = $4`,
+      ['Send was interrupted and never landed; queued to send again.'],
+      { action: 'recovered_requeued', signature, detail: 'Send was interrupted and never landed.' }
+    );
+    return { taskIds, requeued: taskIds.length > 0 };
+  }
+
+  const taskIds = await settleGroup(
+    group,
+    'sent',
+    'expired',
+    'error_message = $4, retry_count = retry_count + 1',
+    ['Transaction never landed.'],
+    { action: 'recovered_expired', signature, detail: 'Transaction not found on chain after its blockhash expired.' }
+  );
+  return { taskIds, requeued: false };
+}
+
+// Stale processing and sent tasks, grouped by the transaction they were packed into
+async function loadStaleGroups() {
+  const result = await query(
+    `SELECT task_id, job_id, batch_id, status, recipient_address, tx_signature, signed_transaction,
+            last_valid_block_height, updated_at
+     FROM tasks
+     WHERE status IN ('processing', 'sent') AND updated_at < NOW() - make_interval(secs => $1)
+     ORDER BY updated_at, task_id
+     LIMIT $2`,
+    [STALE_TASK_SECONDS, MAX_TASKS_PER_RUN]
+  );
+
+  const groups = new Map();
+  for (const task of result.rows) {
+    const key = `${task.job_id}:${task.status}:${task.tx_signature ?? task.batch_id}`;
+    if (!groups.has(key)) {
+      groups.set(key, {
+        jobId: task.job_id,
+        status: task.status,
+        signature: task.tx_signature,
+        signedTransaction: task.signed_transaction,
+        lastValidBlockHeight: task.last_valid_block_height,
+        updatedAt: task.updated_at,
+        tasks: [],
+        taskIds: [],
+      });
+    }
+    groups.get(key).tasks.push(task);
+    groups.get(key).taskIds.push(task.task_id);
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Runs one recovery pass. `onJobCompleted` runs for each job it completes and
+ * `onTasksRequeued` for each job with tasks back in the queue.
+ */
+export async function recoverStaleTasks(connection, { onJobCompleted, onTasksRequeued } = {}) {
+  const groups = await loadStaleGroups();
+  if (groups.length === 0) {
+    return;
+  }
+
+  const blockHeight = await connection.getBlockHeight('confirmed');
+  const jobs = new Map();
+  // job_id -> { taskIds, requeued }
+  const touchedJobs = new Map();
+
+  for (const group of groups) {
+    if (!jobs.has(group.jobId)) {
+      const jobResult = await query('SELECT * FROM jobs WHERE job_id = $1', [group.jobId]);
+      jobs.set(group.jobId, jobResult.rows[0]);
+    }
+
+    try {
+      const { taskIds, requeued } = await recoverGroup(connection, jobs.get(group.jobId), group, blockHeight);
+      if (taskIds.length === 0) continue;
+
+      const touched = touchedJobs.get(group.jobId) ?? { taskIds: [], requeued: false };
+      touched.taskIds.push(...taskIds);
+      touched.requeued ||= requeued;
+      touchedJobs.set(group.jobId, touched);
+    } catch (err) {
+      console.error(`[Job ${group.jobId}]: Failed to recover tasks ${group.taskIds.join(', ')}:`, err.message);
+    }
+  }
+
+  for (const [jobId, { taskIds, requeued }] of touchedJobs) {
+    publishJobChange(jobId, taskIds);
+    if (requeued && onTasksRequeued) {
+      await onTasksRequeued(jobs.get(jobId));
+    }
+    if ((await completeJobIfDone(jobId)) && onJobCompleted) {
+      await onJobCompleted(jobId);
+    }
+  }
+}
+
+// Starts the periodic recovery pass. Returns a function that stops it.
+export function startStaleTaskRecovery(connection, options = {}) {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // Skip a pass rather than overlap a slow one
+    if (running) return;
+    running = true;
+    try {
+      await recoverStaleTasks(connection, options);
+    } catch (err) {
+      console.error('Task recovery error:', err.message);
+    } finally {
+      running = false;
+    }
+  }, RECOVERY_INTERVAL_MS);
+
+  return () => clearInterval(timer);
+}
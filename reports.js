@@ -0,0 +1,246 @@
+/*
+ * =============================================================================
+ * Distribution Reports
+ * =============================================================================
+ * Receipts of a job for accounting: every transfer with its amount (UI units
+ * and base units), signature, slot, block time and fee, followed by a summary
+ * of totals and failures. Streamed as CSV or JSON so large jobs never sit in
+ * memory.
+ * =============================================================================
+ */
+
+import { query } from './db.js';
+import { fromSmallestUnit } from './recipients.js';
+
+export const REPORT_FORMATS = ['csv', 'json'];
+
+const REPORT_PAGE_SIZE = 1000;
+// Signatures per getTransactions call when looking up fees and block times
+const TRANSACTION_LOOKUP_CHUNK_SIZE = 100;
+
+const SUCCESS_STATUSES = ['confirmed', 'finalized', 'success'];
+const FAILED_STATUSES = ['failed', 'expired'];
+
+const CSV_COLUMNS = [
+  'task_id',
+  'recipient_address',
+  'amount',
+  'amount_base_units',
+  'memo',
+  'status',
+  'tx_signature',
+  'slot',
+  'block_time',
+  'fee_lamports',
+  'fee_sol',
+  'retry_count',
+  'error_message',
+];
+
+/**
+ * Looks up the fee and block time of every transaction of the job that landed
+ * but has not been looked up yet, and stores them on its tasks. Transactions
+ * that failed on chain paid a fee too. Lookup failures leave the columns empty.
+ */
+export async function recordTransactionDetails(connection, jobId) {
+  const missingResult = await query(
+    `SELECT DISTINCT tx_signature FROM tasks
+     WHERE job_id = $1 AND tx_signature IS NOT NULL AND confirmed_slot IS NOT NULL AND fee_lamports IS NULL`,
+    [jobId]
+  );
+  const signatures = missingResult.rows.map((row) => row.tx_signature);
+
+  for (let i = 0; i < signatures.length; i += TRANSACTION_LOOKUP_CHUNK_SIZE) {
+    const chunk = signatures.slice(i, i + TRANSACTION_LOOKUP_CHUNK_SIZE);
+    let transactions;
+    try {
+      transactions = await connection.getTransactions(chunk, { maxSupportedTransactionVersion: 0 });
+    } catch (err) {
+      console.error(`[Job ${jobId}]: Failed to look up transaction fees:`, err.message);
+      return;
+    }
+
+    for (const [index, transaction] of transactions.entries()) {
+      if (!transaction?.meta) continue;
+      await query(
+        `UPDATE tasks SET fee_lamports = $1, block_time = to_timestamp($2)
+         WHERE job_id = $3 AND tx_signature = $4`,
+        [transaction.meta.fee, transaction.blockTime, jobId, chunk[index]]
+      );
+    }
+  }
+}
+
+// Quotes a CSV field when needed and defuses values a spreadsheet would run as a formula
+export function csvField(value) {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const csvLine = (values) => `${values.map(csvField).join(',')}\r\n`;
+
+// Writes and waits for the socket to drain when its buffer is full (or for the client to go away)
+function write(res, chunk) {
+  if (res.write(chunk)) return Promise.resolve();
+  return new Promise((resolve) => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.once('drain', done);
+    res.once('close', done);
+  });
+}
+
+function toReportRow(task, decimals) {
+  return {
+    task_id: task.task_id,
+    recipient_address: task.recipient_address,
+    amount: fromSmallestUnit(task.amount, decimals),
+    amount_base_units: task.amount,
+    memo: task.memo,
+    status: task.status,
+    tx_signature: task.tx_signature,
+    slot: task.confirmed_slot,
+    block_time: task.block_time ? new Date(task.block_time).toISOString() : null,
+    // Shared by every transfer packed into the same transaction
+    fee_lamports: task.fee_lamports,
+    fee_sol: task.fee_lamports !== null ? fromSmallestUnit(task.fee_lamports, 9) : null,
+    retry_count: task.retry_count,
+    error_message: task.error_message,
+  };
+}
+
+// Reads the job's tasks in task order, one page at a time
+async function* readTaskPages(jobId) {
+  let afterTaskId = 0;
+  while (true) {
+    const result = await query(
+      `SELECT task_id, recipient_address, amount, memo, status, tx_signature, confirmed_slot, block_time,
+              fee_lamports, retry_count, error_message
+       FROM tasks WHERE job_id = $1 AND task_id > $2
+       ORDER BY task_id
+       LIMIT $3`,
+      [jobId, afterTaskId, REPORT_PAGE_SIZE]
+    );
+    if (result.rows.length === 0) return;
+    yield result.rows;
+    afterTaskId = result.rows[result.rows.length - 1].task_id;
+  }
+}
+
+/**
+ * Totals of a job: transfers and amounts by outcome, plus the transactions
+ * that landed and the fees they paid (each transaction counted once).
+ */
+export async function summarizeReport(job) {
+  const totalsResult = await query(
+    `SELECT COUNT(*) AS transfers,
+            COUNT(*) FILTER (WHERE status = ANY($2)) AS successful,
+            COUNT(*) FILTER (WHERE status = ANY($3)) AS failed,
+            COUNT(*) FILTER (WHERE status = 'cancelled') AS cancelled,
+            COALESCE(SUM(amount::numeric), 0)::text AS total_amount,
+            COALESCE(SUM(amount::numeric) FILTER (WHERE status = ANY($2)), 0)::text AS successful_amount,
+            COALESCE(SUM(amount::numeric) FILTER (WHERE status = ANY($3)), 0)::text AS failed_amount
+     FROM tasks WHERE job_id = $1`,
+    [job.job_id, SUCCESS_STATUSES, FAILED_STATUSES]
+  );
+  const feesResult = await query(
+    `SELECT COUNT(*) AS transactions, COALESCE(SUM(fee_lamports), 0)::text AS fee_lamports
+     FROM (SELECT DISTINCT tx_signature, fee_lamports FROM tasks WHERE job_id = $1 AND fee_lamports IS NOT NULL) landed`,
+    [job.job_id]
+  );
+  const failureResult = await query(
+    `SELECT COALESCE(error_message, status) AS reason, COUNT(*) AS count
+     FROM tasks WHERE job_id = $1 AND status = ANY($2)
+     GROUP BY 1 ORDER BY 2 DESC`,
+    [job.job_id, FAILED_STATUSES]
+  );
+
+  const totals = totalsResult.rows[0];
+  const transfers = parseInt(totals.transfers);
+  const successful = parseInt(totals.successful);
+  const failed = parseInt(totals.failed);
+  const cancelled = parseInt(totals.cancelled);
+  const decimals = job.token_decimals;
+
+  return {
+    transfers,
+    successful,
+    failed,
+    cancelled,
+    unfinished: transfers - successful - failed - cancelled,
+    total_amount: fromSmallestUnit(totals.total_amount, decimals),
+    total_amount_base_units: totals.total_amount,
+    successful_amount: fromSmallestUnit(totals.successful_amount, decimals),
+    successful_amount_base_units: totals.successful_amount,
+    failed_amount: fromSmallestUnit(totals.failed_amount, decimals),
+    failed_amount_base_units: totals.failed_amount,
+    transactions: parseInt(feesResult.rows[0].transactions),
+    fee_lamports: feesResult.rows[0].fee_lamports,
+    fee_sol: fromSmallestUnit(feesResult.rows[0].fee_lamports, 9),
+    failure_reasons: failureResult.rows.map((row) => ({ reason: row.reason, count: parseInt(row.count) })),
+  };
+}
+
+function describeJob(job) {
+  return {
+    job_id: job.job_id,
+    status: job.status,
+    mode: job.mode,
+    token_mint: job.token_mint_address,
+    token_decimals: job.token_decimals,
+    distributor_address: job.distributor_address,
+    created_at: job.created_at,
+    generated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Streams a job's report to `res` as CSV or JSON. The CSV has one row per
+ * transfer, then a blank line and `metric,value` summary rows.
+ */
+export async function streamJobReport(job, format, res) {
+  const decimals = job.token_decimals;
+
+  if (format === 'json') {
+    await write(res, `{"job":${JSON.stringify(describeJob(job))},"transfers":[`);
+    let first = true;
+    for await (const tasks of readTaskPages(job.job_id)) {
+      if (res.destroyed) return;
+      const rows = tasks.map((task) => JSON.stringify(toReportRow(task, decimals)));
+      await write(res, `${first ? '' : ','}${rows.join(',')}`);
+      first = false;
+    }
+    await write(res, `],"summary":${JSON.stringify(await summarizeReport(job))}}`);
+    res.end();
+    return;
+  }
+
+  await write(res, csvLine(CSV_COLUMNS));
+  for await (const tasks of readTaskPages(job.job_id)) {
+    if (res.destroyed) return;
+    const lines = tasks.map((task) => {
+      const row = toReportRow(task, decimals);
+      return csvLine(CSV_COLUMNS.map((column) => row[column]));
+    });
+    await write(res, lines.join(''));
+  }
+
+  const summary = await summarizeReport(job);
+  const summaryLines = [
+    ['metric', 'value'],
+    ['job_id', job.job_id],
+    ['token_mint', job.token_mint_address],
+    ['token_decimals', decimals],
+    ...Object.entries(summary)
+      .filter(([key]) => key !== 'failure_reasons')
+      .map(([key, value]) => [key, value]),
+    ...summary.failure_reasons.map(({ reason, count }) => [`failed: ${reason}`, count]),
+  ];
+  await write(res, `\r\n${summaryLines.map(csvLine).join('')}`);
+  res.end();
+}
@@ -0,0 +1,526 @@
+/*
+ * =============================================================================
+ * Scheduled Distributions
+ * =============================================================================
+ * A schedule keeps a validated recipient list and the settings of the job to
+ * run, plus when to run it: once, or on a daily, weekly, biweekly or monthly
+ * recurrence. The scheduler loop claims schedules that are due, moves them to
+ * their next occurrence and hands them to the server to create a fresh job,
+ * which then waits for the owner to sign or approve its delegate.
+ * =============================================================================
+ */
+
+import { lookup } from 'dns';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP } from 'net';
+import { query, getClient } from './db.js';
+import { SIGNING_MODES } from './delegate.js';
+
+export const RECURRENCES = ['daily', 'weekly', 'biweekly', 'monthly'];
+export const SCHEDULE_STATUSES = ['active', 'paused', 'completed'];
+
+const MAX_NAME_LENGTH = 100;
+
+const SCHEDULER_POLL_INTERVAL_MS = 30000;
+// Rows per INSERT when saving a recipient list
+const RECIPIENT_CHUNK_SIZE = 2000;
+const NOTIFY_TIMEOUT_MS = 10000;
+const RECENT_RUNS_LIMIT = 20;
+
+// Addresses a notification may not reach: loopback, private, link-local (cloud metadata), CGNAT and reserved ranges.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+const PRIVATE_ADDRESSES = new BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+].forEach(([network, prefix]) => PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4'));
+[
+  ['::', 127],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+].forEach(([network, prefix]) => PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6'));
+
+const DAYS_PER_STEP = { daily: 1, weekly: 7, biweekly: 14 };
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * The n-th occurrence of a recurrence counted from its first run (n = 0).
+ * Monthly runs keep the day of the month, falling back to the last day of
+ * shorter months without drifting in the months after.
+ */
+export function occurrenceAt(firstRunAt, recurrence, n) {
+  const first = new Date(firstRunAt);
+  if (recurrence === 'monthly') {
+    const year = first.getUTCFullYear();
+    const month = first.getUTCMonth() + n;
+    const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    const occurrence = new Date(first);
+    occurrence.setUTCFullYear(year, month, Math.min(first.getUTCDate(), lastDay));
+    return occurrence;
+  }
+  return new Date(first.getTime() + DAYS_PER_STEP[recurrence] * n * MS_PER_DAY);
+}
+
+// The first occurrence from `runCount` on that is still ahead of `now`
+function nextOccurrence(schedule, runCount, now) {
+  while (occurrenceAt(schedule.first_run_at, schedule.recurrence, runCount) <= now) {
+    runCount += 1;
+  }
+  return { runCount, nextRunAt: occurrenceAt(schedule.first_run_at, schedule.recurrence, runCount) };
+}
+
+/**
+ * Where a schedule goes after the occurrence it is about to run. Occurrences
+ * missed while the server was down are skipped rather than run back to back.
+ */
+function advanceSchedule(schedule, now) {
+  if (!schedule.recurrence) {
+    return { runCount: schedule.run_count + 1, nextRunAt: null, status: 'completed' };
+  }
+  return { ...nextOccurrence(schedule, schedule.run_count + 1, now), status: 'active' };
+}
+
+/**
+ * Reads schedule settings from a request body: `name`, `scheduledAt` (an ISO
+ * time in the future), `recurrence` ('none' or one of RECURRENCES), `mode`,
+ * `signingMode`, `notifyUrl` and `status` ('active' or 'paused'). Only the
+ * fields present are returned. Throws on invalid values.
+ */
+export function parseScheduleChanges(body) {
+  const changes = {};
+
+  if (body.name !== undefined) {
+    const name = String(body.name ?? '').trim();
+    if (name.length > MAX_NAME_LENGTH) {
+      throw new Error(`Name must be at most ${MAX_NAME_LENGTH} characters.`);
+    }
+    changes.name = name || null;
+  }
+  if (body.scheduledAt !== undefined) {
+    const scheduledAt = new Date(body.scheduledAt);
+    if (!body.scheduledAt || Number.isNaN(scheduledAt.getTime())) {
+      throw new Error('scheduledAt must be an ISO 8601 time.');
+    }
+    if (scheduledAt <= new Date()) {
+      throw new Error('scheduledAt must be in the future.');
+    }
+    changes.scheduledAt = scheduledAt;
+  }
+  if (body.recurrence !== undefined) {
+    const recurrence = !body.recurrence || body.recurrence === 'none' ? null : String(body.recurrence);
+    if (recurrence && !RECURRENCES.includes(recurrence)) {
+      throw new Error(`Recurrence must be none or one of ${RECURRENCES.join(', ')}.`);
+    }
+    changes.recurrence = recurrence;
+  }
+  // Whether the mode profile exists is checked against the owner's profiles by the caller
+  if (body.mode !== undefined) {
+    if (!body.mode || typeof body.mode !== 'string') {
+      throw new Error('Invalid mode.');
+    }
+    changes.mode = body.mode;
+  }
+  if (body.signingMode !== undefined) {
+    if (!SIGNING_MODES.includes(body.signingMode)) {
+      throw new Error('Invalid signing mode.');
+    }
+    changes.signingMode = body.signingMode;
+  }
+  if (body.notifyUrl !== undefined) {
+    changes.notifyUrl = null;
+    if (body.notifyUrl) {
+      let url;
+      try {
+        url = new URL(String(body.notifyUrl));
+      } catch {
+        throw new Error('notifyUrl must be an http(s) URL.');
+      }
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        throw new Error('notifyUrl must be an http(s) URL.');
+      }
+      // Hostnames are checked again against what they resolve to on every send
+      const host = url.hostname.replace(/^\[|\]$/g, '');
+      if (host === 'localhost' || host.endsWith('.localhost') || (isIP(host) && isPrivateAddress(host))) {
+        throw new Error('notifyUrl must point to a public host.');
+      }
+      changes.notifyUrl = url.toString();
+    }
+  }
+  if (body.status !== undefined) {
+    if (body.status !== 'active' && body.status !== 'paused') {
+      throw new Error('Status must be active or paused.');
+    }
+    changes.status = body.status;
+  }
+
+  return changes;
+}
+
+function describeSchedule(row) {
+  return {
+    schedule_id: row.schedule_id,
+    name: row.name,
+    distributor_address: row.distributor_address,
+    token_mint_address: row.token_mint_address,
+    token_decimals: row.token_decimals,
+    mode: row.mode,
+    signing_mode: row.signing_mode,
+    transfer_fee_mode: row.transfer_fee_mode,
+    recurrence: row.recurrence,
+    status: row.status,
+    first_run_at: row.first_run_at,
+    next_run_at: row.next_run_at,
+    run_count: row.run_count,
+    notify_url: row.notify_url,
+    last_job_id: row.last_job_id,
+    last_run_at: row.last_run_at,
+    last_error: row.last_error,
+    recipient_count: parseInt(row.recipient_count ?? 0),
+    total_amount: row.total_amount ?? '0',
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+const SCHEDULE_COLUMNS = `s.*,
+  (SELECT COUNT(*) FROM schedule_recipients r WHERE r.schedule_id = s.schedule_id) AS recipient_count,
+  (SELECT COALESCE(SUM(r.amount::numeric), 0)::text FROM schedule_recipients r WHERE r.schedule_id = s.schedule_id) AS total_amount`;
+
+async function insertRecipients(client, scheduleId, recipients) {
+  for (let i = 0; i < recipients.length; i += RECIPIENT_CHUNK_SIZE) {
+    const chunk = recipients.slice(i, i + RECIPIENT_CHUNK_SIZE);
+    await client.query(
+      `INSERT INTO schedule_recipients (schedule_id, position, recipient_address, amount, memo)
+       SELECT $1, $2 + r.ord, r.recipient_address, r.amount, r.memo
+       FROM UNNEST($3::text[], $4::text[], $5::text[]) WITH ORDINALITY AS r(recipient_address, amount, memo, ord)`,
+      [
+        scheduleId,
+        i,
+        chunk.map((recipient) => recipient.address),
+        chunk.map((recipient) => recipient.amount),
+        chunk.map((recipient) => recipient.memo ?? null),
+      ]
+    );
+  }
+}
+
+// Saves a schedule and its recipient list in one transaction
+export async function createSchedule(schedule, recipients) {
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+    await client.query(
+      `INSERT INTO schedules (schedule_id, distributor_address, name, token_mint_address, token_decimals, mode,
+                              signing_mode, transfer_fee_mode, duplicate_handling, recurrence, first_run_at,
+                              next_run_at, status, notify_url)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $11, 'active', $12)`,
+      [
+        schedule.scheduleId,
+        schedule.distributorAddress,
+        schedule.name,
+        schedule.tokenMintAddress,
+        schedule.tokenDecimals,
+        schedule.mode,
+        schedule.signingMode,
+        schedule.transferFeeMode,
+        schedule.duplicateHandling,
+        schedule.recurrence,
+        schedule.scheduledAt,
+        schedule.notifyUrl,
+      ]
+    );
+    await insertRecipients(client, schedule.scheduleId, recipients);
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+  return getSchedule(schedule.scheduleId);
+}
+
+export async function listSchedules(distributor) {
+  const result = await query(
+    `SELECT ${SCHEDULE_COLUMNS} FROM schedules s
+     WHERE s.distributor_address = $1
+     ORDER BY s.created_at DESC`,
+    [distributor]
+  );
+  return result.rows.map(describeSchedule);
+}
+
+// A schedule with the jobs it has run, newest first; null if it does not exist
+export async function getSchedule(scheduleId) {
+  const result = await query(`SELECT ${SCHEDULE_COLUMNS} FROM schedules s WHERE s.schedule_id = $1`, [scheduleId]);
+  if (result.rows.length === 0) return null;
+
+  const runsResult = await query(
+    `SELECT job_id, status, scheduled_at, created_at FROM jobs
+     WHERE schedule_id = $1
+     ORDER BY created_at DESC LIMIT $2`,
+    [scheduleId, RECENT_RUNS_LIMIT]
+  );
+  return { ...describeSchedule(result.rows[0]), runs: runsResult.rows };
+}
+
+// An edit the client has to change, as opposed to a failure on our side
+function invalidChangeError(message) {
+  const err = new Error(message);
+  err.invalidChange = true;
+  return err;
+}
+
+/**
+ * Applies edits to a schedule. A new `scheduledAt` or `recurrence` restarts
+ * the count from the next run; reactivating a recurring schedule that fell
+ * behind picks up at its next future occurrence. Returns null if the schedule
+ * does not exist, and throws an error flagged `invalidChange` on edits that
+ * leave it without a next run.
+ */
+export async function updateSchedule(scheduleId, changes) {
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+    const result = await client.query('SELECT * FROM schedules WHERE schedule_id = $1 FOR UPDATE', [scheduleId]);
+    if (result.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const schedule = { ...result.rows[0] };
+    if (changes.name !== undefined) schedule.name = changes.name;
+    if (changes.mode !== undefined) schedule.mode = changes.mode;
+    if (changes.signingMode !== undefined) schedule.signing_mode = changes.signingMode;
+    if (changes.notifyUrl !== undefined) schedule.notify_url = changes.notifyUrl;
+    if (changes.recurrence !== undefined || changes.scheduledAt !== undefined) {
+      schedule.recurrence = changes.recurrence !== undefined ? changes.recurrence : schedule.recurrence;
+      schedule.first_run_at = changes.scheduledAt ?? schedule.next_run_at ?? schedule.first_run_at;
+      schedule.next_run_at = schedule.first_run_at;
+      schedule.run_count = 0;
+      if (changes.scheduledAt && schedule.status === 'completed') schedule.status = 'active';
+    }
+    if (changes.status !== undefined) schedule.status = changes.status;
+
+    if (schedule.status === 'active') {
+      const now = new Date();
+      if (schedule.recurrence && !changes.scheduledAt && new Date(schedule.next_run_at) <= now) {
+        const { runCount, nextRunAt } = nextOccurrence(schedule, schedule.run_count, now);
+        schedule.run_count = runCount;
+        schedule.next_run_at = nextRunAt;
+      }
+      if (!schedule.next_run_at) {
+        throw invalidChangeError('This schedule has no run left; give it a new scheduledAt.');
+      }
+    }
+
+    await client.query(
+      `UPDATE schedules SET name = $1, mode = $2, signing_mode = $3, notify_url = $4, recurrence = $5,
+                            first_run_at = $6, next_run_at = $7, run_count = $8, status = $9, updated_at = NOW()
+       WHERE schedule_id = $10`,
+      [
+        schedule.name,
+        schedule.mode,
+        schedule.signing_mode,
+        schedule.notify_url,
+        schedule.recurrence,
+        schedule.first_run_at,
+        schedule.next_run_at,
+        schedule.run_count,
+        schedule.status,
+        scheduleId,
+      ]
+    );
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+  return getSchedule(scheduleId);
+}
+
+// Swaps the saved recipient list; runs already created keep theirs
+export async function replaceScheduleRecipients(scheduleId, recipients) {
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+    await client.query('DELETE FROM schedule_recipients WHERE schedule_id = $1', [scheduleId]);
+    await insertRecipients(client, scheduleId, recipients);
+    await client.query('UPDATE schedules SET updated_at = NOW() WHERE schedule_id = $1', [scheduleId]);
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+  return getSchedule(scheduleId);
+}
+
+// Deletes a schedule and its recipients; the jobs it ran are kept
+export async function deleteSchedule(scheduleId) {
+  const result = await query('DELETE FROM schedules WHERE schedule_id = $1', [scheduleId]);
+  return result.rowCount > 0;
+}
+
+/**
+ * Claims the most overdue active schedule and moves it past the occurrence it
+ * is about to run, so a run is never created twice, even by several servers.
+ * Returns the schedule as it was, or null if nothing is due.
+ */
+async function claimDueSchedule() {
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+    const result = await client.query(
+      `SELECT * FROM schedules
+       WHERE status = 'active' AND next_run_at <= NOW()
+       ORDER BY next_run_at
+       LIMIT 1
+       FOR UPDATE SKIP LOCKED`
+    );
+    if (result.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const schedule = result.rows[0];
+    const { runCount, nextRunAt, status } = advanceSchedule(schedule, new Date());
+    await client.query(
+      `UPDATE schedules SET run_count = $1, next_run_at = $2, status = $3, last_run_at = NOW(), updated_at = NOW()
+       WHERE schedule_id = $4`,
+      [runCount, nextRunAt, status, schedule.schedule_id]
+    );
+    await client.query('COMMIT');
+    return schedule;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+function isPrivateAddress(address) {
+  return PRIVATE_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+// dns.lookup that fails for hosts resolving to a private address, so the connection is made to the address checked
+function publicLookup(hostname, options, callback) {
+  lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err);
+    const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+    if (blocked) {
+      return callback(new Error(`${hostname} resolves to a private address (${blocked.address}).`));
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+// POSTs JSON to a public host without following redirects; resolves to the status code
+function postJson(target, payload) {
+  const url = new URL(target);
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && isPrivateAddress(host)) {
+    return Promise.reject(new Error(`${host} is a private address.`));
+  }
+
+  const body = JSON.stringify(payload);
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === 'https:' ? https : http).request(
+      url,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) },
+        lookup: publicLookup,
+        signal: AbortSignal.timeout(NOTIFY_TIMEOUT_MS),
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode);
+      }
+    );
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+// Tells the owner's endpoint that a run is waiting for their signature
+async function notifyOwner(schedule, run) {
+  try {
+    const status = await postJson(schedule.notify_url, {
+      event: 'schedule.run_created',
+      schedule_id: schedule.schedule_id,
+      name: schedule.name,
+      job_id: run.jobId,
+      scheduled_at: schedule.next_run_at,
+      signing_mode: schedule.signing_mode,
+      action: schedule.signing_mode === 'delegate' ? 'approve_delegate' : 'sign_transactions',
+      funding_status: run.fundingStatus,
+    });
+    if (status < 200 || status >= 300) {
+      console.error(`[Schedule ${schedule.schedule_id}]: Notification returned ${status}`);
+    }
+  } catch (err) {
+    console.error(`[Schedule ${schedule.schedule_id}]: Notification failed:`, err.message);
+  }
+}
+
+async function runDueSchedules(onScheduleDue) {
+  let schedule;
+  while ((schedule = await claimDueSchedule())) {
+    try {
+      const run = await onScheduleDue(schedule);
+      await query(
+        'UPDATE schedules SET last_job_id = $1, last_error = NULL, updated_at = NOW() WHERE schedule_id = $2',
+        [run.jobId, schedule.schedule_id]
+      );
+      console.log(`[Schedule ${schedule.schedule_id}]: Created job ${run.jobId}`);
+      if (schedule.notify_url) await notifyOwner(schedule, run);
+    } catch (err) {
+      console.error(`[Schedule ${schedule.schedule_id}]: Run failed:`, err.message);
+      await query('UPDATE schedules SET last_error = $1, updated_at = NOW() WHERE schedule_id = $2', [
+        `Run at ${new Date(schedule.next_run_at).toISOString()} failed: ${err.message}`.substring(0, 500),
+        schedule.schedule_id,
+      ]);
+    }
+  }
+}
+
+/**
+ * Starts the scheduler loop. `options.onScheduleDue(schedule)` creates the
+ * job of a due run and resolves to { jobId, fundingStatus }. Returns a
+ * function that stops the loop.
+ */
+export function startScheduler(options) {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow run
+    if (running) return;
+    running = true;
+    try {
+      await runDueSchedules(options.onScheduleDue);
+    } catch (err) {
+      console.error('Scheduler error:', err.message);
+    } finally {
+      running = false;
+    }
+  }, SCHEDULER_POLL_INTERVAL_MS);
+
+  return () => clearInterval(timer);
+}
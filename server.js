@@ -6,7 +6,7 @@
  * - PostgreSQL for scalability
  * - Wallet adapter (no private keys stored)
  * - Unsigned transaction building
- * - Sanctum Gateway integration
+ * - Sanctum Gateway integration, with RPC, Jito and mock delivery fallbacks
  * - Robust error handling
  * =============================================================================
  */
@@ -14,51 +14,594 @@
 import 'dotenv/config';
 import express from 'express';
 import multer from 'multer';
-import { parse } from 'csv-parse';
 import { randomUUID } from 'crypto';
-import { Readable } from 'stream';
+import { createReadStream } from 'fs';
+import { open, unlink } from 'fs/promises';
+import { tmpdir } from 'os';
+import { Connection, PublicKey, VersionedTransaction } from '@solana/web3.js';
+import cors from 'cors';
+import bs58 from 'bs58';
+import { initDatabase, query, closePool } from './db.js';
 import {
-  Connection,
-  PublicKey,
-  TransactionMessage,
-  VersionedTransaction,
-  ComputeBudgetProgram,
-} from '@solana/web3.js';
+  buildTransferTransactions,
+  collectLookupTableAddresses,
+  missingLookupTableAddresses,
+  isLookupTableStepTransaction,
+  addSimulationSetup,
+  buildLookupTableTransactions,
+  buildLookupTableDeactivateTransaction,
+  buildLookupTableCloseTransaction,
+  estimateCompiledTransactionCost,
+  LOOKUP_TABLE_COOLDOWN_SLOTS,
+} from './transactions.js';
 import {
-  getAssociatedTokenAddress,
-  createAssociatedTokenAccountInstruction,
-  createTransferInstruction,
-  getMint,
-} from '@solana/spl-token';
-import cors from 'cors';
-import { initDatabase, query, getClient, closePool } from './db.js';
+  loadMint,
+  calculateTransfer,
+  describeMint,
+  getJobTokenProgramId,
+  TRANSFER_FEE_MODES,
+} from './tokens.js';
+import { simulateBatches, estimateJobCost } from './simulation.js';
+import { fetchDistributorBalances, calculateRequirement, summarizeFunding } from './funding.js';
+import { startConfirmationTracker, completeJobIfDone } from './tracker.js';
+import {
+  DUPLICATE_MODES,
+  readRecipientRows,
+  detectFormat,
+  parseColumnMapping,
+  validateRecipientRows,
+  applyDuplicatePolicy,
+  fromSmallestUnit,
+} from './recipients.js';
+import {
+  SIGNING_MODES,
+  createDelegateKeypair,
+  loadDelegateKeypair,
+  buildApproveTransaction,
+  buildRevokeTransaction,
+  delegateApprovalInstructions,
+  fetchDelegateBalances,
+  getDelegateFunding,
+  settleDelegation,
+} from './delegate.js';
+import {
+  openRecipientStaging,
+  closeRecipientStaging,
+  stageRecipientFile,
+  stageScheduleRecipients,
+  applyStagedDuplicatePolicy,
+  countStagedRecipients,
+  stagedRecipientChunks,
+  hashStagedRecipients,
+  ingestJobTasks,
+  failInterruptedIngestions,
+} from './ingestion.js';
+import { publishJobChange, subscribeToJob } from './events.js';
+import { TASK_FIELDS, parseTaskListOptions, listTasks, listTaskEvents } from './tasks.js';
+import {
+  parseJobListOptions,
+  listJobs,
+  cancelJob,
+  pauseJob,
+  resumeJob,
+  parseFeeBudget,
+  reserveJobFees,
+  releaseJobFees,
+  setJobFeeBudget,
+} from './jobs.js';
+import { REPORT_FORMATS, recordTransactionDetails, streamJobReport } from './reports.js';
+import {
+  createSignInNonce,
+  consumeSignInNonce,
+  verifyWalletSignature,
+  createSession,
+  deleteSession,
+  authenticate,
+  createStreamToken,
+  authenticateStreamToken,
+  requireSession,
+  requireJobAccess,
+  requireScheduleOwner,
+  createShareLink,
+  revokeShareLinks,
+} from './auth.js';
+import {
+  parseScheduleChanges,
+  createSchedule,
+  listSchedules,
+  getSchedule,
+  updateSchedule,
+  replaceScheduleRecipients,
+  deleteSchedule,
+  startScheduler,
+} from './schedules.js';
+import {
+  DELIVERY_PROVIDERS,
+  isDeliveryProviderAvailable,
+  resolveDeliveryProvider,
+  listDeliveryProviders,
+  deliveryInstructions,
+  deliverTransaction,
+  describeDeliveryConfig,
+} from './delivery.js';
+import {
+  isBuiltInMode,
+  parseModeProfile,
+  applyModeProfileChanges,
+  listModeProfiles,
+  getModeProfile,
+  createModeProfile,
+  updateModeProfile,
+  deleteModeProfile,
+  jobModeProfile,
+  resolveComputeUnitPrice,
+} from './modes.js';
+import {
+  waitForSendSlot,
+  recordSendOutcome,
+  enqueueSignedBatch,
+  startSubmissionWorkers,
+  describeSubmissionConfig,
+} from './submitter.js';
+import { recoverStaleTasks, startStaleTaskRecovery } from './recovery.js';
 
 // --- Configuration ---
 const PORT = process.env.PORT || 4000;
 const MAX_RETRIES = 3;
-const RATE_LIMIT_DELAY_MS = 350;
+const MAX_TRANSACTIONS_PER_REQUEST = 10;
+const MAX_TASKS_PER_REQUEST = 250;
+// A dry run simulates the job's first transactions only, so one request stays bounded on a large job
+const MAX_DRY_RUN_TASKS = 2000;
+const MAX_DRY_RUN_TRANSACTIONS = 100;
+// How long a wallet has to sign a handed-out batch before its tasks can be handed out again
+const SIGNING_CLAIM_TTL_SECONDS = 120;
+// Window for batching change notifications into one SSE push, and the keep-alive interval
+const JOB_EVENTS_FLUSH_MS = 250;
+const JOB_EVENTS_HEARTBEAT_MS = 15000;
 
 const SOLANA_RPC_URL = process.env.SOLANA_RPC_URL;
-const GATEWAY_API_URL_BASE = `https://tpg.sanctum.so/v1/${process.env.SOLANA_CLUSTER}`;
-const SANCTUM_API_KEY = process.env.SANCTUM_API_KEY;
-const GATEWAY_API_URL = `${GATEWAY_API_URL_BASE}?apiKey=${SANCTUM_API_KEY}`;
 
 // --- Utility Functions ---
-function toSmallestUnit(amount, decimals) {
-  const amountStr = String(amount);
-  const [whole, fraction = ''] = amountStr.split('.');
-  const paddedFraction = fraction.padEnd(decimals, '0').slice(0, decimals);
-  const smallestUnitStr = whole + paddedFraction;
-  return BigInt(smallestUnitStr);
+// Fetches the job's lookup table, or null until it has been created
+async function loadJobLookupTable(connection, job) {
+  if (job.lookup_table_status !== 'active') {
+    return null;
+  }
+  const lookupTableResult = await connection.getAddressLookupTable(new PublicKey(job.lookup_table_address));
+  return lookupTableResult.value;
+}
+
+/**
+ * Live funding check for a running job: the stored requirement scaled down to
+ * the tasks that have not been sent yet, against current balances. Returns
+ * null if the balances cannot be fetched so job status still loads.
+ */
+async function fetchJobFunding(job, totalTasks) {
+  if (!job.required_token_amount || !job.total_amount || totalTasks === 0) {
+    return null;
+  }
+
+  try {
+    const remainingResult = await query(
+      `SELECT COUNT(*) AS count, COALESCE(SUM(amount::numeric), 0)::text AS amount
+       FROM tasks WHERE job_id = $1 AND status IN ('pending', 'signing', 'queued', 'processing')`,
+      [job.job_id]
+    );
+    const remainingAmount = BigInt(remainingResult.rows[0].amount);
+    const remainingCount = BigInt(remainingResult.rows[0].count);
+    const totalAmount = BigInt(job.total_amount);
+
+    // Exact for tokens unless the distributor covers transfer fees, where the fee share is prorated
+    const requirement = {
+      tokens: totalAmount > BigInt(0) ? (remainingAmount * BigInt(job.required_token_amount)) / totalAmount : BigInt(0),
+      lamports: (BigInt(job.required_lamports) * remainingCount) / BigInt(totalTasks),
+    };
+
+    const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
+    const balances = await fetchDistributorBalances(
+      connection,
+      new PublicKey(job.distributor_address),
+      new PublicKey(job.token_mint_address),
+      getJobTokenProgramId(job)
+    );
+
+    return { funding_status: job.funding_status, ...summarizeFunding(requirement, balances) };
+  } catch (err) {
+    console.error(`[Job ${job.job_id}]: Failed to check funding:`, err.message);
+    return null;
+  }
+}
+
+// Sends a wallet-signed setup transaction over RPC and waits for confirmation
+async function sendAndConfirmRawTransaction(connection, txBase64) {
+  const signedTx = VersionedTransaction.deserialize(Buffer.from(txBase64, 'base64'));
+  const signature = await connection.sendRawTransaction(signedTx.serialize());
+  const { lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+  const confirmation = await connection.confirmTransaction(
+    { signature, blockhash: signedTx.message.recentBlockhash, lastValidBlockHeight },
+    'confirmed'
+  );
+  if (confirmation.value.err) {
+    throw new Error(`Transaction ${signature} failed: ${JSON.stringify(confirmation.value.err)}`);
+  }
+  return signature;
+}
+
+// Whether a signed transaction already went through, so a resubmitted set can skip it
+async function hasLanded(connection, txBase64) {
+  const signedTx = VersionedTransaction.deserialize(Buffer.from(txBase64, 'base64'));
+  const {
+    value: [status],
+  } = await connection.getSignatureStatuses([bs58.encode(signedTx.signatures[0])], { searchTransactionHistory: true });
+  return Boolean(status && !status.err && status.confirmationStatus !== 'processed');
+}
+
+// The job's lookup table while it is still being filled, or null if its create has not landed
+async function loadPendingLookupTable(connection, job) {
+  if (!job.lookup_table_address) {
+    return null;
+  }
+  const lookupTableResult = await connection.getAddressLookupTable(new PublicKey(job.lookup_table_address));
+  return lookupTableResult.value;
+}
+
+// Why a job refuses new signing work, or null while it accepts it
+function jobHaltedReason(job) {
+  if (job.status === 'cancelled') return 'Job has been cancelled.';
+  if (job.status === 'paused') return 'Job is paused. Resume it to continue.';
+  return null;
+}
+
+// Who a job's signing work is attributed to in task history
+const signingActor = (job) => (job.signing_mode === 'delegate' ? 'delegate' : `wallet:${job.distributor_address}`);
+
+// Puts claimed tasks back in the queue if they were never signed
+async function releaseSigningTasks(jobId, taskIds) {
+  if (taskIds.length === 0) return;
+  const result = await query(
+    `UPDATE tasks SET status = $1, batch_id = NULL, signing_expires_at = NULL, status_actor = $4, updated_at = NOW()
+     WHERE task_id = ANY($2) AND status = $3
+     RETURNING task_id`,
+    ['pending', taskIds, 'signing', 'signing']
+  );
+  publishJobChange(jobId, result.rows.map((row) => row.task_id));
+}
+
+/**
+ * Claims the next pending tasks of a job, packs them into unsigned
+ * transactions with a fresh blockhash and assigns each transaction a batch id,
+ * in the shape the wallet signing loop expects. Claimed tasks move to
+ * `signing` so overlapping requests never hand out the same task twice; a
+ * claim the wallet abandons is handed out again once it expires.
+ */
+async function prepareUnsignedTransactions(connection, job) {
+  const claimResult = await query(
+    `UPDATE tasks SET status = $1, batch_id = NULL,
+            signing_expires_at = NOW() + make_interval(secs => $2), status_actor = $6, updated_at = NOW()
+     WHERE task_id IN (
+       SELECT task_id FROM tasks
+       WHERE job_id = $3 AND (status = $4 OR (status = $1 AND signing_expires_at < NOW()))
+       ORDER BY task_id
+       LIMIT $5
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`,
+    ['signing', SIGNING_CLAIM_TTL_SECONDS, job.job_id, 'pending', MAX_TASKS_PER_REQUEST, signingActor(job)]
+  );
+  const tasks = claimResult.rows.sort((a, b) => a.task_id - b.task_id);
+  if (tasks.length === 0) {
+    return [];
+  }
+
+  let batches;
+  try {
+    // Compile against the job's lookup table once it has been created
+    const lookupTable = await loadJobLookupTable(connection, job);
+
+    // Delegate jobs are signed and paid for by the delegate
+    const authority = job.signing_mode === 'delegate' ? new PublicKey(job.delegate_address) : undefined;
+    const payer = authority ?? new PublicKey(job.distributor_address);
+    const profile = jobModeProfile(job);
+
+    // Cap the transactions per request to avoid overwhelming wallet
+    ({ batches } = await buildTransferTransactions(connection, job, tasks, {
+      maxTransactions: MAX_TRANSACTIONS_PER_REQUEST,
+      lookupTable,
+      authority,
+      extraInstructions: deliveryInstructions(job, payer),
+      computeUnitPrice: await resolveComputeUnitPrice(connection, profile, [payer]),
+      maxComputeUnits: profile.compute_unit_limit,
+    }));
+  } catch (err) {
+    await releaseSigningTasks(job.job_id, tasks.map((task) => task.task_id));
+    throw err;
+  }
+
+  // Tasks that did not fit into this round go back to the queue
+  const batchedTaskIds = new Set(batches.flatMap((batch) => batch.tasks.map((task) => task.task_id)));
+  await releaseSigningTasks(
+    job.job_id,
+    tasks.filter((task) => !batchedTaskIds.has(task.task_id)).map((task) => task.task_id)
+  );
+
+  const unsignedTransactions = [];
+
+  for (const batch of batches) {
+    const batchId = randomUUID();
+    const taskIds = batch.tasks.map((task) => task.task_id);
+
+    // Tie every task in the packed transaction to the same batch
+    await query(
+      'UPDATE tasks SET batch_id = $1, updated_at = NOW() WHERE task_id = ANY($2)',
+      [batchId, taskIds]
+    );
+
+    // Convert to base64 for frontend
+    const txBase64 = Buffer.from(batch.transaction.serialize()).toString('base64');
+
+    unsignedTransactions.push({
+      batch_id: batchId,
+      task_ids: taskIds,
+      recipients: batch.tasks.map((task) => task.recipient_address),
+      amount: batch.tasks.reduce((sum, task) => sum + BigInt(task.amount), BigInt(0)).toString(),
+      transaction: txBase64,
+    });
+  }
+
+  publishJobChange(job.job_id, [...batchedTaskIds]);
+  return unsignedTransactions;
+}
+
+// Validation report for API responses: counts plus every rejected row and warning. A staged list has only its count.
+function summarizeValidation({ recipients, validRows = recipients.length, rejected, warnings }) {
+  return {
+    total_rows: validRows + rejected.length,
+    valid_rows: validRows,
+    rejected_rows: rejected.length,
+    rejected,
+    warnings,
+  };
+}
+
+// Summary of a job already created for this idempotency key, or null
+async function findJobByIdempotencyKey(distributorAddress, idempotencyKey) {
+  const jobResult = await query(
+    `SELECT j.job_id, j.status, j.mode, j.token_decimals, j.total_amount, j.signing_mode, j.delegate_address,
+            COALESCE(j.expected_tasks, (SELECT COUNT(*) FROM tasks t WHERE t.job_id = j.job_id)) AS total_tasks
+     FROM jobs j WHERE j.distributor_address = $1 AND j.idempotency_key = $2`,
+    [distributorAddress, idempotencyKey]
+  );
+  const job = jobResult.rows[0];
+  if (!job) {
+    return null;
+  }
+  return {
+    message: 'Job already created for this idempotency key.',
+    idempotent_replay: true,
+    job_id: job.job_id,
+    job_status: job.status,
+    total_tasks: parseInt(job.total_tasks),
+    total_amount: job.total_amount,
+    token_decimals: job.token_decimals,
+    mode: job.mode,
+    signing_mode: job.signing_mode,
+    delegate_address: job.delegate_address,
+  };
+}
+
+// Tasks still waiting to be handed out for signing
+async function countPendingTasks(jobId) {
+  const result = await query('SELECT COUNT(*) FROM tasks WHERE job_id = $1 AND status = $2', [jobId, 'pending']);
+  return parseInt(result.rows[0].count);
+}
+
+/**
+ * Turns a batch away because sending it would overspend the job's fee budget:
+ * its tasks go back to the queue and the job is paused until the owner raises
+ * the budget and resumes it.
+ */
+async function stopAtFeeBudget(job, batchId, taskIds) {
+  await query(
+    `UPDATE tasks SET status = $1, batch_id = NULL, signed_transaction = NULL, status_actor = $3, updated_at = NOW()
+     WHERE task_id = ANY($2)`,
+    ['pending', taskIds, 'fee-budget']
+  );
+  publishJobChange(job.job_id, taskIds);
+
+  const error = `Fee budget of ${job.fee_budget_lamports} lamports reached; raise it to continue.`;
+  await pauseJob(job.job_id, error, 'fee-budget');
+  return { batch_id: batchId, task_ids: taskIds, status: 'failed', error };
+}
+
+/**
+ * Sends a batch whose tasks are already `processing` and records the outcome
+ * on them. Every task packed into the transaction shares that outcome. Its
+ * estimated cost counts against the job's fee budget from the moment it is
+ * sent. A failure that may have sent the transaction anyway leaves the tasks
+ * `sent` for the tracker to settle; any other is offered to `requeue` before
+ * the tasks are marked failed.
+ */
+async function sendClaimedBatch(connection, job, batchId, taskIds, transaction, { signer, requeue } = {}) {
+  const job_id = job.job_id;
+  let reservedFees = null;
+  // The last transaction handed to the network, once recorded
+  let attempt = null;
+  try {
+    const cost = estimateCompiledTransactionCost(
+      VersionedTransaction.deserialize(Buffer.from(transaction, 'base64'))
+    ).total;
+    if (!(await reserveJobFees(job_id, cost))) {
+      return await stopAtFeeBudget(job, batchId, taskIds);
+    }
+    reservedFees = cost;
+
+    await waitForSendSlot();
+    // Recorded before the bytes go out, so crash recovery can look the transaction up
+    const recordSendAttempt = async (sending) => {
+      await query(
+        `UPDATE tasks SET tx_signature = $1, last_valid_block_height = $2, updated_at = NOW()
+         WHERE task_id = ANY($3)`,
+        [sending.signature, sending.lastValidBlockHeight, taskIds]
+      );
+      attempt = sending;
+    };
+    const { signature, lastValidBlockHeight, provider } = await deliverTransaction(
+      connection,
+      job,
+      batchId,
+      transaction,
+      signer,
+      recordSendAttempt
+    );
+    recordSendOutcome(null);
+
+    // Update tasks as sent; the confirmation tracker follows them from here
+    await query(
+      `UPDATE tasks SET status = $1, tx_signature = $2, last_valid_block_height = $3,
+              sent_at = NOW(), error_message = NULL, signed_transaction = NULL, status_actor = $5, updated_at = NOW()
+       WHERE task_id = ANY($4)`,
+      ['sent', signature, lastValidBlockHeight, taskIds, 'submitter']
+    );
+    publishJobChange(job_id, taskIds);
+
+    console.log(`[Job ${job_id}]: Batch ${batchId} (${taskIds.length} tasks) sent via ${provider}. Signature: ${signature}`);
+    return { batch_id: batchId, task_ids: taskIds, status: 'sent', signature };
+  } catch (err) {
+    console.error(`[Job ${job_id}]: Batch ${batchId} failed:`, err.message);
+    recordSendOutcome(err);
+
+    // A transaction that never left costs nothing
+    if (reservedFees !== null && err.unsent) {
+      await releaseJobFees(job_id, reservedFees);
+    }
+
+    // The bytes may be out there; retrying now could pay twice, so the tracker waits out the blockhash
+    if (attempt && !err.unsent) {
+      await query(
+        `UPDATE tasks SET status = $1, sent_at = NOW(), error_message = $2, signed_transaction = NULL,
+                status_actor = $4, updated_at = NOW()
+         WHERE task_id = ANY($3)`,
+        ['sent', `Send outcome unknown: ${err.message}`.substring(0, 500), taskIds, 'submitter']
+      );
+      publishJobChange(job_id, taskIds);
+      return { batch_id: batchId, task_ids: taskIds, status: 'sent', signature: attempt.signature, error: err.message };
+    }
+
+    if (requeue && (await requeue(err))) {
+      return { batch_id: batchId, task_ids: taskIds, status: 'queued', error: err.message };
+    }
+
+    // Update tasks as failed
+    await query(
+      `UPDATE tasks SET status = $1, error_message = $2, retry_count = retry_count + 1,
+              signed_transaction = NULL, status_actor = $4, updated_at = NOW()
+       WHERE task_id = ANY($3)`,
+      ['failed', err.message.substring(0, 500), taskIds, 'submitter']
+    );
+    publishJobChange(job_id, taskIds);
+
+    return { batch_id: batchId, task_ids: taskIds, status: 'failed', error: err.message };
+  }
+}
+
+/**
+ * Sends one handed-out batch straight away, for delegate jobs, which sign
+ * their own batches in the background.
+ */
+async function submitBatch(connection, job, batchId, transaction, { signer } = {}) {
+  // Moving the tasks from signing to processing in one statement means a batch is only sent once
+  const batchTasks = await query(
+    `UPDATE tasks SET status = $1, signing_expires_at = NULL, status_actor = $5, updated_at = NOW()
+     WHERE job_id = $2 AND batch_id = $3 AND status = $4
+     RETURNING task_id`,
+    ['processing', job.job_id, batchId, 'signing', 'submitter']
+  );
+  const taskIds = batchTasks.rows.map((row) => row.task_id).sort((a, b) => a - b);
+  publishJobChange(job.job_id, taskIds);
+
+  if (taskIds.length === 0) {
+    return {
+      batch_id: batchId,
+      task_ids: [],
+      status: 'failed',
+      error: 'Unknown batch, or it was already submitted or its signing window expired.',
+    };
+  }
+  return sendClaimedBatch(connection, job, batchId, taskIds, transaction, { signer });
+}
+
+// Delegate jobs being signed and sent by this process
+const activeDelegateJobs = new Set();
+
+/**
+ * Signs and sends every pending task of a delegate job in the background,
+ * round by round, then winds the delegation down if nothing is left in flight.
+ */
+async function runDelegateJob(jobId) {
+  if (activeDelegateJobs.has(jobId)) return;
+  activeDelegateJobs.add(jobId);
+
+  const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
+  try {
+    while (true) {
+      const jobResult = await query('SELECT * FROM jobs WHERE job_id = $1', [jobId]);
+      const job = jobResult.rows[0];
+      if (!job || job.status !== 'running' || job.delegate_status !== 'approved') break;
+
+      const signer = loadDelegateKeypair(job);
+      const transactions = await prepareUnsignedTransactions(connection, job);
+      if (transactions.length === 0) break;
+
+      // Paced by the shared send limiter
+      for (const item of transactions) {
+        await submitBatch(connection, job, item.batch_id, item.transaction, { signer });
+      }
+    }
+
+    if (await completeJobIfDone(jobId)) {
+      await finishDelegateJob(jobId);
+    }
+  } catch (err) {
+    console.error(`[Job ${jobId}]: Delegate signer stopped:`, err.message);
+    await query('UPDATE jobs SET error_message = $1, updated_at = NOW() WHERE job_id = $2', [
+      `Delegate signer stopped: ${err.message}`.substring(0, 500),
+      jobId,
+    ]);
+  } finally {
+    activeDelegateJobs.delete(jobId);
+  }
+}
+
+// Revokes or flags the delegation of a delegate job that has just ended
+async function finishDelegateJob(jobId) {
+  try {
+    const jobResult = await query('SELECT * FROM jobs WHERE job_id = $1', [jobId]);
+    if (jobResult.rows[0]?.signing_mode === 'delegate') {
+      await settleDelegation(new Connection(SOLANA_RPC_URL, 'confirmed'), jobResult.rows[0]);
+    }
+  } catch (err) {
+    console.error(`[Job ${jobId}]: Failed to settle delegation:`, err.message);
+  }
 }
 
 // --- Express App Setup ---
 const app = express();
 app.use(cors());
 app.use(express.json());
+app.use(authenticate);
 
-const storage = multer.memoryStorage();
-const upload = multer({ storage: storage });
+// Uploads are spooled to disk and streamed into the parser rather than held in memory
+const upload = multer({ dest: tmpdir() });
+
+// Deletes the spooled upload once the response has gone out
+function removeUploadWhenDone(req, res, next) {
+  res.on('close', () => {
+    if (req.file) {
+      unlink(req.file.path).catch((err) => console.error('Error removing upload:', err.message));
+    }
+  });
+  next();
+}
 
 // --- API Endpoints ---
 
@@ -70,20 +613,258 @@ app.get('/api/health', (req, res) => {
   });
 });
 
+// Delivery providers a job can pick, and whether this server has each configured
+app.get('/api/delivery-providers', (req, res) => {
+  res.status(200).json({ providers: listDeliveryProviders() });
+});
+
+/**
+ * Sign-in, step 1: a one-time nonce and the message for the wallet to sign
+ */
+app.post('/api/auth/nonce', async (req, res) => {
+  const { wallet } = req.body;
+
+  if (!wallet) {
+    return res.status(400).json({ error: 'wallet is required.' });
+  }
+  try {
+    new PublicKey(wallet);
+  } catch {
+    return res.status(400).json({ error: 'Invalid wallet address.' });
+  }
+
+  try {
+    res.status(200).json(await createSignInNonce(wallet));
+  } catch (err) {
+    console.error(`Error creating sign-in nonce:`, err);
+    res.status(500).json({ error: `Failed to create sign-in nonce: ${err.message}` });
+  }
+});
+
+/**
+ * Sign-in, step 2: exchanges the signed message (base64 signature) for a
+ * session token, sent back as `Authorization: Bearer <token>`
+ */
+app.post('/api/auth/session', async (req, res) => {
+  const { wallet, nonce, signature } = req.body;
+
+  if (!wallet || !nonce || !signature) {
+    return res.status(400).json({ error: 'wallet, nonce and signature are required.' });
+  }
+  let walletAddress;
+  try {
+    walletAddress = new PublicKey(wallet).toBase58();
+  } catch {
+    return res.status(400).json({ error: 'Invalid wallet address.' });
+  }
+
+  try {
+    const message = await consumeSignInNonce(walletAddress, String(nonce));
+    if (!message) {
+      return res.status(401).json({ error: 'Sign-in nonce is unknown or expired. Please try again.' });
+    }
+    if (!verifyWalletSignature(walletAddress, message, Buffer.from(String(signature), 'base64'))) {
+      return res.status(401).json({ error: 'Signature does not match the wallet.' });
+    }
+
+    res.status(200).json(await createSession(walletAddress));
+  } catch (err) {
+    console.error(`Error signing in:`, err);
+    res.status(500).json({ error: `Failed to sign in: ${err.message}` });
+  }
+});
+
+app.get('/api/auth/session', requireSession, (req, res) => {
+  res.status(200).json({ wallet: req.auth.wallet, expires_at: req.auth.expires_at });
+});
+
+app.delete('/api/auth/session', requireSession, async (req, res) => {
+  try {
+    await deleteSession(req.auth.token);
+    res.status(200).json({ message: 'Signed out.' });
+  } catch (err) {
+    console.error(`Error signing out:`, err);
+    res.status(500).json({ error: `Failed to sign out: ${err.message}` });
+  }
+});
+
+// Format and column mapping for an uploaded recipient list; throws on bad input
+async function resolveRecipientUpload(req) {
+  const file = await open(req.file.path);
+  try {
+    const { buffer, bytesRead } = await file.read(Buffer.alloc(1024), 0, 1024, 0);
+    return {
+      format: detectFormat(req.file.originalname, buffer.subarray(0, bytesRead), req.body.format),
+      mapping: parseColumnMapping(req.body.columnMapping),
+    };
+  } finally {
+    await file.close();
+  }
+}
+
+/**
+ * Validates a recipient list against the mint without creating a job, so the
+ * operator can fix the file or knowingly proceed
+ */
+app.post('/api/validate-recipients', upload.single('csvFile'), removeUploadWhenDone, async (req, res) => {
+  const { tokenMintAddress } = req.body;
+
+  if (!req.file) {
+    return res.status(400).json({ error: 'No recipient file uploaded.' });
+  }
+
+  let tokenMintPubkey;
+  try {
+    tokenMintPubkey = new PublicKey(tokenMintAddress);
+  } catch (err) {
+    return res.status(400).json({ error: 'Invalid address format.' });
+  }
+
+  let upload;
+  try {
+    upload = await resolveRecipientUpload(req);
+  } catch (err) {
+    return res.status(400).json({ error: `Invalid recipient file options: ${err.message}` });
+  }
+
+  try {
+    const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
+    const mintInfo = await loadMint(connection, tokenMintPubkey);
+    const rows = await readRecipientRows(createReadStream(req.file.path), upload);
+
+    res.status(200).json(summarizeValidation(validateRecipientRows(rows, mintInfo.decimals)));
+  } catch (err) {
+    console.error(`Error validating recipients:`, err);
+    res.status(500).json({ error: `Failed to validate recipients: ${err.message}` });
+  }
+});
+
+// What a staged recipient list sends in total, and the Token-2022 transfer fees it incurs
+async function sumTransfers(mintInfo, staging, epoch, transferFeeMode) {
+  let totalAmount = BigInt(0);
+  let totalTransferFees = BigInt(0);
+  for await (const tasks of stagedRecipientChunks(staging)) {
+    for (const task of tasks) {
+      totalAmount += BigInt(task.amount);
+      totalTransferFees += calculateTransfer(mintInfo, BigInt(task.amount), epoch, transferFeeMode).fee;
+    }
+  }
+  return { totalAmount, totalTransferFees };
+}
+
+// Compares what a staged job needs with the distributor's balances
+async function assessFunding(connection, mintInfo, distributorPubkey, staging, epoch, transferFeeMode, profile) {
+  const requirement = await calculateRequirement(connection, mintInfo, stagedRecipientChunks(staging), {
+    epoch,
+    feeMode: transferFeeMode,
+    computeUnitPrice: await resolveComputeUnitPrice(connection, profile, [distributorPubkey]),
+  });
+  const balances = await fetchDistributorBalances(connection, distributorPubkey, mintInfo.address, mintInfo.programId);
+  return { requirement, funding: summarizeFunding(requirement, balances) };
+}
+
+/**
+ * Inserts a job as `ingesting`; its tasks are loaded separately. The job
+ * keeps a copy of its mode `profile`. Delegate jobs get their own keypair,
+ * approved for exactly what the job sends, which is returned.
+ */
+async function insertJob(job) {
+  const delegate = job.signingMode === 'delegate' ? createDelegateKeypair(job.jobId) : null;
+
+  await query(
+    `INSERT INTO jobs (job_id, token_mint_address, token_decimals, distributor_address, mode, status,
+                       lookup_table_status, token_program_id, token_extensions, transfer_fee_mode,
+                       total_amount, required_token_amount, required_lamports, funding_status,
+                       signing_mode, delegate_address, delegate_approved_amount, delegate_status, delegate_keystore,
+                       content_hash, idempotency_key, duplicate_handling, expected_tasks, ingested_tasks,
+                       schedule_id, scheduled_at, delivery_provider, mode_profile, fee_budget_lamports)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22,
+             $23, $24, $25, $26, $27, $28, $29)`,
+    [
+      job.jobId,
+      job.tokenMintAddress,
+      job.mintInfo.decimals,
+      job.distributorAddress,
+      job.mode,
+      'ingesting',
+      job.lookupTableStatus,
+      job.mintInfo.programId.toBase58(),
+      JSON.stringify(job.mintInfo.extensions),
+      job.transferFeeMode,
+      job.totalAmount.toString(),
+      job.requirement.tokens.toString(),
+      job.requirement.lamports.toString(),
+      job.funding.funded ? 'funded' : 'underfunded',
+      job.signingMode,
+      delegate?.keypair.publicKey.toBase58() ?? null,
+      delegate ? job.requirement.tokens.toString() : null,
+      delegate ? 'created' : null,
+      delegate?.keystore ?? null,
+      job.contentHash,
+      job.idempotencyKey ?? null,
+      job.duplicateHandling,
+      job.taskCount,
+      0,
+      job.scheduleId ?? null,
+      job.scheduledAt ?? null,
+      job.deliveryProvider ?? null,
+      JSON.stringify(job.profile),
+      job.feeBudget?.toString() ?? null,
+    ]
+  );
+
+  return delegate;
+}
+
 /**
  * Step 1: Create job and return unsigned transactions
  */
-app.post('/api/create-job', upload.single('csvFile'), async (req, res) => {
-  const { tokenMintAddress, distributorAddress, mode } = req.body;
+app.post('/api/create-job', requireSession, upload.single('csvFile'), removeUploadWhenDone, async (req, res) => {
+  const { tokenMintAddress, distributorAddress, mode, useLookupTable } = req.body;
+  const transferFeeMode = req.body.transferFeeMode || 'gross';
+  const allowUnderfunded = req.body.allowUnderfunded === 'true';
+  const signingMode = req.body.signingMode || 'wallet';
+  const duplicateHandling = req.body.duplicateHandling || 'merge';
+  const allowDuplicateJob = req.body.allowDuplicateJob === 'true';
+  const idempotencyKey = req.get('Idempotency-Key') || req.body.idempotencyKey || null;
+  const acceptInvalidRows = req.body.acceptInvalidRows === 'true';
+  // Unset means the server's default provider
+  const deliveryProvider = req.body.deliveryProvider || null;
+
+  let feeBudget;
+  try {
+    feeBudget = parseFeeBudget(req.body.feeBudgetLamports);
+  } catch (err) {
+    return res.status(400).json({ error: err.message });
+  }
 
   if (!req.file) {
-    return res.status(400).json({ error: 'No CSV file uploaded.' });
+    return res.status(400).json({ error: 'No recipient file uploaded.' });
   }
   if (!tokenMintAddress || !distributorAddress || !mode) {
     return res.status(400).json({ error: 'Missing required fields.' });
   }
-  if (mode !== 'cost-saver' && mode !== 'high-assurance') {
-    return res.status(400).json({ error: 'Invalid mode.' });
+  if (!TRANSFER_FEE_MODES.includes(transferFeeMode)) {
+    return res.status(400).json({ error: 'Invalid transfer fee mode.' });
+  }
+  if (!SIGNING_MODES.includes(signingMode)) {
+    return res.status(400).json({ error: 'Invalid signing mode.' });
+  }
+  if (!DUPLICATE_MODES.includes(duplicateHandling)) {
+    return res.status(400).json({ error: 'Invalid duplicate handling.' });
+  }
+  if (deliveryProvider && !DELIVERY_PROVIDERS.includes(deliveryProvider)) {
+    return res.status(400).json({ error: 'Invalid delivery provider.' });
+  }
+  if (deliveryProvider && !isDeliveryProviderAvailable(deliveryProvider)) {
+    return res.status(400).json({ error: `Delivery provider "${deliveryProvider}" is not configured on this server.` });
+  }
+
+  let upload;
+  try {
+    upload = await resolveRecipientUpload(req);
+  } catch (err) {
+    return res.status(400).json({ error: `Invalid recipient file options: ${err.message}` });
   }
 
   let tokenMintPubkey, distributorPubkey;
@@ -93,418 +874,1616 @@ app.post('/api/create-job', upload.single('csvFile'), async (req, res) => {
   } catch (err) {
     return res.status(400).json({ error: 'Invalid address format.' });
   }
+  if (distributorPubkey.toBase58() !== req.auth.wallet) {
+    return res.status(403).json({ error: 'The distributor must be the signed-in wallet.' });
+  }
 
   const jobId = randomUUID();
-  const csvBuffer = req.file.buffer;
+  const lookupTableStatus = useLookupTable === 'true' ? 'pending' : null;
+  // The staged recipient list, until ingestion takes it over
+  let staging = null;
+
+  try {
+    // A retried upload with the same idempotency key gets the job it already created
+    if (idempotencyKey) {
+      const existing = await findJobByIdempotencyKey(distributorAddress, idempotencyKey);
+      if (existing) {
+        return res.status(200).json(existing);
+      }
+    }
+
+    const profile = await getModeProfile(req.auth.wallet, mode);
+    if (!profile) {
+      return res.status(400).json({ error: `Unknown mode "${mode}".` });
+    }
+
+    const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
+
+    // Detect the token program, decimals and Token-2022 extensions
+    const mintInfo = await loadMint(connection, tokenMintPubkey);
+    const tokenDecimals = mintInfo.decimals;
+    const epoch = mintInfo.transferFeeConfig
+      ? BigInt((await connection.getEpochInfo('confirmed')).epoch)
+      : BigInt(0);
+
+    // Stream the recipient list into staging, validating it as it goes
+    staging = await openRecipientStaging();
+    const validation = await stageRecipientFile(staging, createReadStream(req.file.path), upload, tokenDecimals);
+
+    if (validation.validRows === 0) {
+      return res.status(400).json({ error: 'No valid tasks found in the recipient list.', validation: summarizeValidation(validation) });
+    }
+    // Rejected rows are only skipped once the operator has seen them
+    if (validation.rejected.length > 0 && !acceptInvalidRows) {
+      return res.status(400).json({
+        error: `${validation.rejected.length} of ${validation.validRows + validation.rejected.length} rows in the recipient list are invalid.`,
+        validation: summarizeValidation(validation),
+      });
+    }
+
+    // Repeated addresses are merged, kept as separate transfers or refused
+    const duplicates = await applyStagedDuplicatePolicy(staging, duplicateHandling);
+    if (duplicateHandling === 'reject' && duplicates.length > 0) {
+      return res.status(400).json({
+        error: `Recipient list repeats ${duplicates.length} addresses.`,
+        duplicates,
+      });
+    }
+
+    const taskCount = await countStagedRecipients(staging);
+    const { totalAmount, totalTransferFees } = await sumTransfers(mintInfo, staging, epoch, transferFeeMode);
+
+    // The same payouts from the same wallet are almost certainly a double upload
+    const contentHash = await hashStagedRecipients(staging);
+    const matchingJob = await query(
+      `SELECT job_id, status, created_at FROM jobs
+       WHERE token_mint_address = $1 AND distributor_address = $2 AND content_hash = $3
+         AND status NOT IN ('failed', 'cancelled')
+       ORDER BY created_at DESC LIMIT 1`,
+      [tokenMintAddress, distributorAddress, contentHash]
+    );
+    const duplicateOf = matchingJob.rows[0] || null;
+    if (duplicateOf && !allowDuplicateJob) {
+      return res.status(409).json({
+        error: `A job with the same recipients and amounts already exists for this mint and distributor (${duplicateOf.job_id}).`,
+        duplicate_of: duplicateOf.job_id,
+      });
+    }
+
+    const { requirement, funding } = await assessFunding(
+      connection,
+      mintInfo,
+      distributorPubkey,
+      staging,
+      epoch,
+      transferFeeMode,
+      profile
+    );
+
+    if (!funding.funded && !allowUnderfunded) {
+      return res.status(400).json({
+        error:
+          `Distributor balance is insufficient: short ` +
+          `${fromSmallestUnit(funding.token.shortfall, tokenDecimals)} tokens and ` +
+          `${fromSmallestUnit(funding.sol.shortfall_lamports, 9)} SOL.`,
+        funding,
+      });
+    }
+
+    const delegate = await insertJob({
+      jobId,
+      tokenMintAddress,
+      mintInfo,
+      distributorAddress,
+      mode,
+      lookupTableStatus,
+      transferFeeMode,
+      totalAmount,
+      requirement,
+      funding,
+      signingMode,
+      contentHash,
+      idempotencyKey,
+      duplicateHandling,
+      taskCount,
+      deliveryProvider,
+      profile,
+      feeBudget,
+    });
+
+    // Tasks load in the background; the job stays `ingesting` until they are all in
+    ingestJobTasks(jobId, staging).catch((err) => console.error(`[Job ${jobId}]: Error ingesting tasks:`, err));
+    staging = null;
+
+    res.status(201).json({
+      message: `Job created; ingesting ${taskCount} tasks.`,
+      job_id: jobId,
+      job_status: 'ingesting',
+      total_tasks: taskCount,
+      total_amount: totalAmount.toString(),
+      token_decimals: tokenDecimals,
+      mode: mode,
+      lookup_table_status: lookupTableStatus,
+      token: describeMint(mintInfo, epoch),
+      transfer_fee_mode: transferFeeMode,
+      estimated_transfer_fees: totalTransferFees.toString(),
+      funding_status: funding.funded ? 'funded' : 'underfunded',
+      funding,
+      signing_mode: signingMode,
+      delegate_address: delegate?.keypair.publicKey.toBase58() ?? null,
+      delivery_provider: deliveryProvider,
+      mode_profile: profile,
+      fee_budget_lamports: feeBudget?.toString() ?? null,
+      duplicates: {
+        mode: duplicateHandling,
+        count: duplicates.length,
+        rows_in_file: validation.validRows,
+        recipients: duplicates,
+      },
+      duplicate_of: duplicateOf?.job_id ?? null,
+      validation: summarizeValidation(validation),
+    });
+
+    console.log(`[Job ${jobId}]: Created, ingesting ${taskCount} tasks`);
+  } catch (err) {
+    // Two uploads with the same idempotency key raced; hand back the one that won
+    if (err.code === '23505' && idempotencyKey) {
+      const existing = await findJobByIdempotencyKey(distributorAddress, idempotencyKey);
+      if (existing) {
+        return res.status(200).json(existing);
+      }
+    }
+    console.error(`Error creating job:`, err);
+    res.status(500).json({ error: `Failed to create job: ${err.message}` });
+  } finally {
+    if (staging) {
+      await closeRecipientStaging(staging).catch((err) => console.error(`Error discarding staged recipients:`, err));
+    }
+  }
+});
+
+/**
+ * Step 2: Get unsigned transactions for signing
+ */
+app.get('/api/get-unsigned-transactions/:job_id', requireJobAccess('owner'), async (req, res) => {
+  const { job_id } = req.params;
+
+  try {
+    // Get job details
+    const jobResult = await query('SELECT * FROM jobs WHERE job_id = $1', [job_id]);
+    if (jobResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Job not found.' });
+    }
+    const job = jobResult.rows[0];
+    if (job.status === 'ingesting') {
+      return res.status(409).json({ error: 'Job is still ingesting its recipient list.' });
+    }
+    if (job.signing_mode === 'delegate') {
+      return res.status(400).json({ error: 'This job is signed by its delegate, not the wallet.' });
+    }
+    if (jobHaltedReason(job)) {
+      return res.status(409).json({ error: jobHaltedReason(job) });
+    }
+
+    // Claim pending tasks, enough to fill a batch of packed transactions
+    const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
+    const unsignedTransactions = await prepareUnsignedTransactions(connection, job);
+    const remaining = await countPendingTasks(job_id);
+
+    if (unsignedTransactions.length === 0) {
+      return res.status(200).json({ transactions: [], remaining, message: 'No pending tasks.' });
+    }
+
+    res.status(200).json({
+      job_id: job_id,
+      transactions: unsignedTransactions,
+      remaining,
+    });
+  } catch (err) {
+    console.error(`Error getting unsigned transactions:`, err);
+    res.status(500).json({ error: `Failed to get transactions: ${err.message}` });
+  }
+});
+
+/**
+ * Step 3: Submit signed transactions. They are queued for the submission
+ * workers and the request returns at once; progress shows on the job.
+ */
+app.post('/api/submit-signed-transactions', express.json(), requireJobAccess('owner'), async (req, res) => {
+  const { job_id, signed_transactions } = req.body;
+
+  if (!job_id || !signed_transactions || !Array.isArray(signed_transactions)) {
+    return res.status(400).json({ error: 'Invalid request body.' });
+  }
+
+  try {
+    const jobResult = await query('SELECT * FROM jobs WHERE job_id = $1', [job_id]);
+    if (jobResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Job not found.' });
+    }
+    const job = jobResult.rows[0];
+    if (job.signing_mode === 'delegate') {
+      return res.status(400).json({ error: 'This job is signed by its delegate, not the wallet.' });
+    }
+    // Pausing already put these batches' tasks back in the queue; cancelling dropped them
+    if (jobHaltedReason(job)) {
+      return res.status(409).json({ error: jobHaltedReason(job) });
+    }
+
+    // Update job status to running, unless it was paused or cancelled since it was read
+    const runningResult = await query(
+      `UPDATE jobs SET status = $1, updated_at = NOW() WHERE job_id = $2 AND status IN ('pending', 'running')`,
+      ['running', job_id]
+    );
+    if (runningResult.rowCount === 0) {
+      return res.status(409).json({ error: 'Job is no longer accepting transactions.' });
+    }
+    publishJobChange(job_id);
+
+    const results = [];
+    for (const { batch_id, transaction } of signed_transactions) {
+      // Turn away what cannot be sent; its tasks go back out once the signing window expires
+      try {
+        VersionedTransaction.deserialize(Buffer.from(String(transaction), 'base64'));
+      } catch {
+        results.push({ batch_id, task_ids: [], status: 'failed', error: 'Transaction could not be decoded.' });
+        continue;
+      }
+
+      const taskIds = await enqueueSignedBatch(job_id, batch_id, transaction, `wallet:${req.auth.wallet}`);
+      results.push(
+        taskIds.length > 0
+          ? { batch_id, task_ids: taskIds, status: 'queued' }
+          : {
+              batch_id,
+              task_ids: [],
+              status: 'failed',
+              error: 'Unknown batch, or it was already submitted or its signing window expired.',
+            }
+      );
+    }
+
+    res.status(202).json({
+      job_id,
+      results,
+      message: 'Transactions queued for submission.',
+    });
+  } catch (err) {
+    console.error(`Error submitting transactions:`, err);
+    res.status(500).json({ error: `Failed to submit transactions: ${err.message}` });
+  }
+});
+
+/**
+ * A job's settings and task counts by status, as returned by job-status and
+ * pushed over the events stream
+ */
+async function summarizeJob(job) {
+  const tasksResult = await query(
+    `SELECT status, COUNT(*) as count FROM tasks WHERE job_id = $1 GROUP BY status`,
+    [job.job_id]
+  );
+
+  const statusCounts = {
+    pending: 0,
+    signing: 0,
+    queued: 0,
+    processing: 0,
+    sent: 0,
+    confirmed: 0,
+    finalized: 0,
+    failed: 0,
+    expired: 0,
+    cancelled: 0,
+  };
+
+  let total = 0;
+  let legacySuccess = 0;
+  tasksResult.rows.forEach((row) => {
+    total += parseInt(row.count);
+    if (row.status in statusCounts) {
+      statusCounts[row.status] = parseInt(row.count);
+    } else if (row.status === 'success') {
+      // Tasks marked successful before confirmation tracking existed
+      legacySuccess = parseInt(row.count);
+    }
+  });
+
+  return {
+    job_id: job.job_id,
+    job_status: job.status,
+    mode: job.mode,
+    token_mint: job.token_mint_address,
+    token_decimals: job.token_decimals,
+    token_program_id: job.token_program_id,
+    token_extensions: job.token_extensions,
+    transfer_fee_mode: job.transfer_fee_mode,
+    distributor_address: job.distributor_address,
+    lookup_table_address: job.lookup_table_address,
+    lookup_table_status: job.lookup_table_status,
+    delivery_provider: resolveDeliveryProvider(job),
+    mode_profile: jobModeProfile(job),
+    fee_budget_lamports: job.fee_budget_lamports,
+    fees_committed_lamports: job.fees_committed_lamports ?? '0',
+    signing_mode: job.signing_mode,
+    delegate_address: job.delegate_address,
+    delegate_approved_amount: job.delegate_approved_amount,
+    delegate_status: job.delegate_status,
+    expected_tasks: job.expected_tasks,
+    ingested_tasks: job.ingested_tasks,
+    ...statusCounts,
+    success: statusCounts.confirmed + statusCounts.finalized + legacySuccess,
+    total,
+    error_message: job.error_message,
+    created_at: job.created_at,
+  };
+}
+
+/**
+ * The signed-in wallet's jobs, newest first, with task totals; see jobs.js
+ */
+app.get('/api/jobs', requireSession, async (req, res) => {
+  let options;
+  try {
+    options = parseJobListOptions({ ...req.query, distributor: req.query.distributor || req.auth.wallet });
+  } catch (err) {
+    return res.status(400).json({ error: err.message });
+  }
+  if (options.distributor !== req.auth.wallet) {
+    return res.status(403).json({ error: "Cannot list another wallet's jobs." });
+  }
+
+  try {
+    res.status(200).json(await listJobs(options));
+  } catch (err) {
+    console.error(`Error listing jobs:`, err);
+    res.status(500).json({ error: `Failed to list jobs: ${err.message}` });
+  }
+});
+
+app.get('/api/job-status/:job_id', requireJobAccess('read'), async (req, res) => {
+  const { job_id } = req.params;
+
+  try {
+    const jobResult = await query('SELECT * FROM jobs WHERE job_id = $1', [job_id]);
+    if (jobResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Job not found.' });
+    }
+    const job = jobResult.rows[0];
+
+    const summary = await summarizeJob(job);
+    const funding = await fetchJobFunding(job, summary.total);
+
+    res.status(200).json({ ...summary, funding, access: req.jobAccess });
+  } catch (err) {
+    console.error(`Error fetching job status:`, err);
+    res.status(500).json({ error: `Failed to fetch job status: ${err.message}` });
+  }
+});
+
+/**
+ * Server-Sent Events stream of a job's progress. Sends a `status` event (the
+ * job-status payload without funding) on connect and after every change, and
+ * a `tasks` event with the rows of the tasks that changed. Changes arriving
+ * close together are sent as one pair of events.
+ */
+app.get('/api/jobs/:job_id/events', authenticateStreamToken, requireJobAccess('read'), async (req, res) => {
+  const { job_id } = req.params;
+
+  let job;
+  try {
+    const jobResult = await query('SELECT * FROM jobs WHERE job_id = $1', [job_id]);
+    if (jobResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Job not found.' });
+    }
+    job = jobResult.rows[0];
+  } catch (err) {
+    console.error(`Error opening job events:`, err);
+    return res.status(500).json({ error: `Failed to open job events: ${err.message}` });
+  }
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+
+  const send = (event, data) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  const changedTaskIds = new Set();
+  let flushTimer = null;
+
+  const flush = async () => {
+    flushTimer = null;
+    const taskIds = [...changedTaskIds];
+    changedTaskIds.clear();
+
+    try {
+      if (taskIds.length > 0) {
+        const tasksResult = await query(
+          `SELECT ${TASK_FIELDS} FROM tasks WHERE task_id = ANY($1) ORDER BY task_id`,
+          [taskIds]
+        );
+        send('tasks', tasksResult.rows);
+      }
+      const jobResult = await query('SELECT * FROM jobs WHERE job_id = $1', [job_id]);
+      if (jobResult.rows.length > 0) {
+        send('status', await summarizeJob(jobResult.rows[0]));
+      }
+    } catch (err) {
+      console.error(`Error streaming job events:`, err);
+    }
+  };
+
+  const unsubscribe = subscribeToJob(job_id, (taskIds) => {
+    taskIds.forEach((taskId) => changedTaskIds.add(taskId));
+    if (!flushTimer) {
+      flushTimer = setTimeout(flush, JOB_EVENTS_FLUSH_MS);
+    }
+  });
+  // Comments keep proxies from closing an idle stream
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), JOB_EVENTS_HEARTBEAT_MS);
+
+  req.on('close', () => {
+    unsubscribe();
+    clearInterval(heartbeat);
+    clearTimeout(flushTimer);
+  });
+
+  try {
+    send('status', await summarizeJob(job));
+  } catch (err) {
+    console.error(`Error streaming job events:`, err);
+  }
+});
+
+// A single-use token for opening the job's event stream, which cannot carry the session header
+app.post('/api/jobs/:job_id/stream-token', requireJobAccess('owner'), async (req, res) => {
+  const { job_id } = req.params;
+
+  try {
+    res.status(200).json({ job_id, ...(await createStreamToken(job_id, req.auth.wallet)) });
+  } catch (err) {
+    console.error(`Error creating stream token:`, err);
+    res.status(500).json({ error: `Failed to create stream token: ${err.message}` });
+  }
+});
+
+/**
+ * One page of a job's tasks, filtered by status, recipient or signature
+ * prefix and sorted by task id, amount or update time; see tasks.js
+ */
+app.get('/api/job-tasks/:job_id', requireJobAccess('read'), async (req, res) => {
+  const { job_id } = req.params;
+
+  let options;
+  try {
+    options = parseTaskListOptions(req.query);
+  } catch (err) {
+    return res.status(400).json({ error: err.message });
+  }
+
+  try {
+    const page = await listTasks(job_id, options);
+
+    res.status(200).json({
+      job_id: job_id,
+      ...page,
+    });
+  } catch (err) {
+    console.error(`Error fetching tasks:`, err);
+    res.status(500).json({ error: `Failed to fetch tasks: ${err.message}` });
+  }
+});
+
+/**
+ * Every status a task has been through, with the error, signature and actor of each change
+ */
+app.get('/api/jobs/:job_id/tasks/:task_id/history', requireJobAccess('read'), async (req, res) => {
+  const { job_id } = req.params;
+  const taskId = Number(req.params.task_id);
+
+  if (!Number.isInteger(taskId) || taskId <= 0) {
+    return res.status(400).json({ error: 'Invalid task id.' });
+  }
+
+  try {
+    const events = await listTaskEvents(job_id, taskId);
+    if (!events) {
+      return res.status(404).json({ error: 'Task not found.' });
+    }
+    res.status(200).json({ job_id, task_id: taskId, events });
+  } catch (err) {
+    console.error(`Error fetching task history:`, err);
+    res.status(500).json({ error: `Failed to fetch task history: ${err.message}` });
+  }
+});
+
+/**
+ * Dry run: builds the transactions the job would produce for its pending
+ * tasks and simulates them, without assigning batches or asking for
+ * signatures. Large jobs are sampled: only the first MAX_DRY_RUN_TRANSACTIONS
+ * transactions are simulated, and the summary says how many tasks they cover.
+ */
+app.post('/api/jobs/:job_id/dry-run', requireJobAccess('owner'), async (req, res) => {
+  const { job_id } = req.params;
+
+  try {
+    const jobResult = await query('SELECT * FROM jobs WHERE job_id = $1', [job_id]);
+    if (jobResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Job not found.' });
+    }
+    const job = jobResult.rows[0];
+    if (job.status === 'ingesting') {
+      return res.status(409).json({ error: 'Job is still ingesting its recipient list.' });
+    }
+
+    const countResult = await query(
+      'SELECT COUNT(*)::integer AS count FROM tasks WHERE job_id = $1 AND status = $2',
+      [job_id, 'pending']
+    );
+    const pendingTasks = countResult.rows[0].count;
+    if (pendingTasks === 0) {
+      return res.status(200).json({ job_id, transactions: [], tasks: [], message: 'No pending tasks.' });
+    }
+
+    const tasksResult = await query(
+      `SELECT * FROM tasks WHERE job_id = $1 AND status = $2 ORDER BY task_id LIMIT $3`,
+      [job_id, 'pending', MAX_DRY_RUN_TASKS]
+    );
+
+    const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
+
+    const lookupTable = await loadJobLookupTable(connection, job);
+
+    const distributorPubkey = new PublicKey(job.distributor_address);
+    // Built as the submitter builds them: delegate jobs are signed and paid for by the delegate
+    const isDelegateJob = job.signing_mode === 'delegate';
+    const authority = isDelegateJob ? new PublicKey(job.delegate_address) : undefined;
+    const payer = authority ?? distributorPubkey;
+    const profile = jobModeProfile(job);
+    const extraInstructions = deliveryInstructions(job, payer);
+
+    const { batches, mintInfo } = await buildTransferTransactions(connection, job, tasksResult.rows, {
+      maxTransactions: MAX_DRY_RUN_TRANSACTIONS,
+      lookupTable,
+      authority,
+      extraInstructions,
+      computeUnitPrice: await resolveComputeUnitPrice(connection, profile, [payer]),
+      maxComputeUnits: profile.compute_unit_limit,
+    });
+    const cost = await estimateJobCost(connection, batches, mintInfo, {
+      lookupTableAddresses:
+        job.lookup_table_status === 'pending'
+          ? collectLookupTableAddresses(job, tasksResult.rows).length
+          : 0,
+    });
+
+    let balances;
+    let setupTransaction;
+    if (isDelegateJob) {
+      balances = await fetchDelegateBalances(connection, job);
+      // Until its approval lands the delegate can neither pay nor move tokens, so simulate with the approval in front
+      if (job.delegate_status === 'created') {
+        setupTransaction = addSimulationSetup(batches, distributorPubkey, delegateApprovalInstructions(job), {
+          lookupTable,
+          extraInstructions,
+        });
+      }
+    } else {
+      const distributorBalances = await fetchDistributorBalances(
+        connection,
+        distributorPubkey,
+        mintInfo.address,
+        mintInfo.programId
+      );
+      // A lookup table still to be created is paid for before the first transfer
+      balances = {
+        ...distributorBalances,
+        solBalance: distributorBalances.solBalance - BigInt(cost.lookup_table_rent),
+      };
+    }
+    const { transactions, tasks } = await simulateBatches(connection, batches, { mintInfo, balances, setupTransaction });
+
+    const failedTasks = tasks.filter((task) => !task.success);
+
+    res.status(200).json({
+      job_id,
+      summary: {
+        transactions: transactions.length,
+        tasks: tasks.length,
+        pending_tasks: pendingTasks,
+        sampled: tasks.length < pendingTasks,
+        failed_transactions: transactions.filter((tx) => !tx.success).length,
+        failed_tasks: failedTasks.length,
+        compute_units: transactions.reduce((sum, tx) => sum + (tx.compute_units || 0), 0),
+        estimated_cost: cost,
+      },
+      transactions,
+      tasks,
+    });
+
+    console.log(
+      `[Job ${job_id}]: Dry run simulated ${transactions.length} transactions for ${tasks.length} of ${pendingTasks} tasks, ${failedTasks.length} failing`
+    );
+  } catch (err) {
+    console.error(`Error running dry run:`, err);
+    res.status(500).json({ error: `Failed to run dry run: ${err.message}` });
+  }
+});
+
+/**
+ * Requeues failed and expired tasks that still have retries left and
+ * rebuilds the first round of them for signing
+ */
+app.post('/api/jobs/:job_id/retry', requireJobAccess('owner'), async (req, res) => {
+  const { job_id } = req.params;
+
+  try {
+    const jobResult = await query('SELECT * FROM jobs WHERE job_id = $1', [job_id]);
+    if (jobResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Job not found.' });
+    }
+    const job = jobResult.rows[0];
+    if (jobHaltedReason(job)) {
+      return res.status(409).json({ error: jobHaltedReason(job) });
+    }
+    const isDelegateJob = job.signing_mode === 'delegate';
+    if (isDelegateJob && !['approved', 'revoke_pending'].includes(job.delegate_status)) {
+      return res.status(400).json({ error: 'The delegation for this job is not active, so it cannot be retried.' });
+    }
+
+    // Put failed and expired tasks back in the queue while they have retries left.
+    // Their old transactions can no longer land, so drop the signature and batch.
+    const resetResult = await query(
+      `UPDATE tasks SET status = $1, batch_id = NULL, tx_signature = NULL, last_valid_block_height = NULL,
+              sent_at = NULL, confirmed_slot = NULL, fee_lamports = NULL, block_time = NULL, status_actor = $4,
+              updated_at = NOW()
+       WHERE job_id = $2 AND status IN ('failed', 'expired') AND retry_count < $3
+       RETURNING task_id`,
+      ['pending', job_id, MAX_RETRIES, `wallet:${req.auth.wallet}`]
+    );
+    const exhaustedResult = await query(
+      `SELECT COUNT(*) FROM tasks WHERE job_id = $1 AND status IN ('failed', 'expired') AND retry_count >= $2`,
+      [job_id, MAX_RETRIES]
+    );
+    const exhausted = parseInt(exhaustedResult.rows[0].count);
+
+    if (resetResult.rowCount > 0 && job.status === 'completed') {
+      await query('UPDATE jobs SET status = $1, updated_at = NOW() WHERE job_id = $2', ['running', job_id]);
+    }
+    publishJobChange(job_id, resetResult.rows.map((row) => row.task_id));
+    console.log(`[Job ${job_id}]: Reset ${resetResult.rowCount} tasks for retry (${exhausted} out of retries)`);
+
+    // Delegate jobs resend in the background with the allowance that is left
+    if (isDelegateJob) {
+      if (resetResult.rowCount > 0) {
+        await query('UPDATE jobs SET delegate_status = $1, updated_at = NOW() WHERE job_id = $2', ['approved', job_id]);
+        publishJobChange(job_id);
+        runDelegateJob(job_id);
+      }
+      return res.status(200).json({
+        job_id,
+        reset: resetResult.rowCount,
+        exhausted,
+        transactions: [],
+        remaining: await countPendingTasks(job_id),
+      });
+    }
+
+    // Rebuild the first round straight away; the rest come from get-unsigned-transactions
+    const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
+    const unsignedTransactions = await prepareUnsignedTransactions(connection, job);
+
+    res.status(200).json({
+      job_id,
+      reset: resetResult.rowCount,
+      exhausted,
+      transactions: unsignedTransactions,
+      remaining: await countPendingTasks(job_id),
+    });
+  } catch (err) {
+    console.error(`Error retrying tasks:`, err);
+    res.status(500).json({ error: `Failed to retry tasks: ${err.message}` });
+  }
+});
+
+/**
+ * Cancels a job: unsent tasks are dropped and further signed submissions are
+ * refused. Transactions already sent are still tracked until they land.
+ */
+app.post('/api/jobs/:job_id/cancel', requireJobAccess('owner'), async (req, res) => {
+  const { job_id } = req.params;
+
+  try {
+    const result = await cancelJob(job_id, `wallet:${req.auth.wallet}`);
+    if (!result) {
+      return res.status(409).json({ error: 'Only pending, running or paused jobs can be cancelled.' });
+    }
+
+    // Stop a delegate from spending and ask for the leftover allowance back
+    if (result.job.signing_mode === 'delegate') {
+      await finishDelegateJob(job_id);
+    }
+
+    res.status(200).json({ job_id, job_status: 'cancelled', cancelled_tasks: result.cancelledTaskIds.length });
+  } catch (err) {
+    console.error(`Error cancelling job:`, err);
+    res.status(500).json({ error: `Failed to cancel job: ${err.message}` });
+  }
+});
+
+/**
+ * Holds a job without losing its state: no new transactions are handed out or
+ * accepted until it is resumed, while sent ones are still tracked
+ */
+app.post('/api/jobs/:job_id/pause', requireJobAccess('owner'), async (req, res) => {
+  const { job_id } = req.params;
+
+  try {
+    const job = await pauseJob(job_id, null, `wallet:${req.auth.wallet}`);
+    if (!job) {
+      return res.status(409).json({ error: 'Only pending or running jobs can be paused.' });
+    }
+    res.status(200).json({ job_id, job_status: job.status });
+  } catch (err) {
+    console.error(`Error pausing job:`, err);
+    res.status(500).json({ error: `Failed to pause job: ${err.message}` });
+  }
+});
+
+app.post('/api/jobs/:job_id/resume', requireJobAccess('owner'), async (req, res) => {
+  const { job_id } = req.params;
+
+  try {
+    const job = await resumeJob(job_id);
+    if (!job) {
+      return res.status(409).json({ error: 'Job is not paused.' });
+    }
+
+    // Whatever was in flight may have landed while paused
+    if (await completeJobIfDone(job_id)) {
+      await finishDelegateJob(job_id);
+    } else if (job.status === 'running' && job.signing_mode === 'delegate' && job.delegate_status === 'approved') {
+      runDelegateJob(job_id);
+    }
+
+    res.status(200).json({ job_id, job_status: job.status });
+  } catch (err) {
+    console.error(`Error resuming job:`, err);
+    res.status(500).json({ error: `Failed to resume job: ${err.message}` });
+  }
+});
+
+/**
+ * Sets the job's SOL fee budget in lamports (`feeBudgetLamports`, null for
+ * none). A job paused at its budget can be resumed once it is raised.
+ */
+app.patch('/api/jobs/:job_id/fee-budget', express.json(), requireJobAccess('owner'), async (req, res) => {
+  const { job_id } = req.params;
+
+  let feeBudget;
+  try {
+    feeBudget = parseFeeBudget(req.body?.feeBudgetLamports);
+  } catch (err) {
+    return res.status(400).json({ error: err.message });
+  }
+
+  try {
+    const job = await setJobFeeBudget(job_id, feeBudget);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found.' });
+    }
+
+    console.log(`[Job ${job_id}]: Fee budget set to ${feeBudget === null ? 'none' : `${feeBudget} lamports`}`);
+    res.status(200).json({
+      job_id,
+      fee_budget_lamports: job.fee_budget_lamports,
+      fees_committed_lamports: job.fees_committed_lamports ?? '0',
+    });
+  } catch (err) {
+    console.error(`Error setting fee budget:`, err);
+    res.status(500).json({ error: `Failed to set fee budget: ${err.message}` });
+  }
+});
+
+/**
+ * Returns handed-out batches to the queue when the wallet declines to sign them
+ */
+app.post('/api/jobs/:job_id/release', express.json(), requireJobAccess('owner'), async (req, res) => {
+  const { job_id } = req.params;
+  const { batch_ids } = req.body;
+
+  if (!Array.isArray(batch_ids)) {
+    return res.status(400).json({ error: 'batch_ids must be an array.' });
+  }
+
+  try {
+    const result = await query(
+      `UPDATE tasks SET status = $1, batch_id = NULL, signing_expires_at = NULL, status_actor = $5, updated_at = NOW()
+       WHERE job_id = $2 AND batch_id = ANY($3) AND status = $4
+       RETURNING task_id`,
+      ['pending', job_id, batch_ids, 'signing', `wallet:${req.auth.wallet}`]
+    );
+    publishJobChange(job_id, result.rows.map((row) => row.task_id));
+    res.status(200).json({ job_id, released: result.rowCount });
+  } catch (err) {
+    console.error(`Error releasing batches:`, err);
+    res.status(500).json({ error: `Failed to release batches: ${err.message}` });
+  }
+});
+
+/**
+ * Delegate signing: returns the transaction the distributor signs next, either
+ * the approve + SOL funding that starts the job or the revoke that ends a
+ * delegation with allowance left over
+ */
+app.get('/api/jobs/:job_id/delegate', requireJobAccess('owner'), async (req, res) => {
+  const { job_id } = req.params;
+
+  try {
+    const jobResult = await query('SELECT * FROM jobs WHERE job_id = $1', [job_id]);
+    if (jobResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Job not found.' });
+    }
+    const job = jobResult.rows[0];
+    if (job.status === 'ingesting') {
+      return res.status(409).json({ error: 'Job is still ingesting its recipient list.' });
+    }
+    if (job.signing_mode !== 'delegate') {
+      return res.status(400).json({ error: 'This job is signed with the wallet.' });
+    }
+    // A revoke is still allowed on a stopped job, a new approval is not
+    if (job.delegate_status === 'created' && jobHaltedReason(job)) {
+      return res.status(409).json({ error: jobHaltedReason(job) });
+    }
+
+    const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
+    let step = null;
+    let transaction = null;
+
+    if (job.delegate_status === 'created') {
+      step = 'approve';
+      transaction = await buildApproveTransaction(connection, job);
+    } else if (job.delegate_status === 'revoke_pending') {
+      step = 'revoke';
+      transaction = await buildRevokeTransaction(connection, job);
+    }
+
+    res.status(200).json({
+      job_id,
+      delegate_address: job.delegate_address,
+      delegate_status: job.delegate_status,
+      approved_amount: job.delegate_approved_amount,
+      funding_lamports: getDelegateFunding(job).toString(),
+      step,
+      transaction: transaction ? Buffer.from(transaction.serialize()).toString('base64') : null,
+    });
+  } catch (err) {
+    console.error(`Error building delegate transaction:`, err);
+    res.status(500).json({ error: `Failed to build delegate transaction: ${err.message}` });
+  }
+});
+
+app.post('/api/jobs/:job_id/delegate', express.json(), requireJobAccess('owner'), async (req, res) => {
+  const { job_id } = req.params;
+  const { signed_transaction } = req.body;
+
+  if (!signed_transaction) {
+    return res.status(400).json({ error: 'Invalid request body.' });
+  }
+
+  try {
+    const jobResult = await query('SELECT * FROM jobs WHERE job_id = $1', [job_id]);
+    if (jobResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Job not found.' });
+    }
+    const job = jobResult.rows[0];
+    if (job.signing_mode !== 'delegate' || !['created', 'revoke_pending'].includes(job.delegate_status)) {
+      return res.status(400).json({ error: 'No delegate transaction is expected for this job.' });
+    }
+    if (job.delegate_status === 'created' && jobHaltedReason(job)) {
+      return res.status(409).json({ error: jobHaltedReason(job) });
+    }
+
+    const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
+    const signature = await sendAndConfirmRawTransaction(connection, signed_transaction);
+
+    if (job.delegate_status === 'created') {
+      // Make sure the key is usable before handing the job to the background signer
+      loadDelegateKeypair(job);
+      await query(
+        'UPDATE jobs SET delegate_status = $1, status = $2, updated_at = NOW() WHERE job_id = $3',
+        ['approved', 'running', job_id]
+      );
+      publishJobChange(job_id);
+      console.log(`[Job ${job_id}]: Delegate ${job.delegate_address} approved in ${signature}`);
+      runDelegateJob(job_id);
+      return res.status(200).json({ job_id, signature, delegate_status: 'approved' });
+    }
+
+    // Revoked by the owner: sweep the delegate's SOL back and drop its key
+    const delegateStatus = await settleDelegation(connection, job);
+    res.status(200).json({ job_id, signature, delegate_status: delegateStatus });
+  } catch (err) {
+    console.error(`Error submitting delegate transaction:`, err);
+    res.status(500).json({ error: `Failed to submit delegate transaction: ${err.message}` });
+  }
+});
+
+/**
+ * Address lookup table lifecycle: returns the unsigned transactions for the
+ * next step (create + extend, deactivate once the job completes, then close)
+ */
+app.get('/api/jobs/:job_id/lookup-table', requireJobAccess('owner'), async (req, res) => {
+  const { job_id } = req.params;
+
+  try {
+    const jobResult = await query('SELECT * FROM jobs WHERE job_id = $1', [job_id]);
+    if (jobResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Job not found.' });
+    }
+    const job = jobResult.rows[0];
+    if (job.status === 'ingesting') {
+      return res.status(409).json({ error: 'Job is still ingesting its recipient list.' });
+    }
+
+    if (!job.lookup_table_status) {
+      return res.status(400).json({ error: 'Job does not use a lookup table.' });
+    }
+
+    const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
+    let action = null;
+    let transactions = [];
+    let message;
+
+    if (job.lookup_table_status === 'pending') {
+      const tasksResult = await query(
+        `SELECT recipient_address FROM tasks WHERE job_id = $1 AND status = $2 ORDER BY task_id`,
+        [job_id, 'pending']
+      );
+      // A table whose create already landed is only extended with what it still lacks
+      const existingTable = await loadPendingLookupTable(connection, job);
+      const built = await buildLookupTableTransactions(connection, job, tasksResult.rows, existingTable);
+
+      if (existingTable && built.addressCount === 0) {
+        await query(
+          'UPDATE jobs SET lookup_table_status = $1, updated_at = NOW() WHERE job_id = $2',
+          ['active', job_id]
+        );
+        job.lookup_table_status = 'active';
+        publishJobChange(job_id);
+        message = 'Lookup table already holds every address.';
+      } else {
+        if (!existingTable) {
+          await query(
+            'UPDATE jobs SET lookup_table_address = $1, updated_at = NOW() WHERE job_id = $2',
+            [built.lookupTableAddress.toBase58(), job_id]
+          );
+          job.lookup_table_address = built.lookupTableAddress.toBase58();
+        }
+        action = existingTable ? 'extend' : 'create';
+        transactions = built.transactions;
+        message = existingTable
+          ? `Lookup table needs ${built.addressCount} more addresses.`
+          : `Lookup table will hold ${built.addressCount} addresses.`;
+      }
+    } else if (job.lookup_table_status === 'active') {
+      if (job.status !== 'completed') {
+        message = 'Lookup table stays active until the job completes.';
+      } else {
+        action = 'deactivate';
+        transactions = [await buildLookupTableDeactivateTransaction(connection, job)];
+      }
+    } else if (job.lookup_table_status === 'deactivating') {
+      const lookupTableResult = await connection.getAddressLookupTable(
+        new PublicKey(job.lookup_table_address)
+      );
+      const currentSlot = await connection.getSlot('confirmed');
+
+      if (!lookupTableResult.value) {
+        await query(
+          'UPDATE jobs SET lookup_table_status = $1, updated_at = NOW() WHERE job_id = $2',
+          ['closed', job_id]
+        );
+        job.lookup_table_status = 'closed';
+        publishJobChange(job_id);
+        message = 'Lookup table is already closed.';
+      } else {
+        const deactivationSlot = Number(lookupTableResult.value.state.deactivationSlot);
+        const remainingSlots = deactivationSlot + LOOKUP_TABLE_COOLDOWN_SLOTS - currentSlot;
+        if (remainingSlots > 0) {
+          message = `Lookup table can be closed in about ${remainingSlots} slots.`;
+        } else {
+          action = 'close';
+          transactions = [await buildLookupTableCloseTransaction(connection, job)];
+        }
+      }
+    }
+
+    res.status(200).json({
+      job_id,
+      lookup_table_address: job.lookup_table_address,
+      lookup_table_status: job.lookup_table_status,
+      action,
+      transactions: transactions.map((tx) => Buffer.from(tx.serialize()).toString('base64')),
+      message,
+    });
+  } catch (err) {
+    console.error(`Error building lookup table transactions:`, err);
+    res.status(500).json({ error: `Failed to build lookup table transactions: ${err.message}` });
+  }
+});
 
-  try {
-    const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
+/**
+ * Submits the signed lookup table transactions in order and advances the
+ * table to its next state
+ */
+app.post('/api/jobs/:job_id/lookup-table', requireJobAccess('owner'), async (req, res) => {
+  const { job_id } = req.params;
+  const { signed_transactions } = req.body;
 
-    // Get token decimals
-    const mintInfo = await getMint(connection, tokenMintPubkey);
-    const tokenDecimals = mintInfo.decimals;
+  if (!signed_transactions || !Array.isArray(signed_transactions) || signed_transactions.length === 0) {
+    return res.status(400).json({ error: 'Invalid request body.' });
+  }
 
-    // Parse CSV
-    const tasks = [];
-    const parser = Readable.from(csvBuffer).pipe(
-      parse({ columns: true, skip_empty_lines: true, trim: true })
-    );
+  const nextStatus = {
+    pending: 'active',
+    active: 'deactivating',
+    deactivating: 'closed',
+  };
 
-    let taskCount = 0;
-    let totalAmount = BigInt(0);
+  try {
+    const jobResult = await query('SELECT * FROM jobs WHERE job_id = $1', [job_id]);
+    if (jobResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Job not found.' });
+    }
+    const job = jobResult.rows[0];
 
-    for await (const record of parser) {
-      const address = record.address?.trim();
-      const amount = record.amount?.trim();
+    if (!nextStatus[job.lookup_table_status]) {
+      return res.status(400).json({ error: 'No lookup table step to submit.' });
+    }
 
-      if (!address || !amount || isNaN(Number(amount)) || Number(amount) <= 0) {
-        continue;
+    // Queued batches compile against the table, so it is only taken down once the job is done
+    if (job.lookup_table_status !== 'pending') {
+      if (job.status !== 'completed') {
+        return res.status(409).json({ error: 'Lookup table stays active until the job completes.' });
       }
-
-      try {
-        new PublicKey(address);
-      } catch {
-        continue;
+      const action = job.lookup_table_status === 'active' ? 'deactivate' : 'close';
+      const valid = signed_transactions.every((transaction) => {
+        try {
+          return isLookupTableStepTransaction(transaction, job.lookup_table_address, action);
+        } catch {
+          return false;
+        }
+      });
+      if (!valid) {
+        return res.status(400).json({ error: `Expected only the transaction that will ${action} the job's lookup table.` });
       }
+    }
 
-      const amountInSmallestUnit = toSmallestUnit(amount, tokenDecimals);
-      tasks.push({
-        address,
-        amount: amountInSmallestUnit.toString(),
-      });
-      totalAmount += amountInSmallestUnit;
-      taskCount++;
+    const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
+    const signatures = [];
+
+    // Extends must land after the create, so send one at a time; ones that
+    // landed before a failed submission are skipped when it is retried
+    for (const transaction of signed_transactions) {
+      if (await hasLanded(connection, transaction)) continue;
+      signatures.push(await sendAndConfirmRawTransaction(connection, transaction));
     }
 
-    if (taskCount === 0) {
-      return res.status(400).json({ error: 'No valid tasks found in CSV.' });
+    // The table only goes active once it holds everything, so an interrupted fill can be resumed
+    if (job.lookup_table_status === 'pending') {
+      const lookupTable = await loadPendingLookupTable(connection, job);
+      const tasksResult = await query(
+        `SELECT recipient_address FROM tasks WHERE job_id = $1 AND status = $2 ORDER BY task_id`,
+        [job_id, 'pending']
+      );
+      const missing = lookupTable ? missingLookupTableAddresses(job, tasksResult.rows, lookupTable).length : null;
+      if (missing !== 0) {
+        return res.status(409).json({
+          error: lookupTable
+            ? `Lookup table still lacks ${missing} addresses; fetch the remaining extends and submit them.`
+            : 'Lookup table has not been created; fetch its transactions again.',
+          job_id,
+          lookup_table_address: job.lookup_table_address,
+          lookup_table_status: job.lookup_table_status,
+          signatures,
+        });
+      }
     }
 
-    // Create job in database
     await query(
-      `INSERT INTO jobs (job_id, token_mint_address, token_decimals, distributor_address, mode, status)
-       VALUES ($1, $2, $3, $4, $5, $6)`,
-      [jobId, tokenMintAddress, tokenDecimals, distributorAddress, mode, 'pending']
+      'UPDATE jobs SET lookup_table_status = $1, updated_at = NOW() WHERE job_id = $2',
+      [nextStatus[job.lookup_table_status], job_id]
     );
+    publishJobChange(job_id);
 
-    // Insert tasks
-    const client = await getClient();
-    try {
-      await client.query('BEGIN');
-      for (const task of tasks) {
-        await client.query(
-          `INSERT INTO tasks (job_id, recipient_address, amount, status, retry_count)
-           VALUES ($1, $2, $3, $4, $5)`,
-          [jobId, task.address, task.amount, 'pending', 0]
-        );
-      }
-      await client.query('COMMIT');
-    } catch (err) {
-      await client.query('ROLLBACK');
-      throw err;
-    } finally {
-      client.release();
-    }
+    console.log(
+      `[Job ${job_id}]: Lookup table ${job.lookup_table_address} is now ${nextStatus[job.lookup_table_status]}`
+    );
 
-    res.status(201).json({
-      message: `Job created with ${taskCount} tasks.`,
-      job_id: jobId,
-      total_tasks: taskCount,
-      total_amount: totalAmount.toString(),
-      token_decimals: tokenDecimals,
-      mode: mode,
+    res.status(200).json({
+      job_id,
+      lookup_table_address: job.lookup_table_address,
+      lookup_table_status: nextStatus[job.lookup_table_status],
+      signatures,
     });
-
-    console.log(`[Job ${jobId}]: Created with ${taskCount} tasks`);
   } catch (err) {
-    console.error(`Error creating job:`, err);
-    res.status(500).json({ error: `Failed to create job: ${err.message}` });
+    console.error(`Error submitting lookup table transactions:`, err);
+    res.status(500).json({ error: `Failed to submit lookup table transactions: ${err.message}` });
   }
 });
 
 /**
- * Step 2: Get unsigned transactions for signing
+ * Downloads a job's receipts as CSV or JSON (`format`): every transfer with
+ * UI and base-unit amounts, signature, slot, block time and fee, then a
+ * summary. Fees and block times are looked up from the chain the first time.
  */
-app.get('/api/get-unsigned-transactions/:job_id', async (req, res) => {
+app.get('/api/jobs/:job_id/report', requireJobAccess('read'), async (req, res) => {
   const { job_id } = req.params;
+  const format = req.query.format || 'csv';
+
+  if (!REPORT_FORMATS.includes(format)) {
+    return res.status(400).json({ error: `Format must be one of ${REPORT_FORMATS.join(', ')}.` });
+  }
 
   try {
-    // Get job details
     const jobResult = await query('SELECT * FROM jobs WHERE job_id = $1', [job_id]);
     if (jobResult.rows.length === 0) {
       return res.status(404).json({ error: 'Job not found.' });
     }
     const job = jobResult.rows[0];
+    if (job.status === 'ingesting') {
+      return res.status(409).json({ error: 'Job is still ingesting its recipient list.' });
+    }
 
-    // Get pending tasks (limit to 10 at a time to avoid overwhelming wallet)
-    const tasksResult = await query(
-      `SELECT * FROM tasks WHERE job_id = $1 AND status = $2 LIMIT 10`,
-      [job_id, 'pending']
-    );
+    await recordTransactionDetails(new Connection(SOLANA_RPC_URL, 'confirmed'), job_id);
 
-    if (tasksResult.rows.length === 0) {
-      return res.status(200).json({ transactions: [], message: 'No pending tasks.' });
+    res.setHeader('Content-Type', format === 'json' ? 'application/json' : 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="conductor-report-${job_id}.${format}"`);
+    await streamJobReport(job, format, res);
+  } catch (err) {
+    console.error(`Error generating report:`, err);
+    // Once streaming has started, cut the download short rather than append an error to it
+    if (res.headersSent) {
+      return res.destroy(err);
     }
+    res.status(500).json({ error: `Failed to generate report: ${err.message}` });
+  }
+});
 
-    const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
-    const distributorPubkey = new PublicKey(job.distributor_address);
-    const tokenMintPubkey = new PublicKey(job.token_mint_address);
+/**
+ * Creates a read-only share link for a job. Pass `expiresInHours` for a link
+ * that stops working, otherwise it lasts until revoked.
+ */
+app.post('/api/jobs/:job_id/share', requireJobAccess('owner'), async (req, res) => {
+  const { job_id } = req.params;
+  const expiresInHours = req.body?.expiresInHours ?? null;
 
-    // Get distributor's token account
-    const distributorTokenAccount = await getAssociatedTokenAddress(
-      tokenMintPubkey,
-      distributorPubkey
-    );
+  if (expiresInHours !== null && (!Number.isInteger(expiresInHours) || expiresInHours < 1)) {
+    return res.status(400).json({ error: 'expiresInHours must be a positive whole number.' });
+  }
 
-    const unsignedTransactions = [];
+  try {
+    res.status(200).json({ job_id, ...(await createShareLink(job_id, expiresInHours)) });
+  } catch (err) {
+    console.error(`Error creating share link:`, err);
+    res.status(500).json({ error: `Failed to create share link: ${err.message}` });
+  }
+});
 
-    for (const task of tasksResult.rows) {
-      const recipientPubkey = new PublicKey(task.recipient_address);
-      const transferAmount = BigInt(task.amount);
+// Revokes every share link of a job
+app.delete('/api/jobs/:job_id/share', requireJobAccess('owner'), async (req, res) => {
+  const { job_id } = req.params;
 
-      const recipientTokenAccount = await getAssociatedTokenAddress(
-        tokenMintPubkey,
-        recipientPubkey
-      );
+  try {
+    res.status(200).json({ job_id, revoked: await revokeShareLinks(job_id) });
+  } catch (err) {
+    console.error(`Error revoking share links:`, err);
+    res.status(500).json({ error: `Failed to revoke share links: ${err.message}` });
+  }
+});
 
-      const instructions = [];
+// --- Mode Profiles ---
 
-      // Add compute budget
-      instructions.push(
-        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1000 })
-      );
+// The built-in modes and the signed-in wallet's own profiles
+app.get('/api/mode-profiles', requireSession, async (req, res) => {
+  try {
+    res.status(200).json({ profiles: await listModeProfiles(req.auth.wallet) });
+  } catch (err) {
+    console.error(`Error listing mode profiles:`, err);
+    res.status(500).json({ error: `Failed to list mode profiles: ${err.message}` });
+  }
+});
 
-      // Check if recipient ATA exists
-      const recipientAtaInfo = await connection.getAccountInfo(recipientTokenAccount);
-      if (!recipientAtaInfo) {
-        instructions.push(
-          createAssociatedTokenAccountInstruction(
-            distributorPubkey,
-            recipientTokenAccount,
-            recipientPubkey,
-            tokenMintPubkey
-          )
-        );
-      }
+/**
+ * Saves a mode profile for the signed-in wallet: `name`, `cuPriceStrategy`
+ * (fixed, percentile or capped), `cuPriceMicroLamports`, `cuPricePercentile`,
+ * `computeUnitLimit`, `jitoTipRange` and `deliveryMethod`
+ */
+app.post('/api/mode-profiles', express.json(), requireSession, async (req, res) => {
+  let fields;
+  try {
+    fields = parseModeProfile(req.body ?? {}, { creating: true });
+  } catch (err) {
+    return res.status(400).json({ error: err.message });
+  }
 
-      // Add transfer instruction
-      instructions.push(
-        createTransferInstruction(
-          distributorTokenAccount,
-          recipientTokenAccount,
-          distributorPubkey,
-          transferAmount
-        )
-      );
+  try {
+    const profile = await createModeProfile(req.auth.wallet, fields);
+    res.status(201).json(profile);
+  } catch (err) {
+    if (err.code === '23505') {
+      return res.status(409).json({ error: `A mode named "${fields.name}" already exists.` });
+    }
+    console.error(`Error creating mode profile:`, err);
+    res.status(500).json({ error: `Failed to create mode profile: ${err.message}` });
+  }
+});
 
-      // Build transaction
-      const latestBlockhash = await connection.getLatestBlockhash('confirmed');
-      const messageV0 = new TransactionMessage({
-        payerKey: distributorPubkey,
-        recentBlockhash: latestBlockhash.blockhash,
-        instructions,
-      }).compileToV0Message();
+// Edits one of the signed-in wallet's profiles; jobs already created keep their copy
+app.patch('/api/mode-profiles/:name', express.json(), requireSession, async (req, res) => {
+  const { name } = req.params;
+  if (isBuiltInMode(name)) {
+    return res.status(400).json({ error: 'Built-in modes cannot be changed.' });
+  }
 
-      const unsignedTx = new VersionedTransaction(messageV0);
+  let fields;
+  try {
+    fields = parseModeProfile(req.body ?? {});
+  } catch (err) {
+    return res.status(400).json({ error: err.message });
+  }
+  if (Object.keys(fields).length === 0) {
+    return res.status(400).json({ error: 'Nothing to change.' });
+  }
 
-      // Convert to base64 for frontend
-      const txBase64 = Buffer.from(unsignedTx.serialize()).toString('base64');
+  try {
+    const existing = await getModeProfile(req.auth.wallet, name);
+    if (!existing) {
+      return res.status(404).json({ error: 'Mode profile not found.' });
+    }
 
-      unsignedTransactions.push({
-        task_id: task.task_id,
-        recipient: task.recipient_address,
-        amount: task.amount,
-        transaction: txBase64,
-      });
+    let updated;
+    try {
+      updated = applyModeProfileChanges(existing, fields);
+    } catch (err) {
+      return res.status(400).json({ error: err.message });
     }
 
-    res.status(200).json({
-      job_id: job_id,
-      transactions: unsignedTransactions,
-    });
+    const profile = await updateModeProfile(req.auth.wallet, updated);
+    if (!profile) {
+      return res.status(404).json({ error: 'Mode profile not found.' });
+    }
+    res.status(200).json(profile);
   } catch (err) {
-    console.error(`Error getting unsigned transactions:`, err);
-    res.status(500).json({ error: `Failed to get transactions: ${err.message}` });
+    console.error(`Error updating mode profile:`, err);
+    res.status(500).json({ error: `Failed to update mode profile: ${err.message}` });
   }
 });
 
-/**
- * Step 3: Submit signed transactions
- */
-app.post('/api/submit-signed-transactions', express.json(), async (req, res) => {
-  const { job_id, signed_transactions } = req.body;
-
-  if (!job_id || !signed_transactions || !Array.isArray(signed_transactions)) {
-    return res.status(400).json({ error: 'Invalid request body.' });
+app.delete('/api/mode-profiles/:name', requireSession, async (req, res) => {
+  const { name } = req.params;
+  if (isBuiltInMode(name)) {
+    return res.status(400).json({ error: 'Built-in modes cannot be deleted.' });
   }
 
   try {
-    const jobResult = await query('SELECT * FROM jobs WHERE job_id = $1', [job_id]);
-    if (jobResult.rows.length === 0) {
-      return res.status(404).json({ error: 'Job not found.' });
+    if (!(await deleteModeProfile(req.auth.wallet, name))) {
+      return res.status(404).json({ error: 'Mode profile not found.' });
     }
-    const job = jobResult.rows[0];
-
-    // Update job status to running
-    await query('UPDATE jobs SET status = $1, updated_at = NOW() WHERE job_id = $2', [
-      'running',
-      job_id,
-    ]);
+    res.status(200).json({ name, deleted: true });
+  } catch (err) {
+    console.error(`Error deleting mode profile:`, err);
+    res.status(500).json({ error: `Failed to delete mode profile: ${err.message}` });
+  }
+});
 
-    // Process each signed transaction
-    const results = [];
+// --- Scheduled Distributions ---
 
-    for (const item of signed_transactions) {
-      const { task_id, transaction } = item;
+/**
+ * Creates the job of a due schedule from its saved recipients. Wallet jobs
+ * wait for the owner to sign from the dashboard, delegate jobs for the owner
+ * to approve their delegate, after which the server sends everything.
+ * Underfunded runs are still created, so the owner sees the shortfall.
+ */
+async function runScheduledJob(schedule) {
+  // The mode is looked up again on every run, so edits to a profile reach future runs
+  const profile = await getModeProfile(schedule.distributor_address, schedule.mode);
+  if (!profile) {
+    throw new Error(`The schedule's mode "${schedule.mode}" no longer exists.`);
+  }
 
-      try {
-        // Update task to processing
-        await query(
-          'UPDATE tasks SET status = $1, updated_at = NOW() WHERE task_id = $2',
-          ['processing', task_id]
-        );
+  const staging = await openRecipientStaging();
+  try {
+    const taskCount = await stageScheduleRecipients(staging, schedule.schedule_id);
+    if (taskCount === 0) {
+      throw new Error('The schedule has no recipients.');
+    }
 
-        // Decode transaction
-        const txBuffer = Buffer.from(transaction, 'base64');
-        const signedTx = VersionedTransaction.deserialize(txBuffer);
-
-        let signature;
-
-        // Use Sanctum Gateway
-        const buildParams = {
-          'high-assurance': {
-            cuPriceRange: 'high',
-            jitoTipRange: 'high',
-            deliveryMethodType: 'sanctum-sender',
-            encoding: 'base64',
-          },
-          'cost-saver': {
-            cuPriceRange: 'low',
-            deliveryMethodType: 'rpc',
-            encoding: 'base64',
-          },
-        };
-
-        // Build with Sanctum
-        const buildPayload = {
-          jsonrpc: '2.0',
-          id: `conductor-${job_id}-${task_id}`,
-          method: 'buildGatewayTransaction',
-          params: [transaction, buildParams[job.mode]],
-        };
-
-        const buildResponse = await fetch(GATEWAY_API_URL, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(buildPayload),
-        });
+    const jobId = randomUUID();
+    const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
+    const mintInfo = await loadMint(connection, new PublicKey(schedule.token_mint_address));
+    const epoch = mintInfo.transferFeeConfig
+      ? BigInt((await connection.getEpochInfo('confirmed')).epoch)
+      : BigInt(0);
+    const transferFeeMode = schedule.transfer_fee_mode;
+    const { totalAmount } = await sumTransfers(mintInfo, staging, epoch, transferFeeMode);
+    const { requirement, funding } = await assessFunding(
+      connection,
+      mintInfo,
+      new PublicKey(schedule.distributor_address),
+      staging,
+      epoch,
+      transferFeeMode,
+      profile
+    );
 
-        const buildResult = await buildResponse.json();
-        if (buildResult.error) {
-          throw new Error(`Sanctum build error: ${JSON.stringify(buildResult.error)}`);
-        }
+    await insertJob({
+      jobId,
+      tokenMintAddress: schedule.token_mint_address,
+      mintInfo,
+      distributorAddress: schedule.distributor_address,
+      mode: schedule.mode,
+      lookupTableStatus: null,
+      transferFeeMode,
+      totalAmount,
+      requirement,
+      funding,
+      signingMode: schedule.signing_mode,
+      contentHash: await hashStagedRecipients(staging),
+      // One job per occurrence, even if the same run is attempted twice
+      idempotencyKey: `schedule:${schedule.schedule_id}:${new Date(schedule.next_run_at).toISOString()}`,
+      duplicateHandling: schedule.duplicate_handling,
+      taskCount,
+      scheduleId: schedule.schedule_id,
+      scheduledAt: schedule.next_run_at,
+      profile,
+    });
+    ingestJobTasks(jobId, staging).catch((err) => console.error(`[Job ${jobId}]: Error ingesting tasks:`, err));
 
-        const optimizedTx = buildResult.result.transaction;
+    console.log(`[Job ${jobId}]: Created by schedule ${schedule.schedule_id}, ingesting ${taskCount} tasks`);
+    return { jobId, fundingStatus: funding.funded ? 'funded' : 'underfunded' };
+  } catch (err) {
+    await closeRecipientStaging(staging).catch((closeErr) => console.error(`Error discarding staged recipients:`, closeErr));
+    throw err;
+  }
+}
 
-        // Send transaction
-        const sendPayload = {
-          jsonrpc: '2.0',
-          id: `conductor-send-${job_id}-${task_id}`,
-          method: 'sendTransaction',
-          params: [optimizedTx, { encoding: 'base64' }],
-        };
+// Reads and checks a schedule's recipient list; returns the recipients, or `error` with the 400 body
+async function readScheduleUpload(req, tokenDecimals, duplicateHandling) {
+  const upload = await resolveRecipientUpload(req);
+  const rows = await readRecipientRows(createReadStream(req.file.path), upload);
+  const validation = validateRecipientRows(rows, tokenDecimals);
 
-        const sendResponse = await fetch(GATEWAY_API_URL, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(sendPayload),
-        });
+  if (validation.recipients.length === 0) {
+    return { error: { error: 'No valid tasks found in the recipient list.', validation: summarizeValidation(validation) } };
+  }
+  if (validation.rejected.length > 0 && req.body.acceptInvalidRows !== 'true') {
+    return {
+      error: {
+        error: `${validation.rejected.length} of ${rows.length} rows in the recipient list are invalid.`,
+        validation: summarizeValidation(validation),
+      },
+    };
+  }
 
-        const sendResult = await sendResponse.json();
-        if (sendResult.error) {
-          throw new Error(`Sanctum send error: ${JSON.stringify(sendResult.error)}`);
-        }
+  const { recipients, duplicates } = applyDuplicatePolicy(validation.recipients, duplicateHandling);
+  if (duplicateHandling === 'reject' && duplicates.length > 0) {
+    return { error: { error: `Recipient list repeats ${duplicates.length} addresses.`, duplicates } };
+  }
+  return { recipients, duplicates, validation };
+}
 
-        signature = sendResult.result;
+app.get('/api/schedules', requireSession, async (req, res) => {
+  try {
+    res.status(200).json({ schedules: await listSchedules(req.auth.wallet) });
+  } catch (err) {
+    console.error(`Error listing schedules:`, err);
+    res.status(500).json({ error: `Failed to list schedules: ${err.message}` });
+  }
+});
 
-        // Update task as success
-        await query(
-          `UPDATE tasks SET status = $1, tx_signature = $2, error_message = NULL, updated_at = NOW()
-           WHERE task_id = $3`,
-          ['success', signature, task_id]
-        );
+/**
+ * Saves a recipient list to run at `scheduledAt`, once or on a recurrence.
+ * Takes the same file and job settings as create-job, without a lookup table.
+ */
+app.post('/api/schedules', requireSession, upload.single('csvFile'), removeUploadWhenDone, async (req, res) => {
+  const { tokenMintAddress, distributorAddress } = req.body;
+  const transferFeeMode = req.body.transferFeeMode || 'gross';
+  const duplicateHandling = req.body.duplicateHandling || 'merge';
 
-        results.push({ task_id, status: 'success', signature });
-        console.log(`[Job ${job_id}]: Task ${task_id} successful. Signature: ${signature}`);
-      } catch (err) {
-        console.error(`[Job ${job_id}]: Task ${task_id} failed:`, err.message);
+  if (!req.file) {
+    return res.status(400).json({ error: 'No recipient file uploaded.' });
+  }
+  if (!tokenMintAddress || !distributorAddress || !req.body.mode || !req.body.scheduledAt) {
+    return res.status(400).json({ error: 'Missing required fields.' });
+  }
+  if (!TRANSFER_FEE_MODES.includes(transferFeeMode)) {
+    return res.status(400).json({ error: 'Invalid transfer fee mode.' });
+  }
+  if (!DUPLICATE_MODES.includes(duplicateHandling)) {
+    return res.status(400).json({ error: 'Invalid duplicate handling.' });
+  }
 
-        // Update task as failed
-        await query(
-          `UPDATE tasks SET status = $1, error_message = $2, retry_count = retry_count + 1, updated_at = NOW()
-           WHERE task_id = $3`,
-          ['failed', err.message.substring(0, 500), task_id]
-        );
+  let settings;
+  try {
+    // New schedules always start active
+    const { status: _status, ...fields } = req.body;
+    settings = parseScheduleChanges({ signingMode: 'wallet', recurrence: 'none', ...fields });
+  } catch (err) {
+    return res.status(400).json({ error: err.message });
+  }
 
-        results.push({ task_id, status: 'failed', error: err.message });
-      }
+  let tokenMintPubkey, distributorPubkey;
+  try {
+    tokenMintPubkey = new PublicKey(tokenMintAddress);
+    distributorPubkey = new PublicKey(distributorAddress);
+  } catch (err) {
+    return res.status(400).json({ error: 'Invalid address format.' });
+  }
+  if (distributorPubkey.toBase58() !== req.auth.wallet) {
+    return res.status(403).json({ error: 'The distributor must be the signed-in wallet.' });
+  }
 
-      // Rate limiting
-      await new Promise((resolve) => setTimeout(resolve, RATE_LIMIT_DELAY_MS));
+  try {
+    if (!(await getModeProfile(req.auth.wallet, settings.mode))) {
+      return res.status(400).json({ error: `Unknown mode "${settings.mode}".` });
     }
 
-    // Check if all tasks are complete
-    const remainingTasks = await query(
-      `SELECT COUNT(*) FROM tasks WHERE job_id = $1 AND status = $2`,
-      [job_id, 'pending']
-    );
+    const connection = new Connection(SOLANA_RPC_URL, 'confirmed');
+    const mintInfo = await loadMint(connection, tokenMintPubkey);
 
-    if (remainingTasks.rows[0].count === '0') {
-      await query('UPDATE jobs SET status = $1, updated_at = NOW() WHERE job_id = $2', [
-        'completed',
-        job_id,
-      ]);
+    let recipientUpload;
+    try {
+      recipientUpload = await readScheduleUpload(req, mintInfo.decimals, duplicateHandling);
+    } catch (err) {
+      return res.status(400).json({ error: `Invalid recipient file: ${err.message}` });
+    }
+    if (recipientUpload.error) {
+      return res.status(400).json(recipientUpload.error);
     }
 
-    res.status(200).json({
-      job_id,
-      results,
-      message: 'Transactions processed.',
+    const schedule = await createSchedule(
+      {
+        scheduleId: randomUUID(),
+        distributorAddress: distributorPubkey.toBase58(),
+        name: settings.name ?? null,
+        tokenMintAddress: tokenMintPubkey.toBase58(),
+        tokenDecimals: mintInfo.decimals,
+        mode: settings.mode,
+        signingMode: settings.signingMode,
+        transferFeeMode,
+        duplicateHandling,
+        recurrence: settings.recurrence,
+        scheduledAt: settings.scheduledAt,
+        notifyUrl: settings.notifyUrl ?? null,
+      },
+      recipientUpload.recipients
+    );
+
+    console.log(`[Schedule ${schedule.schedule_id}]: Created, first run at ${schedule.next_run_at.toISOString()}`);
+    res.status(201).json({
+      ...schedule,
+      duplicates: {
+        mode: duplicateHandling,
+        count: recipientUpload.duplicates.length,
+        rows_in_file: recipientUpload.validation.recipients.length,
+        recipients: recipientUpload.duplicates,
+      },
+      validation: summarizeValidation(recipientUpload.validation),
     });
   } catch (err) {
-    console.error(`Error submitting transactions:`, err);
-    res.status(500).json({ error: `Failed to submit transactions: ${err.message}` });
+    console.error(`Error creating schedule:`, err);
+    res.status(500).json({ error: `Failed to create schedule: ${err.message}` });
   }
 });
 
-app.get('/api/job-status/:job_id', async (req, res) => {
-  const { job_id } = req.params;
+app.get('/api/schedules/:schedule_id', requireScheduleOwner, async (req, res) => {
+  try {
+    res.status(200).json(await getSchedule(req.params.schedule_id));
+  } catch (err) {
+    console.error(`Error fetching schedule:`, err);
+    res.status(500).json({ error: `Failed to fetch schedule: ${err.message}` });
+  }
+});
+
+/**
+ * Edits a schedule: name, scheduledAt, recurrence, mode, signingMode,
+ * notifyUrl, or status to pause and resume it. Jobs it already created are
+ * not affected.
+ */
+app.patch('/api/schedules/:schedule_id', requireScheduleOwner, async (req, res) => {
+  const { schedule_id } = req.params;
 
+  let changes;
   try {
-    const jobResult = await query('SELECT * FROM jobs WHERE job_id = $1', [job_id]);
-    if (jobResult.rows.length === 0) {
-      return res.status(404).json({ error: 'Job not found.' });
+    changes = parseScheduleChanges(req.body ?? {});
+  } catch (err) {
+    return res.status(400).json({ error: err.message });
+  }
+  if (Object.keys(changes).length === 0) {
+    return res.status(400).json({ error: 'Nothing to change.' });
+  }
+
+  try {
+    if (changes.mode !== undefined && !(await getModeProfile(req.auth.wallet, changes.mode))) {
+      return res.status(400).json({ error: `Unknown mode "${changes.mode}".` });
     }
-    const job = jobResult.rows[0];
 
-    const tasksResult = await query(
-      `SELECT status, COUNT(*) as count FROM tasks WHERE job_id = $1 GROUP BY status`,
-      [job_id]
-    );
+    const current = await getSchedule(schedule_id);
+    const status = changes.status ?? current.status;
+    const recurrence = changes.recurrence !== undefined ? changes.recurrence : current.recurrence;
+    const nextRunAt = changes.scheduledAt ?? current.next_run_at;
+    // A one-off schedule that has run, or whose time passed while paused, needs a new time
+    if (status === 'active' && !recurrence && (!nextRunAt || new Date(nextRunAt) <= new Date())) {
+      return res.status(400).json({ error: 'This schedule has no run left; give it a new scheduledAt.' });
+    }
 
-    const totalResult = await query(
-      `SELECT COUNT(*) as count FROM tasks WHERE job_id = $1`,
-      [job_id]
-    );
+    const schedule = await updateSchedule(schedule_id, changes);
+    console.log(`[Schedule ${schedule_id}]: Updated (${Object.keys(changes).join(', ')})`);
+    res.status(200).json(schedule);
+  } catch (err) {
+    if (err.invalidChange) {
+      return res.status(400).json({ error: err.message });
+    }
+    console.error(`Error updating schedule:`, err);
+    res.status(500).json({ error: `Failed to update schedule: ${err.message}` });
+  }
+});
 
-    const statusCounts = {
-      pending: 0,
-      processing: 0,
-      success: 0,
-      failed: 0,
-    };
+// Replaces the recipient list used by the schedule's future runs
+app.put(
+  '/api/schedules/:schedule_id/recipients',
+  requireScheduleOwner,
+  upload.single('csvFile'),
+  removeUploadWhenDone,
+  async (req, res) => {
+    const { schedule_id } = req.params;
+    const duplicateHandling = req.body.duplicateHandling || 'merge';
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'No recipient file uploaded.' });
+    }
+    if (!DUPLICATE_MODES.includes(duplicateHandling)) {
+      return res.status(400).json({ error: 'Invalid duplicate handling.' });
+    }
+
+    try {
+      const current = await getSchedule(schedule_id);
 
-    tasksResult.rows.forEach((row) => {
-      if (row.status in statusCounts) {
-        statusCounts[row.status] = parseInt(row.count);
+      let recipientUpload;
+      try {
+        recipientUpload = await readScheduleUpload(req, current.token_decimals, duplicateHandling);
+      } catch (err) {
+        return res.status(400).json({ error: `Invalid recipient file: ${err.message}` });
+      }
+      if (recipientUpload.error) {
+        return res.status(400).json(recipientUpload.error);
       }
-    });
 
-    res.status(200).json({
-      job_id: job.job_id,
-      job_status: job.status,
-      mode: job.mode,
-      token_mint: job.token_mint_address,
-      token_decimals: job.token_decimals,
-      distributor_address: job.distributor_address,
-      ...statusCounts,
-      total: parseInt(totalResult.rows[0].count),
-      error_message: job.error_message,
-      created_at: job.created_at,
-    });
-  } catch (err) {
-    console.error(`Error fetching job status:`, err);
-    res.status(500).json({ error: `Failed to fetch job status: ${err.message}` });
+      const schedule = await replaceScheduleRecipients(schedule_id, recipientUpload.recipients);
+      console.log(`[Schedule ${schedule_id}]: Recipient list replaced (${recipientUpload.recipients.length} recipients)`);
+      res.status(200).json({ ...schedule, validation: summarizeValidation(recipientUpload.validation) });
+    } catch (err) {
+      console.error(`Error replacing schedule recipients:`, err);
+      res.status(500).json({ error: `Failed to replace schedule recipients: ${err.message}` });
+    }
   }
-});
+);
 
-app.get('/api/job-tasks/:job_id', async (req, res) => {
-  const { job_id } = req.params;
+// Deletes a schedule; the jobs it created stay in the job history
+app.delete('/api/schedules/:schedule_id', requireScheduleOwner, async (req, res) => {
+  const { schedule_id } = req.params;
 
   try {
-    const tasksResult = await query(
-      `SELECT task_id, recipient_address, amount, status, retry_count, tx_signature, error_message
-       FROM tasks WHERE job_id = $1 ORDER BY task_id`,
-      [job_id]
-    );
-
-    res.status(200).json({
-      job_id: job_id,
-      tasks: tasksResult.rows,
-    });
+    await deleteSchedule(schedule_id);
+    console.log(`[Schedule ${schedule_id}]: Deleted`);
+    res.status(200).json({ schedule_id, deleted: true });
   } catch (err) {
-    console.error(`Error fetching tasks:`, err);
-    res.status(500).json({ error: `Failed to fetch tasks: ${err.message}` });
+    console.error(`Error deleting schedule:`, err);
+    res.status(500).json({ error: `Failed to delete schedule: ${err.message}` });
   }
 });
 
@@ -520,6 +2499,37 @@ app.get('/api/csv-template', (req, res) => {
 (async () => {
   try {
     await initDatabase();
+    await failInterruptedIngestions();
+
+    // Settle sends a previous process left unfinished before delegate jobs pick their tasks back up
+    const recoveryConnection = new Connection(SOLANA_RPC_URL, 'confirmed');
+    const recoveryOptions = {
+      onJobCompleted: finishDelegateJob,
+      onTasksRequeued: (job) => {
+        if (job.signing_mode === 'delegate') runDelegateJob(job.job_id);
+      },
+    };
+    await recoverStaleTasks(recoveryConnection, recoveryOptions).catch((err) =>
+      console.error('Task recovery error:', err.message)
+    );
+
+    const stopConfirmationTracker = startConfirmationTracker(new Connection(SOLANA_RPC_URL, 'confirmed'), {
+      onJobCompleted: finishDelegateJob,
+    });
+    const stopStaleTaskRecovery = startStaleTaskRecovery(recoveryConnection, recoveryOptions);
+    const stopScheduler = startScheduler({ onScheduleDue: runScheduledJob });
+    const submissionConnection = new Connection(SOLANA_RPC_URL, 'confirmed');
+    const stopSubmissionWorkers = startSubmissionWorkers({
+      sendBatch: (job, batchId, taskIds, transaction, options) =>
+        sendClaimedBatch(submissionConnection, job, batchId, taskIds, transaction, options),
+    });
+
+    // Pick delegate jobs back up where a previous process left off
+    const delegateJobs = await query(
+      'SELECT job_id FROM jobs WHERE signing_mode = $1 AND status = $2 AND delegate_status = $3',
+      ['delegate', 'running', 'approved']
+    );
+    delegateJobs.rows.forEach((row) => runDelegateJob(row.job_id));
 
     app.listen(PORT, () => {
       console.log(`
@@ -529,7 +2539,8 @@ app.get('/api/csv-template', (req, res) => {
 
 🚀 Server: http://localhost:${PORT}
 🗄️  Database: PostgreSQL
-🔑 Sanctum: ${SANCTUM_API_KEY ? '✅' : '❌'}
+🚚 Delivery: ${describeDeliveryConfig()}
+📬 Submission: ${describeSubmissionConfig()}
 🌐 RPC: ${SOLANA_RPC_URL}
 ⚡ Cluster: ${process.env.SOLANA_CLUSTER}
 
@@ -540,6 +2551,10 @@ Ready to process transactions! 🎉
     // Graceful shutdown
     process.on('SIGTERM', async () => {
       console.log('SIGTERM received, closing server...');
+      stopConfirmationTracker();
+      stopScheduler();
+      stopSubmissionWorkers();
+      stopStaleTaskRecovery();
       await closePool();
       process.exit(0);
     });
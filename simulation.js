@@ -0,0 +1,192 @@
+/*
+ * =============================================================================
+ * Pre-flight Simulation
+ * =============================================================================
+ * Simulates a job's packed transactions against the RPC and estimates what
+ * the whole distribution will cost before anything is signed. Each batch is
+ * simulated against the current chain state, so the balances of whoever
+ * pays (the distributor, or a delegate) are also run down batch by batch to
+ * catch a shortfall that only builds up over the job.
+ * =============================================================================
+ */
+
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { estimateTransactionFees, estimateCompiledTransactionCost } from './transactions.js';
+
+// Lookup tables store a 56-byte header followed by 32 bytes per address
+const LOOKUP_TABLE_META_SIZE = 56;
+
+const SIMULATION_OPTIONS = { sigVerify: false, replaceRecentBlockhash: true, commitment: 'confirmed' };
+
+// Maps simulation errors and program logs to something an operator can act on
+function classifyFailure(err, logs = []) {
+  const logText = logs.join('\n');
+
+  if (err === 'AccountNotFound' || err === 'InsufficientFundsForFee') {
+    return { code: 'insufficient_sol_for_fees', reason: 'Distributor has no SOL to pay transaction fees.' };
+  }
+  if (/Account is frozen/i.test(logText)) {
+    return { code: 'frozen_account', reason: 'A token account involved in the transfer is frozen.' };
+  }
+  if (/insufficient lamports/i.test(logText) || err?.InsufficientFundsForRent) {
+    return { code: 'insufficient_sol_for_ata_rent', reason: 'Distributor cannot fund rent for new token accounts.' };
+  }
+  if (/insufficient funds/i.test(logText)) {
+    return { code: 'insufficient_token_balance', reason: 'Distributor token balance is too low for these transfers.' };
+  }
+  return { code: 'simulation_failed', reason: `Simulation failed: ${JSON.stringify(err)}` };
+}
+
+// Why a batch would fail once the batches before it have spent their share, or null if what is left covers it
+function classifyShortfall(batch, spend, remaining) {
+  if (spend.sol > remaining.sol) {
+    const short = spend.sol - remaining.sol;
+    return batch.accountsCreated > 0
+      ? {
+          code: 'insufficient_sol_for_ata_rent',
+          reason: `Payer runs out of SOL for rent and fees by this transaction (${short} lamports short).`,
+        }
+      : {
+          code: 'insufficient_sol_for_fees',
+          reason: `Payer runs out of SOL for fees by this transaction (${short} lamports short).`,
+        };
+  }
+  if (spend.tokens > remaining.tokens) {
+    return {
+      code: 'insufficient_token_balance',
+      reason: `Tokens available to the signer run out by this transaction (${spend.tokens - remaining.tokens} base units short).`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Simulates a batch as built, or the pieces standing in for it when it was
+ * given a setup by addSimulationSetup, stopping at the first failure. The
+ * setup's own `setupUnits` are left out of each piece's consumption.
+ */
+async function simulateBatch(connection, batch, setupUnits) {
+  let unitsConsumed = null;
+  for (const transaction of batch.simulationTransactions ?? [batch.transaction]) {
+    const { value } = await connection.simulateTransaction(transaction, SIMULATION_OPTIONS);
+    if (value.unitsConsumed !== undefined && value.unitsConsumed !== null) {
+      unitsConsumed = (unitsConsumed ?? 0) + Math.max(value.unitsConsumed - setupUnits, 0);
+    }
+    if (value.err) {
+      return { err: value.err, logs: value.logs, unitsConsumed };
+    }
+  }
+  return { err: null, logs: [], unitsConsumed };
+}
+
+/**
+ * Simulates every batch and returns a per-transaction and per-task report.
+ * Compute units for a task are its share of the transaction's consumption.
+ * Given the payer's `balances` ({ solBalance, tokenBalance }, the tokens
+ * being what the transfer authority may move) and the `mintInfo`, each
+ * passing batch's fees, tips, ATA rent and tokens are taken off them in
+ * order, and a batch the remainder cannot cover fails as it would partway
+ * through the real run. `setupTransaction` is the setup from
+ * addSimulationSetup alone, simulated once to measure its compute units.
+ */
+export async function simulateBatches(connection, batches, { balances, mintInfo, setupTransaction } = {}) {
+  const transactions = [];
+  const tasks = [];
+  const remaining = balances ? { sol: balances.solBalance, tokens: balances.tokenBalance } : null;
+  const rentPerAccount = remaining
+    ? BigInt(await connection.getMinimumBalanceForRentExemption(mintInfo.accountSize))
+    : BigInt(0);
+  const setupUnits = setupTransaction
+    ? ((await connection.simulateTransaction(setupTransaction, SIMULATION_OPTIONS)).value.unitsConsumed ?? 0)
+    : 0;
+
+  for (const [index, batch] of batches.entries()) {
+    const { err, logs, unitsConsumed } = await simulateBatch(
+      connection,
+      batch,
+      batch.simulationTransactions ? setupUnits : 0
+    );
+    let failure = err ? classifyFailure(err, logs || []) : null;
+
+    if (remaining && !failure) {
+      const spend = {
+        sol: estimateCompiledTransactionCost(batch.transaction).total + rentPerAccount * BigInt(batch.accountsCreated),
+        tokens: batch.tokenAmount,
+      };
+      failure = classifyShortfall(batch, spend, remaining);
+      if (!failure) {
+        remaining.sol -= spend.sol;
+        remaining.tokens -= spend.tokens;
+      }
+    }
+    const { baseFee, priorityFee } = estimateTransactionFees(batch);
+
+    transactions.push({
+      index,
+      task_ids: batch.tasks.map((task) => task.task_id),
+      compute_units: unitsConsumed ?? null,
+      compute_unit_limit: batch.computeUnits,
+      accounts_created: batch.accountsCreated,
+      base_fee: baseFee.toString(),
+      priority_fee: priorityFee.toString(),
+      success: !failure,
+      error_code: failure?.code ?? null,
+      error: failure?.reason ?? null,
+      logs: failure ? (logs || []).slice(-10) : undefined,
+    });
+
+    for (const task of batch.tasks) {
+      tasks.push({
+        task_id: task.task_id,
+        recipient_address: task.recipient_address,
+        amount: task.amount,
+        transaction_index: index,
+        compute_units: unitsConsumed ? Math.ceil(unitsConsumed / batch.tasks.length) : null,
+        success: !failure,
+        error_code: failure?.code ?? null,
+        error: failure?.reason ?? null,
+      });
+    }
+  }
+
+  return { transactions, tasks };
+}
+
+/**
+ * Totals the SOL a job will spend: base and priority fees for each batch,
+ * rent for the ATAs it creates, and rent for a lookup table if one is
+ * still to be created (refunded when the table is closed).
+ */
+export async function estimateJobCost(connection, batches, mintInfo, { lookupTableAddresses = 0 } = {}) {
+  let baseFees = BigInt(0);
+  let priorityFees = BigInt(0);
+  let accountsCreated = 0;
+
+  for (const batch of batches) {
+    const fees = estimateTransactionFees(batch);
+    baseFees += fees.baseFee;
+    priorityFees += fees.priorityFee;
+    accountsCreated += batch.accountsCreated;
+  }
+
+  const rentPerAccount = BigInt(await connection.getMinimumBalanceForRentExemption(mintInfo.accountSize));
+  const ataRent = rentPerAccount * BigInt(accountsCreated);
+  const lookupTableRent = lookupTableAddresses
+    ? BigInt(
+        await connection.getMinimumBalanceForRentExemption(
+          LOOKUP_TABLE_META_SIZE + 32 * lookupTableAddresses
+        )
+      )
+    : BigInt(0);
+  const total = baseFees + priorityFees + ataRent + lookupTableRent;
+
+  return {
+    accounts_to_create: accountsCreated,
+    base_fees: baseFees.toString(),
+    priority_fees: priorityFees.toString(),
+    ata_rent: ataRent.toString(),
+    lookup_table_rent: lookupTableRent.toString(),
+    total_lamports: total.toString(),
+    total_sol: Number(total) / LAMPORTS_PER_SOL,
+  };
+}
@@ -0,0 +1,208 @@
+/*
+ * =============================================================================
+ * Submission Queue
+ * =============================================================================
+ * Background workers that send wallet-signed batches. The submit route stores
+ * each signed transaction on its tasks as `queued` and returns; workers claim
+ * one whole batch at a time with SELECT ... FOR UPDATE SKIP LOCKED, so neither
+ * two workers nor two server processes send the same batch. Sends from this
+ * process are paced: rate limits and RPC errors widen the gap between sends,
+ * and each success narrows it back towards the minimum.
+ * =============================================================================
+ */
+
+import { query } from './db.js';
+import { publishJobChange } from './events.js';
+import { completeJobIfDone } from './tracker.js';
+
+// --- Configuration ---
+const SUBMIT_CONCURRENCY = parseInt(process.env.SUBMIT_CONCURRENCY || '4', 10);
+const SUBMIT_MIN_INTERVAL_MS = parseInt(process.env.SUBMIT_MIN_INTERVAL_MS || '350', 10);
+const SUBMIT_MAX_INTERVAL_MS = parseInt(process.env.SUBMIT_MAX_INTERVAL_MS || '10000', 10);
+// Sends of a batch turned away by a rate limit or RPC error before its tasks fail
+const MAX_SUBMIT_ATTEMPTS = 5;
+const SUBMISSION_POLL_INTERVAL_MS = 1000;
+// Each success shrinks the gap by this factor; each rate limit or RPC error doubles it
+const INTERVAL_RECOVERY_FACTOR = 0.9;
+// Postgres error code for a transaction chosen as a deadlock victim
+const DEADLOCK_DETECTED = '40P01';
+
+let sendIntervalMs = SUBMIT_MIN_INTERVAL_MS;
+let nextSendAt = 0;
+
+/**
+ * Waits for this process's next send slot. Slots are handed out in call
+ * order, one gap apart, so concurrent workers and delegate jobs share the pace.
+ */
+export async function waitForSendSlot() {
+  const now = Date.now();
+  const slot = Math.max(now, nextSendAt);
+  nextSendAt = slot + sendIntervalMs;
+  if (slot > now) {
+    await new Promise((resolve) => setTimeout(resolve, slot - now));
+  }
+}
+
+// Adjusts the pace after a send: `err` is the delivery error, or null when it went out
+export function recordSendOutcome(err) {
+  if (!err) {
+    sendIntervalMs = Math.max(SUBMIT_MIN_INTERVAL_MS, Math.floor(sendIntervalMs * INTERVAL_RECOVERY_FACTOR));
+    return;
+  }
+  if (!err.transient) return;
+
+  sendIntervalMs = Math.min(SUBMIT_MAX_INTERVAL_MS, sendIntervalMs * 2);
+  // Hold back sends already waiting for a slot too
+  nextSendAt = Math.max(nextSendAt, Date.now() + sendIntervalMs);
+  console.log(`Submission backing off to one send per ${sendIntervalMs}ms (${err.message})`);
+}
+
+/**
+ * Moves a handed-out batch from signing to queued with its signed
+ * transaction. Returns the task ids queued; none if the batch is unknown, was
+ * already submitted or its signing window expired.
+ */
+export async function enqueueSignedBatch(jobId, batchId, transaction, actor) {
+  const result = await query(
+    `UPDATE tasks SET status = $1, signed_transaction = $2, submit_attempts = 0, next_attempt_at = NOW(),
+            signing_expires_at = NULL, status_actor = $6, updated_at = NOW()
+     WHERE job_id = $3 AND batch_id = $4 AND status = $5
+     RETURNING task_id`,
+    ['queued', transaction, jobId, batchId, 'signing', actor]
+  );
+  const taskIds = result.rows.map((row) => row.task_id).sort((a, b) => a - b);
+  publishJobChange(jobId, taskIds);
+  return taskIds;
+}
+
+/**
+ * Claims the oldest due batch of a running job, moving its tasks to
+ * processing. Only a batch's lowest queued task is a candidate, so the one
+ * row lock SKIP LOCKED takes stands for the whole batch: two workers never
+ * hold different rows of one batch and wait on each other. The status check
+ * on the outer update makes a worker that lost the race for a batch claim
+ * nothing. Returns null when nothing was claimed.
+ */
+async function claimQueuedBatch() {
+  const result = await query(
+    `UPDATE tasks SET status = $1, status_actor = $4, updated_at = NOW()
+     WHERE status = $2 AND (job_id, batch_id) = (
+       SELECT queued.job_id, queued.batch_id
+       FROM tasks queued JOIN jobs ON jobs.job_id = queued.job_id
+       WHERE queued.status = $2 AND queued.next_attempt_at <= NOW() AND jobs.status = $3
+         AND NOT EXISTS (
+           SELECT 1 FROM tasks earlier
+           WHERE earlier.job_id = queued.job_id AND earlier.batch_id = queued.batch_id
+             AND earlier.status = $2 AND earlier.task_id < queued.task_id
+         )
+       ORDER BY queued.next_attempt_at, queued.task_id
+       LIMIT 1
+       FOR UPDATE OF queued SKIP LOCKED
+     )
+     RETURNING task_id, job_id, batch_id, signed_transaction, submit_attempts`,
+    ['processing', 'queued', 'running', 'submitter']
+  );
+  if (result.rows.length === 0) return null;
+
+  const [first] = result.rows;
+  return {
+    jobId: first.job_id,
+    batchId: first.batch_id,
+    transaction: first.signed_transaction,
+    attempts: first.submit_attempts,
+    taskIds: result.rows.map((row) => row.task_id).sort((a, b) => a - b),
+  };
+}
+
+/**
+ * Puts a claimed batch back in the queue after a failure that never reached
+ * the network and is worth another try: a rate limit or an RPC error. Returns
+ * whether it did; other failures are left for the caller to record.
+ */
+async function requeueBatch(batch, err) {
+  if (!err.unsent || !err.transient || batch.attempts + 1 >= MAX_SUBMIT_ATTEMPTS) {
+    return false;
+  }
+
+  await query(
+    `UPDATE tasks SET status = $1, submit_attempts = submit_attempts + 1,
+            next_attempt_at = NOW() + make_interval(secs => $2), error_message = $3, status_actor = $5,
+            updated_at = NOW()
+     WHERE task_id = ANY($4)`,
+    ['queued', sendIntervalMs / 1000, err.message.substring(0, 500), batch.taskIds, 'submitter']
+  );
+  publishJobChange(batch.jobId, batch.taskIds);
+  console.log(`[Job ${batch.jobId}]: Batch ${batch.batchId} requeued (attempt ${batch.attempts + 1}): ${err.message}`);
+  return true;
+}
+
+// Claims and sends one batch. Returns whether there was one to send.
+async function submitNextBatch(options) {
+  const batch = await claimQueuedBatch();
+  if (!batch) return false;
+  publishJobChange(batch.jobId, batch.taskIds);
+
+  const jobResult = await query('SELECT * FROM jobs WHERE job_id = $1', [batch.jobId]);
+  await options.sendBatch(jobResult.rows[0], batch.batchId, batch.taskIds, batch.transaction, {
+    requeue: (err) => requeueBatch(batch, err),
+  });
+  await completeJobIfDone(batch.jobId);
+  return true;
+}
+
+/**
+ * Starts the submission workers. `sendBatch(job, batchId, taskIds,
+ * transaction, { requeue })` sends a claimed batch and records the outcome on
+ * its tasks, offering a failure to `requeue` first. One worker polls the
+ * queue; once it finds work, more start, up to SUBMIT_CONCURRENCY, and each
+ * stops when the queue runs dry. Returns a function that stops them.
+ */
+export function startSubmissionWorkers(options) {
+  let activeWorkers = 0;
+  let stopped = false;
+
+  async function work() {
+    activeWorkers++;
+    try {
+      while (!stopped) {
+        let claimed;
+        try {
+          claimed = await submitNextBatch(options);
+        } catch (err) {
+          // Postgres already rolled back the losing statement; claim again
+          if (err.code === DEADLOCK_DETECTED) {
+            console.log('Submission worker deadlocked on a batch; retrying');
+            continue;
+          }
+          throw err;
+        }
+        if (!claimed) break;
+        addWorkers();
+      }
+    } catch (err) {
+      console.error('Submission worker error:', err.message);
+    } finally {
+      activeWorkers--;
+    }
+  }
+
+  function addWorkers() {
+    while (!stopped && activeWorkers < SUBMIT_CONCURRENCY) {
+      work();
+    }
+  }
+
+  const timer = setInterval(() => {
+    if (activeWorkers === 0) work();
+  }, SUBMISSION_POLL_INTERVAL_MS);
+
+  return () => {
+    stopped = true;
+    clearInterval(timer);
+  };
+}
+
+// Concurrency and pacing, for the startup banner
+export function describeSubmissionConfig() {
+  return `${SUBMIT_CONCURRENCY} workers, ${SUBMIT_MIN_INTERVAL_MS}-${SUBMIT_MAX_INTERVAL_MS}ms between sends`;
+}
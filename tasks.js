@@ -0,0 +1,174 @@
+/*
+ * =============================================================================
+ * Task Listing
+ * =============================================================================
+ * Filtered, sorted and cursor-paginated reads of a job's tasks for the
+ * dashboard. Cursors are keyset positions (sort value + task id), so pages
+ * stay stable while tasks keep changing underneath. Each task's status
+ * history comes from task_events, which a trigger on tasks fills.
+ * =============================================================================
+ */
+
+import { query } from './db.js';
+
+// Task columns shown on the dashboard, shared by the task list and the events stream
+export const TASK_FIELDS = `task_id, batch_id, recipient_address, amount, memo, status, retry_count, tx_signature,
+                            error_message, confirmed_slot, confirmed_at, updated_at`;
+
+export const TASK_STATUSES = [
+  'pending',
+  'signing',
+  'queued',
+  'processing',
+  'sent',
+  'confirmed',
+  'finalized',
+  'success',
+  'failed',
+  'expired',
+  'cancelled',
+];
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+// Sort key -> SQL expression and the type its cursor value is cast back to
+const SORT_KEYS = {
+  task_id: { expression: 'task_id', type: 'integer' },
+  amount: { expression: 'amount::numeric', type: 'numeric' },
+  updated_at: { expression: 'updated_at', type: 'timestamp' },
+};
+
+// Search terms are base58, but escape LIKE wildcards anyway
+const escapeLike = (value) => value.replace(/[\\%_]/g, '\\$&');
+
+function encodeCursor(sort, order, value, taskId) {
+  return Buffer.from(JSON.stringify([sort, order, value, taskId])).toString('base64url');
+}
+
+function decodeCursor(cursor, sort, order) {
+  let decoded;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor.');
+  }
+  if (!Array.isArray(decoded) || decoded.length !== 4 || !Number.isInteger(decoded[3])) {
+    throw new Error('Invalid cursor.');
+  }
+  if (decoded[0] !== sort || decoded[1] !== order) {
+    throw new Error('Cursor belongs to a different sort order.');
+  }
+  return { value: decoded[2], taskId: decoded[3] };
+}
+
+/**
+ * Reads list options from a request's query string: `status` (comma-separated),
+ * `recipient` and `signature` prefixes, `sort` (task_id, amount, updated_at),
+ * `order` (asc, desc), `limit` and `cursor`. Throws on invalid values.
+ */
+export function parseTaskListOptions(params) {
+  const statuses = params.status ? String(params.status).split(',').map((status) => status.trim()) : [];
+  const unknownStatus = statuses.find((status) => !TASK_STATUSES.includes(status));
+  if (unknownStatus) {
+    throw new Error(`Unknown status "${unknownStatus}".`);
+  }
+
+  const sort = params.sort || 'task_id';
+  if (!SORT_KEYS[sort]) {
+    throw new Error(`Cannot sort by "${sort}"; expected ${Object.keys(SORT_KEYS).join(', ')}.`);
+  }
+  const order = params.order || 'asc';
+  if (order !== 'asc' && order !== 'desc') {
+    throw new Error('Order must be asc or desc.');
+  }
+
+  const limit = params.limit === undefined ? DEFAULT_PAGE_SIZE : parseInt(params.limit, 10);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new Error(`Limit must be between 1 and ${MAX_PAGE_SIZE}.`);
+  }
+
+  return {
+    statuses,
+    recipient: params.recipient ? String(params.recipient).trim() : null,
+    signature: params.signature ? String(params.signature).trim() : null,
+    sort,
+    order,
+    limit,
+    cursor: params.cursor ? decodeCursor(String(params.cursor), sort, order) : null,
+  };
+}
+
+/**
+ * Returns one page of a job's tasks, the cursor for the next page (null on
+ * the last one) and how many tasks match the filters overall.
+ */
+export async function listTasks(jobId, options) {
+  const { expression, type } = SORT_KEYS[options.sort];
+  const conditions = ['job_id = $1'];
+  const params = [jobId];
+
+  if (options.statuses.length > 0) {
+    params.push(options.statuses);
+    conditions.push(`status = ANY($${params.length})`);
+  }
+  if (options.recipient) {
+    params.push(`${escapeLike(options.recipient)}%`);
+    conditions.push(`recipient_address LIKE $${params.length}`);
+  }
+  if (options.signature) {
+    params.push(`${escapeLike(options.signature)}%`);
+    conditions.push(`tx_signature LIKE $${params.length}`);
+  }
+
+  // Counted before the cursor condition so it covers every page
+  const countResult = await query(`SELECT COUNT(*) FROM tasks WHERE ${conditions.join(' AND ')}`, params);
+
+  if (options.cursor) {
+    params.push(options.cursor.value, options.cursor.taskId);
+    const comparison = options.order === 'asc' ? '>' : '<';
+    conditions.push(
+      `(${expression}, task_id) ${comparison} ($${params.length - 1}::${type}, $${params.length}::integer)`
+    );
+  }
+
+  // One extra row tells whether another page follows
+  params.push(options.limit + 1);
+  const direction = options.order === 'asc' ? 'ASC' : 'DESC';
+  const tasksResult = await query(
+    `SELECT ${TASK_FIELDS}, (${expression})::text AS cursor_value
+     FROM tasks WHERE ${conditions.join(' AND ')}
+     ORDER BY ${expression} ${direction}, task_id ${direction}
+     LIMIT $${params.length}`,
+    params
+  );
+
+  const rows = tasksResult.rows.slice(0, options.limit);
+  const last = rows[rows.length - 1];
+  const nextCursor =
+    tasksResult.rows.length > options.limit
+      ? encodeCursor(options.sort, options.order, last.cursor_value, last.task_id)
+      : null;
+
+  return {
+    tasks: rows.map(({ cursor_value, ...task }) => task),
+    next_cursor: nextCursor,
+    total: parseInt(countResult.rows[0].count),
+  };
+}
+
+// A task's status changes, oldest first, or null if the job has no such task
+export async function listTaskEvents(jobId, taskId) {
+  const taskResult = await query('SELECT 1 FROM tasks WHERE job_id = $1 AND task_id = $2', [jobId, taskId]);
+  if (taskResult.rows.length === 0) {
+    return null;
+  }
+
+  const eventsResult = await query(
+    `SELECT event_id, previous_status, status, error_message, tx_signature, actor, created_at
+     FROM task_events WHERE job_id = $1 AND task_id = $2
+     ORDER BY event_id`,
+    [jobId, taskId]
+  );
+  return eventsResult.rows;
+}
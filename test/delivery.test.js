@@ -0,0 +1,80 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  Keypair,
+  PublicKey,
+  SendTransactionError,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { deliverTransaction } from '../delivery.js';
+
+const payer = Keypair.generate();
+// Carries a tip to one of Jito's tip accounts, so the jito provider will bundle it
+const transaction = (() => {
+  const tx = new VersionedTransaction(
+    new TransactionMessage({
+      payerKey: payer.publicKey,
+      recentBlockhash: Keypair.generate().publicKey.toBase58(),
+      instructions: [
+        SystemProgram.transfer({
+          fromPubkey: payer.publicKey,
+          toPubkey: new PublicKey('96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5'),
+          lamports: 10000,
+        }),
+      ],
+    }).compileToV0Message()
+  );
+  tx.sign([payer]);
+  return Buffer.from(tx.serialize()).toString('base64');
+})();
+
+const originalFetch = globalThis.fetch;
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+test('deliverTransaction does not report a possibly sent transaction as unsent after a later refusal', async () => {
+  // Jito's block engine fails with a 5xx after the bundle may have gone out...
+  globalThis.fetch = async () => new Response('upstream error', { status: 502 });
+  // ...and the rpc fallback's preflight then refuses the same bytes
+  const connection = {
+    getBlockHeight: async () => 1000,
+    sendRawTransaction: async () => {
+      throw new SendTransactionError({
+        action: 'send',
+        signature: 'sig',
+        transactionMessage: 'This transaction has already been processed',
+      });
+    },
+  };
+  const sends = [];
+
+  await assert.rejects(
+    deliverTransaction(connection, { job_id: 'job', delivery_provider: 'jito' }, 1, transaction, null, async (send) => {
+      sends.push(send);
+    }),
+    (err) => {
+      assert.notEqual(err.unsent, true);
+      assert.match(err.message, /HTTP 502/);
+      return true;
+    }
+  );
+  assert.equal(sends.length, 2);
+});
+
+test('deliverTransaction reports a transaction every provider turned away as unsent', async () => {
+  globalThis.fetch = async () => new Response('rate limited', { status: 429 });
+  const connection = {
+    getBlockHeight: async () => 1000,
+    sendRawTransaction: async () => {
+      throw new SendTransactionError({ action: 'simulate', transactionMessage: 'insufficient funds' });
+    },
+  };
+
+  await assert.rejects(
+    deliverTransaction(connection, { job_id: 'job', delivery_provider: 'jito' }, 1, transaction, null),
+    (err) => err.unsent === true
+  );
+});
@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveComputeUnitPrice } from '../modes.js';
+
+// Stands in for the RPC, recording which accounts were asked about
+function feeConnection(fees) {
+  const connection = {
+    requests: [],
+    getRecentPrioritizationFees: async (config) => {
+      connection.requests.push(config);
+      return fees.map((prioritizationFee, slot) => ({ slot, prioritizationFee }));
+    },
+  };
+  return connection;
+}
+
+const recentFees = [500, 100, 400, 200, 300, 1000, 600, 700, 800, 900];
+
+test('resolveComputeUnitPrice returns a fixed price without asking the RPC', async () => {
+  const connection = feeConnection(recentFees);
+  const price = await resolveComputeUnitPrice(connection, { cu_price_strategy: 'fixed', cu_price_micro_lamports: 5000 }, []);
+  assert.equal(price, 5000);
+  assert.equal(connection.requests.length, 0);
+});
+
+test('resolveComputeUnitPrice takes the nearest-rank percentile of recent fees for the accounts', async () => {
+  const connection = feeConnection(recentFees);
+  const profile = { cu_price_strategy: 'percentile', cu_price_percentile: 75 };
+  assert.equal(await resolveComputeUnitPrice(connection, profile, ['payer']), 800);
+  assert.deepEqual(connection.requests[0], { lockedWritableAccounts: ['payer'] });
+  assert.equal(await resolveComputeUnitPrice(connection, { ...profile, cu_price_percentile: 0 }, []), 100);
+  assert.equal(await resolveComputeUnitPrice(connection, { ...profile, cu_price_percentile: 100 }, []), 1000);
+});
+
+test('resolveComputeUnitPrice caps the percentile price in capped mode', async () => {
+  const connection = feeConnection(recentFees);
+  const profile = { cu_price_strategy: 'capped', cu_price_percentile: 90, cu_price_micro_lamports: 650 };
+  assert.equal(await resolveComputeUnitPrice(connection, profile, []), 650);
+  assert.equal(await resolveComputeUnitPrice(connection, { ...profile, cu_price_percentile: 20 }, []), 200);
+});
+
+test('resolveComputeUnitPrice pays nothing extra when no recent fees were paid', async () => {
+  const profile = { cu_price_strategy: 'percentile', cu_price_percentile: 50 };
+  assert.equal(await resolveComputeUnitPrice(feeConnection([]), profile, []), 0);
+});
@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair, PublicKey, SystemProgram } from '@solana/web3.js';
+import { applyDuplicatePolicy, toSmallestUnit, fromSmallestUnit, validateRecipientRows } from '../recipients.js';
+
+const alice = Keypair.generate().publicKey.toBase58();
+const bob = Keypair.generate().publicKey.toBase58();
+
+const recipients = [
+  { line: 2, address: alice, amount: '100', memo: 'march' },
+  { line: 3, address: bob, amount: '50', memo: null },
+  { line: 4, address: alice, amount: '25', memo: 'bonus' },
+  { line: 5, address: alice, amount: '5', memo: 'march' },
+];
+
+test('applyDuplicatePolicy merges a repeated address into its first row', () => {
+  const result = applyDuplicatePolicy(recipients, 'merge');
+  assert.deepEqual(result.recipients, [
+    { line: 2, address: alice, amount: '130', memo: 'march; bonus' },
+    { line: 3, address: bob, amount: '50', memo: null },
+  ]);
+  assert.deepEqual(result.duplicates, [{ address: alice, occurrences: 3, total_amount: '130' }]);
+});
+
+test('applyDuplicatePolicy keeps every row outside merge mode and still reports duplicates', () => {
+  for (const mode of ['keep', 'reject']) {
+    const result = applyDuplicatePolicy(recipients, mode);
+    assert.equal(result.recipients, recipients);
+    assert.deepEqual(result.duplicates, [{ address: alice, occurrences: 3, total_amount: '130' }]);
+  }
+});
+
+test('applyDuplicatePolicy reports nothing for a list without repeats', () => {
+  const result = applyDuplicatePolicy(recipients.slice(0, 2), 'merge');
+  assert.deepEqual(result.duplicates, []);
+  assert.equal(result.recipients.length, 2);
+});
+
+test('toSmallestUnit converts decimals and reports cut-off digits', () => {
+  assert.deepEqual(toSmallestUnit('1.5', 6), { value: BigInt(1500000), truncated: false });
+  assert.deepEqual(toSmallestUnit('42', 0), { value: BigInt(42), truncated: false });
+  assert.deepEqual(toSmallestUnit('0.1234567', 6), { value: BigInt(123456), truncated: true });
+  assert.deepEqual(toSmallestUnit('0.1234560', 6), { value: BigInt(123456), truncated: false });
+});
+
+test('fromSmallestUnit converts back without trailing zeros', () => {
+  assert.equal(fromSmallestUnit('1500000', 6), '1.5');
+  assert.equal(fromSmallestUnit(BigInt(7), 6), '0.000007');
+  assert.equal(fromSmallestUnit('2000000', 6), '2');
+  assert.equal(fromSmallestUnit('42', 0), '42');
+});
+
+test('validateRecipientRows rejects each bad row with its reason', () => {
+  const rows = [
+    { line: 2, address: alice, amount: '1.5', memo: null },
+    { line: 3, address: '', amount: '1', memo: null },
+    { line: 4, address: bob, amount: '', memo: null },
+    { line: 5, address: 'not-a-key', amount: '1', memo: null },
+    { line: 6, address: bob, amount: '-1', memo: null },
+    { line: 7, address: bob, amount: '1e3', memo: null },
+    { line: 8, address: bob, amount: '0.0000001', memo: null },
+    { line: 9, address: bob, amount: '1', memo: 'x'.repeat(257) },
+    { line: 10, address: '', amount: '', memo: null, error: 'Line is not valid JSON.' },
+  ];
+  const { recipients: valid, rejected } = validateRecipientRows(rows, 6);
+
+  assert.deepEqual(valid, [{ line: 2, address: alice, amount: '1500000', memo: null }]);
+  assert.deepEqual(
+    rejected.map((row) => [row.line, row.code]),
+    [
+      [3, 'missing_address'],
+      [4, 'missing_amount'],
+      [5, 'invalid_address'],
+      [6, 'negative_amount'],
+      [7, 'invalid_amount'],
+      [8, 'non_positive_amount'],
+      [9, 'memo_too_long'],
+      [10, 'invalid_row'],
+    ]
+  );
+});
+
+test('validateRecipientRows warns about cut-off precision and off-curve addresses', () => {
+  const [pda] = PublicKey.findProgramAddressSync([Buffer.from('vault')], SystemProgram.programId);
+  const { recipients: valid, warnings } = validateRecipientRows(
+    [
+      { line: 2, address: alice, amount: '1.0000009', memo: null },
+      { line: 3, address: pda.toBase58(), amount: '1', memo: null },
+    ],
+    6
+  );
+
+  assert.equal(valid.length, 2);
+  assert.equal(valid[0].amount, '1000000');
+  assert.deepEqual(
+    warnings.map((warning) => [warning.line, warning.code]),
+    [
+      [2, 'precision_loss'],
+      [3, 'off_curve_address'],
+    ]
+  );
+});
@@ -0,0 +1,25 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { csvField } from '../reports.js';
+
+test('csvField leaves plain values alone and empties missing ones', () => {
+  assert.equal(csvField('abc'), 'abc');
+  assert.equal(csvField(42), '42');
+  assert.equal(csvField(null), '');
+  assert.equal(csvField(undefined), '');
+});
+
+test('csvField quotes values with separators, quotes or line breaks', () => {
+  assert.equal(csvField('a,b'), '"a,b"');
+  assert.equal(csvField('say "hi"'), '"say ""hi"""');
+  assert.equal(csvField('two\nlines'), '"two\nlines"');
+  assert.equal(csvField('cr\rlf'), '"cr\rlf"');
+});
+
+test('csvField defuses values a spreadsheet would run as a formula', () => {
+  assert.equal(csvField('=SUM(A1:A2)'), "'=SUM(A1:A2)");
+  assert.equal(csvField('+1'), "'+1");
+  assert.equal(csvField('-1'), "'-1");
+  assert.equal(csvField('@cmd'), "'@cmd");
+  assert.equal(csvField('=HYPERLINK("x","y")'), '"\'=HYPERLINK(""x"",""y"")"');
+});
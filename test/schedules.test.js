@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { occurrenceAt, parseScheduleChanges } from '../schedules.js';
+
+test('occurrenceAt steps daily, weekly and biweekly runs by whole days', () => {
+  const first = '2026-01-30T09:00:00.000Z';
+  assert.equal(occurrenceAt(first, 'daily', 3).toISOString(), '2026-02-02T09:00:00.000Z');
+  assert.equal(occurrenceAt(first, 'weekly', 1).toISOString(), '2026-02-06T09:00:00.000Z');
+  assert.equal(occurrenceAt(first, 'biweekly', 2).toISOString(), '2026-02-27T09:00:00.000Z');
+});
+
+test('occurrenceAt keeps the day of the month and falls back in shorter months', () => {
+  const first = '2026-01-31T09:00:00.000Z';
+  assert.equal(occurrenceAt(first, 'monthly', 0).toISOString(), first);
+  assert.equal(occurrenceAt(first, 'monthly', 1).toISOString(), '2026-02-28T09:00:00.000Z');
+  assert.equal(occurrenceAt(first, 'monthly', 2).toISOString(), '2026-03-31T09:00:00.000Z');
+  assert.equal(occurrenceAt(first, 'monthly', 13).toISOString(), '2027-02-28T09:00:00.000Z');
+});
+
+test('parseScheduleChanges returns only the fields present', () => {
+  assert.deepEqual(parseScheduleChanges({}), {});
+  assert.deepEqual(parseScheduleChanges({ name: '  Payroll  ', recurrence: 'none', status: 'paused' }), {
+    name: 'Payroll',
+    recurrence: null,
+    status: 'paused',
+  });
+});
+
+test('parseScheduleChanges accepts a future time, a recurrence and a signing mode', () => {
+  const scheduledAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+  const changes = parseScheduleChanges({ scheduledAt, recurrence: 'monthly', signingMode: 'delegate', mode: 'fast' });
+  assert.equal(changes.scheduledAt.toISOString(), scheduledAt);
+  assert.equal(changes.recurrence, 'monthly');
+  assert.equal(changes.signingMode, 'delegate');
+  assert.equal(changes.mode, 'fast');
+});
+
+test('parseScheduleChanges rejects invalid values', () => {
+  const past = new Date(Date.now() - 60 * 1000).toISOString();
+  assert.throws(() => parseScheduleChanges({ name: 'x'.repeat(101) }), /at most 100/);
+  assert.throws(() => parseScheduleChanges({ scheduledAt: 'tomorrow' }), /ISO 8601/);
+  assert.throws(() => parseScheduleChanges({ scheduledAt: past }), /in the future/);
+  assert.throws(() => parseScheduleChanges({ recurrence: 'yearly' }), /Recurrence/);
+  assert.throws(() => parseScheduleChanges({ mode: '' }), /Invalid mode/);
+  assert.throws(() => parseScheduleChanges({ signingMode: 'server' }), /signing mode/);
+  assert.throws(() => parseScheduleChanges({ status: 'completed' }), /active or paused/);
+});
+
+test('parseScheduleChanges only takes notifyUrl as a public http(s) URL', () => {
+  assert.equal(parseScheduleChanges({ notifyUrl: 'https://example.com/hook' }).notifyUrl, 'https://example.com/hook');
+  assert.equal(parseScheduleChanges({ notifyUrl: '' }).notifyUrl, null);
+  assert.throws(() => parseScheduleChanges({ notifyUrl: 'not a url' }), /http\(s\) URL/);
+  assert.throws(() => parseScheduleChanges({ notifyUrl: 'ftp://example.com' }), /http\(s\) URL/);
+  for (const url of [
+    'http://localhost:3000',
+    'http://api.localhost',
+    'http://127.0.0.1',
+    'http://10.1.2.3',
+    'http://169.254.169.254/latest',
+    'http://[::1]/',
+    'http://[::ffff:192.168.0.1]/',
+  ]) {
+    assert.throws(() => parseScheduleChanges({ notifyUrl: url }), /public host/, url);
+  }
+});
@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+import { simulateBatches } from '../simulation.js';
+
+const RENT_PER_ACCOUNT = 2000;
+
+const transaction = new VersionedTransaction(
+  new TransactionMessage({
+    payerKey: Keypair.generate().publicKey,
+    recentBlockhash: Keypair.generate().publicKey.toBase58(),
+    instructions: [],
+  }).compileToV0Message()
+);
+
+// One-transfer batch costing the 5000-lamport base fee plus rent for the accounts it creates
+const batch = (taskId, tokenAmount, accountsCreated = 0) => ({
+  tasks: [{ task_id: taskId, recipient_address: `recipient-${taskId}`, amount: String(tokenAmount) }],
+  transaction,
+  computeUnits: 1000,
+  computeUnitPrice: 0,
+  accountsCreated,
+  tokenAmount: BigInt(tokenAmount),
+});
+
+const connection = {
+  simulateTransaction: async () => ({ value: { err: null, logs: [], unitsConsumed: 900 } }),
+  getMinimumBalanceForRentExemption: async () => RENT_PER_ACCOUNT,
+};
+const mintInfo = { accountSize: 165 };
+
+test('simulateBatches passes every batch the RPC accepts when no balances are given', async () => {
+  const { transactions, tasks } = await simulateBatches(connection, [batch(1, 60), batch(2, 60)]);
+  assert.deepEqual(transactions.map((tx) => tx.success), [true, true]);
+  assert.deepEqual(tasks.map((task) => [task.task_id, task.compute_units]), [[1, 900], [2, 900]]);
+});
+
+test('simulateBatches fails the batch where the token balance runs out over the job', async () => {
+  const { transactions, tasks } = await simulateBatches(connection, [batch(1, 60), batch(2, 60), batch(3, 30)], {
+    mintInfo,
+    balances: { solBalance: BigInt(1000000), tokenBalance: BigInt(100) },
+  });
+  assert.deepEqual(transactions.map((tx) => tx.error_code), [null, 'insufficient_token_balance', null]);
+  assert.match(transactions[1].error, /20 base units short/);
+  assert.deepEqual(tasks.map((task) => task.success), [true, false, true]);
+});
+
+test('simulateBatches fails the batch where SOL for fees and rent runs out over the job', async () => {
+  const { transactions } = await simulateBatches(connection, [batch(1, 1, 1), batch(2, 1, 1), batch(3, 1)], {
+    mintInfo,
+    balances: { solBalance: BigInt(2 * 5000 + RENT_PER_ACCOUNT), tokenBalance: BigInt(100) },
+  });
+  assert.deepEqual(transactions.map((tx) => tx.error_code), [null, 'insufficient_sol_for_ata_rent', null]);
+  assert.match(transactions[1].error, /2000 lamports short/);
+});
+
+test('simulateBatches keeps the RPC failure for a batch that would fail on its own', async () => {
+  const failing = {
+    ...connection,
+    simulateTransaction: async () => ({
+      value: { err: { InstructionError: [0, 'Custom'] }, logs: ['Program log: Error: Account is frozen'] },
+    }),
+  };
+  const { transactions } = await simulateBatches(failing, [batch(1, 1)], {
+    mintInfo,
+    balances: { solBalance: BigInt(0), tokenBalance: BigInt(0) },
+  });
+  assert.equal(transactions[0].error_code, 'frozen_account');
+});
+
+test('simulateBatches simulates the setup pieces of a batch and leaves the setup out of its units', async () => {
+  // The setup alone, then the two pieces that each carry it in front of their transfers
+  const consumed = [300, 1300, 800];
+  let calls = 0;
+  const piecewise = {
+    ...connection,
+    simulateTransaction: async () => ({ value: { err: null, logs: [], unitsConsumed: consumed[calls++] } }),
+  };
+
+  const { transactions, tasks } = await simulateBatches(
+    piecewise,
+    [{ ...batch(1, 10), simulationTransactions: [transaction, transaction] }],
+    { mintInfo, balances: { solBalance: BigInt(1000000), tokenBalance: BigInt(100) }, setupTransaction: transaction }
+  );
+  assert.equal(calls, 3);
+  assert.equal(transactions[0].compute_units, 1500);
+  assert.equal(tasks[0].compute_units, 1500);
+});
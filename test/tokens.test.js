@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateTransfer } from '../tokens.js';
+
+// 1% fee capped at 500 base units, raised to 2% from epoch 10
+const feeMint = {
+  transferFeeConfig: {
+    olderTransferFee: { epoch: BigInt(0), maximumFee: BigInt(500), transferFeeBasisPoints: 100 },
+    newerTransferFee: { epoch: BigInt(10), maximumFee: BigInt(500), transferFeeBasisPoints: 200 },
+  },
+};
+
+test('calculateTransfer sends the amount as is for mints without a transfer fee', () => {
+  assert.deepEqual(calculateTransfer({ transferFeeConfig: null }, BigInt(1000), BigInt(0), 'net'), {
+    transferAmount: BigInt(1000),
+    fee: BigInt(0),
+  });
+});
+
+test('calculateTransfer in gross mode takes the fee out of the amount', () => {
+  assert.deepEqual(calculateTransfer(feeMint, BigInt(1000), BigInt(0), 'gross'), {
+    transferAmount: BigInt(1000),
+    fee: BigInt(10),
+  });
+});
+
+test('calculateTransfer in net mode sends enough for the recipient to receive the amount', () => {
+  const { transferAmount, fee } = calculateTransfer(feeMint, BigInt(1000), BigInt(0), 'net');
+  assert.equal(transferAmount - fee, BigInt(1000));
+  assert.equal(transferAmount, BigInt(1011));
+});
+
+test('calculateTransfer uses the fee of the given epoch', () => {
+  assert.equal(calculateTransfer(feeMint, BigInt(1000), BigInt(10), 'gross').fee, BigInt(20));
+});
+
+test('calculateTransfer in net mode adds no more than the maximum fee', () => {
+  const { transferAmount, fee } = calculateTransfer(feeMint, BigInt(1000000), BigInt(0), 'net');
+  assert.equal(fee, BigInt(500));
+  assert.equal(transferAmount, BigInt(1000500));
+});
+
+test('calculateTransfer in net mode never leaves the recipient short after rounding', () => {
+  for (let amount = 1; amount <= 300; amount++) {
+    const { transferAmount, fee } = calculateTransfer(feeMint, BigInt(amount), BigInt(10), 'net');
+    assert.ok(transferAmount - fee >= BigInt(amount), `amount ${amount}`);
+  }
+});
@@ -0,0 +1,107 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  AddressLookupTableProgram,
+  Keypair,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  createApproveCheckedInstruction,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import { addSimulationSetup, isLookupTableStepTransaction } from '../transactions.js';
+
+const authority = Keypair.generate().publicKey;
+const lookupTable = Keypair.generate().publicKey;
+
+const encode = (instructions) =>
+  Buffer.from(
+    new VersionedTransaction(
+      new TransactionMessage({
+        payerKey: authority,
+        recentBlockhash: Keypair.generate().publicKey.toBase58(),
+        instructions,
+      }).compileToV0Message()
+    ).serialize()
+  ).toString('base64');
+
+const deactivate = (table) => AddressLookupTableProgram.deactivateLookupTable({ lookupTable: table, authority });
+const close = (table) =>
+  AddressLookupTableProgram.closeLookupTable({ lookupTable: table, authority, recipient: authority });
+
+test('isLookupTableStepTransaction accepts the expected step on the job table', () => {
+  assert.equal(isLookupTableStepTransaction(encode([deactivate(lookupTable)]), lookupTable.toBase58(), 'deactivate'), true);
+  assert.equal(isLookupTableStepTransaction(encode([close(lookupTable)]), lookupTable.toBase58(), 'close'), true);
+});
+
+test('isLookupTableStepTransaction rejects another step, another table or extra instructions', () => {
+  const address = lookupTable.toBase58();
+  assert.equal(isLookupTableStepTransaction(encode([close(lookupTable)]), address, 'deactivate'), false);
+  assert.equal(isLookupTableStepTransaction(encode([deactivate(Keypair.generate().publicKey)]), address, 'deactivate'), false);
+  assert.equal(
+    isLookupTableStepTransaction(
+      encode([
+        deactivate(lookupTable),
+        SystemProgram.transfer({ fromPubkey: authority, toPubkey: Keypair.generate().publicKey, lamports: 1 }),
+      ]),
+      address,
+      'deactivate'
+    ),
+    false
+  );
+});
+
+test('addSimulationSetup puts the setup in front of every transfer, splitting full batches', () => {
+  const distributor = Keypair.generate().publicKey;
+  const delegate = Keypair.generate().publicKey;
+  const mint = Keypair.generate().publicKey;
+  const source = getAssociatedTokenAddressSync(mint, distributor);
+
+  // Ten new recipients fill a packet; the setup cannot fit alongside all of them
+  const instructions = [];
+  for (let i = 0; i < 10; i++) {
+    const owner = Keypair.generate().publicKey;
+    const destination = getAssociatedTokenAddressSync(mint, owner);
+    instructions.push(
+      createAssociatedTokenAccountIdempotentInstruction(delegate, destination, owner, mint),
+      createTransferCheckedInstruction(source, mint, destination, delegate, BigInt(i + 1), 6)
+    );
+  }
+  const recentBlockhash = Keypair.generate().publicKey.toBase58();
+  const batch = {
+    instructions,
+    transaction: new VersionedTransaction(
+      new TransactionMessage({ payerKey: delegate, recentBlockhash, instructions: [] }).compileToV0Message()
+    ),
+  };
+  const setup = [
+    createApproveCheckedInstruction(source, mint, delegate, distributor, BigInt(55), 6),
+    SystemProgram.transfer({ fromPubkey: distributor, toPubkey: delegate, lamports: 1000000 }),
+  ];
+
+  const setupTransaction = addSimulationSetup([batch], distributor, setup);
+
+  assert.equal(setupTransaction.message.compiledInstructions.length, 4);
+  assert.ok(batch.simulationTransactions.length > 1);
+  const transferAmounts = [];
+  for (const transaction of batch.simulationTransactions) {
+    const { message } = transaction;
+    assert.equal(message.staticAccountKeys[0].toBase58(), distributor.toBase58());
+    const programs = message.compiledInstructions.map((instruction) => message.staticAccountKeys[instruction.programIdIndex]);
+    // Compute budget limit and price, then the approval and funding
+    assert.ok(programs[2].equals(TOKEN_PROGRAM_ID));
+    assert.ok(programs[3].equals(SystemProgram.programId));
+    message.compiledInstructions.slice(4).forEach((instruction, index) => {
+      const program = programs[index + 4];
+      if (program.equals(TOKEN_PROGRAM_ID)) transferAmounts.push(Buffer.from(instruction.data).readBigUInt64LE(1));
+      else assert.ok(program.equals(ASSOCIATED_TOKEN_PROGRAM_ID));
+    });
+  }
+  assert.deepEqual(transferAmounts, Array.from({ length: 10 }, (_, i) => BigInt(i + 1)));
+});
@@ -0,0 +1,214 @@
+/*
+ * =============================================================================
+ * Token Program Helpers
+ * =============================================================================
+ * Detects whether a mint belongs to SPL Token or Token-2022, reads its
+ * extensions and builds the matching transferChecked instructions.
+ * =============================================================================
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import {
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  ExtensionType,
+  unpackMint,
+  getExtensionTypes,
+  getAccountLenForMint,
+  getTransferFeeConfig,
+  getTransferHook,
+  getEpochFee,
+  calculateEpochFee,
+  createTransferCheckedInstruction,
+  createTransferCheckedWithFeeInstruction,
+  getExtraAccountMetaAddress,
+  getExtraAccountMetas,
+  resolveExtraAccountMeta,
+  createExecuteInstruction,
+  MAX_FEE_BASIS_POINTS,
+} from '@solana/spl-token';
+
+export const TRANSFER_FEE_MODES = ['gross', 'net'];
+
+/**
+ * Fetches a mint and works out which token program owns it, along with the
+ * extensions that affect transfers.
+ */
+export async function loadMint(connection, mintPubkey) {
+  const accountInfo = await connection.getAccountInfo(mintPubkey);
+  if (!accountInfo) {
+    throw new Error('Token mint not found.');
+  }
+
+  const programId = accountInfo.owner;
+  if (!programId.equals(TOKEN_PROGRAM_ID) && !programId.equals(TOKEN_2022_PROGRAM_ID)) {
+    throw new Error('Mint is not owned by the SPL Token or Token-2022 program.');
+  }
+
+  const mint = unpackMint(mintPubkey, accountInfo, programId);
+  // A hook extension pointing at the default key has no program to invoke
+  const transferHook = getTransferHook(mint);
+
+  return {
+    address: mintPubkey,
+    programId,
+    decimals: mint.decimals,
+    // Size of a token account for this mint, which sets the ATA rent
+    accountSize: getAccountLenForMint(mint),
+    extensions: getExtensionTypes(mint.tlvData).map((type) => ExtensionType[type]),
+    transferFeeConfig: getTransferFeeConfig(mint),
+    transferHook: transferHook && !transferHook.programId.equals(PublicKey.default) ? transferHook : null,
+  };
+}
+
+// Token program recorded on the job; jobs created before Token-2022 support are classic SPL
+export function getJobTokenProgramId(job) {
+  return job.token_program_id ? new PublicKey(job.token_program_id) : TOKEN_PROGRAM_ID;
+}
+
+// Smallest pre-fee amount whose fee still leaves `netAmount` for the recipient
+function calculateGrossAmount(transferFee, netAmount) {
+  const basisPoints = BigInt(transferFee.transferFeeBasisPoints);
+  if (basisPoints === BigInt(0) || netAmount === BigInt(0)) {
+    return netAmount;
+  }
+  if (basisPoints === BigInt(MAX_FEE_BASIS_POINTS)) {
+    return netAmount + transferFee.maximumFee;
+  }
+
+  const maxBasisPoints = BigInt(MAX_FEE_BASIS_POINTS);
+  const denominator = maxBasisPoints - basisPoints;
+  const rawGross = (netAmount * maxBasisPoints + denominator - BigInt(1)) / denominator;
+  if (rawGross - netAmount >= transferFee.maximumFee) {
+    return netAmount + transferFee.maximumFee;
+  }
+  return rawGross;
+}
+
+/**
+ * Works out what is actually sent for a task amount. In `gross` mode the
+ * recipient absorbs the transfer fee; in `net` mode the distributor sends
+ * extra so the recipient receives the full amount.
+ */
+export function calculateTransfer(mintInfo, amount, epoch, feeMode = 'gross') {
+  if (!mintInfo.transferFeeConfig) {
+    return { transferAmount: amount, fee: BigInt(0) };
+  }
+
+  const config = mintInfo.transferFeeConfig;
+  let transferAmount = amount;
+  if (feeMode === 'net') {
+    transferAmount = calculateGrossAmount(getEpochFee(config, epoch), amount);
+    // Fee rounding can leave the recipient one unit short
+    while (transferAmount - calculateEpochFee(config, epoch, transferAmount) < amount) {
+      transferAmount += BigInt(1);
+    }
+  }
+
+  return { transferAmount, fee: calculateEpochFee(config, epoch, transferAmount) };
+}
+
+/**
+ * Reads the extra account list of a hook mint's program once, so every
+ * transfer in a build resolves its hook accounts from it instead of fetching
+ * the mint and the list again. Null for mints without a hook.
+ */
+export async function loadTransferHookAccounts(connection, mintInfo) {
+  if (!mintInfo.transferHook) {
+    return null;
+  }
+  const { programId } = mintInfo.transferHook;
+  const validationAddress = getExtraAccountMetaAddress(mintInfo.address, programId);
+  const validationAccount = await connection.getAccountInfo(validationAddress, 'confirmed');
+  return {
+    programId,
+    validationAddress,
+    extraAccountMetas: validationAccount ? getExtraAccountMetas(validationAccount) : null,
+  };
+}
+
+// A resolved account never asks for more privilege than the instruction already grants it
+function deEscalateAccountMeta(accountMeta, accountMetas) {
+  const matching = accountMetas.filter((meta) => meta.pubkey.equals(accountMeta.pubkey));
+  if (matching.length === 0) {
+    return accountMeta;
+  }
+  return {
+    ...accountMeta,
+    isSigner: accountMeta.isSigner && matching.some((meta) => meta.isSigner),
+    isWritable: accountMeta.isWritable && matching.some((meta) => meta.isWritable),
+  };
+}
+
+// Appends the hook program's accounts to a transfer, as spl-token's addExtraAccountMetasForExecute does
+async function addTransferHookAccounts(connection, instruction, hookAccounts, { source, mint, destination, owner, amount }) {
+  const { programId, validationAddress, extraAccountMetas } = hookAccounts;
+  if (!extraAccountMetas) {
+    return;
+  }
+
+  const executeInstruction = createExecuteInstruction(
+    programId, source, mint, destination, owner, validationAddress, BigInt(amount)
+  );
+  for (const extraAccountMeta of extraAccountMetas) {
+    const resolved = await resolveExtraAccountMeta(
+      connection, extraAccountMeta, executeInstruction.keys, executeInstruction.data, programId
+    );
+    executeInstruction.keys.push(deEscalateAccountMeta(resolved, executeInstruction.keys));
+  }
+
+  instruction.keys.push(
+    ...executeInstruction.keys.slice(5),
+    { pubkey: programId, isSigner: false, isWritable: false },
+    { pubkey: validationAddress, isSigner: false, isWritable: false }
+  );
+}
+
+/**
+ * Builds the transferChecked instruction for the mint's program, including
+ * the expected fee for transfer-fee mints and the extra accounts required by
+ * a transfer hook. Pass `hookAccounts` from loadTransferHookAccounts when
+ * building many transfers; without it the list is fetched for this one.
+ */
+export async function createTransferInstructionForMint(
+  connection,
+  mintInfo,
+  { source, destination, owner, amount, fee },
+  hookAccounts
+) {
+  const { address: mint, decimals, programId } = mintInfo;
+
+  const instruction = mintInfo.transferFeeConfig
+    ? createTransferCheckedWithFeeInstruction(source, mint, destination, owner, amount, decimals, fee, [], programId)
+    : createTransferCheckedInstruction(source, mint, destination, owner, amount, decimals, [], programId);
+
+  if (mintInfo.transferHook) {
+    await addTransferHookAccounts(
+      connection,
+      instruction,
+      hookAccounts ?? (await loadTransferHookAccounts(connection, mintInfo)),
+      { source, mint, destination, owner, amount }
+    );
+  }
+  return instruction;
+}
+
+// Summary of the mint's program and extensions for API responses
+export function describeMint(mintInfo, epoch) {
+  const transferFee = mintInfo.transferFeeConfig
+    ? getEpochFee(mintInfo.transferFeeConfig, epoch)
+    : null;
+
+  return {
+    token_program: mintInfo.programId.equals(TOKEN_2022_PROGRAM_ID) ? 'token-2022' : 'spl-token',
+    token_program_id: mintInfo.programId.toBase58(),
+    extensions: mintInfo.extensions,
+    transfer_fee: transferFee
+      ? {
+          basis_points: transferFee.transferFeeBasisPoints,
+          maximum_fee: transferFee.maximumFee.toString(),
+        }
+      : null,
+    transfer_hook_program: mintInfo.transferHook?.programId?.toBase58() ?? null,
+  };
+}
@@ -0,0 +1,179 @@
+/*
+ * =============================================================================
+ * Confirmation Tracker
+ * =============================================================================
+ * Background worker that follows submitted signatures until they land:
+ * sent -> confirmed -> finalized, or expired once the blockhash is no longer
+ * valid, or failed if the transaction errored on chain.
+ * =============================================================================
+ */
+
+import { query } from './db.js';
+import { publishJobChange } from './events.js';
+
+// --- Configuration ---
+const CONFIRMATION_POLL_INTERVAL_MS = 5000;
+const MAX_SIGNATURES_PER_POLL = 1000;
+// getSignatureStatuses accepts at most 256 signatures per call
+const SIGNATURE_STATUS_CHUNK_SIZE = 256;
+
+// Task states that still need the tracker or the submit loop
+export const ACTIVE_TASK_STATUSES = ['pending', 'signing', 'queued', 'processing', 'sent'];
+
+/**
+ * Marks a running job completed once none of its tasks are still waiting to
+ * be sent or to land. Returns whether this call completed it.
+ */
+export async function completeJobIfDone(jobId) {
+  const result = await query(
+    `UPDATE jobs SET status = $1, updated_at = NOW()
+     WHERE job_id = $2 AND status = $3
+       AND NOT EXISTS (SELECT 1 FROM tasks WHERE job_id = $2 AND status = ANY($4))
+     RETURNING job_id`,
+    ['completed', jobId, 'running', ACTIVE_TASK_STATUSES]
+  );
+  if (result.rowCount > 0) {
+    console.log(`[Job ${jobId}]: Completed`);
+    publishJobChange(jobId);
+  }
+  return result.rowCount > 0;
+}
+
+async function applySignatureStatus(signature, status, blockHeight, lastValidBlockHeight) {
+  if (!status) {
+    // Not seen on chain; once the blockhash expires it never will be
+    if (lastValidBlockHeight !== null && blockHeight > Number(lastValidBlockHeight)) {
+      return query(
+        `UPDATE tasks SET status = $1, error_message = $2, retry_count = retry_count + 1, status_actor = 'tracker',
+                updated_at = NOW()
+         WHERE tx_signature = $3 AND status = $4
+         RETURNING job_id, task_id`,
+        ['expired', 'Blockhash expired before the transaction landed.', signature, 'sent']
+      );
+    }
+    return null;
+  }
+
+  if (status.err) {
+    return query(
+      `UPDATE tasks SET status = $1, error_message = $2, confirmed_slot = $3,
+              retry_count = retry_count + 1, status_actor = 'tracker', updated_at = NOW()
+       WHERE tx_signature = $4 AND status IN ('sent', 'confirmed')
+       RETURNING job_id, task_id`,
+      ['failed', `Transaction failed on chain: ${JSON.stringify(status.err)}`.substring(0, 500), status.slot, signature]
+    );
+  }
+
+  if (status.confirmationStatus === 'finalized') {
+    return query(
+      `UPDATE tasks SET status = $1, confirmed_slot = $2, confirmed_at = COALESCE(confirmed_at, NOW()),
+              error_message = NULL, status_actor = 'tracker', updated_at = NOW()
+       WHERE tx_signature = $3 AND status IN ('sent', 'confirmed')
+       RETURNING job_id, task_id`,
+      ['finalized', status.slot, signature]
+    );
+  }
+
+  if (status.confirmationStatus === 'confirmed') {
+    return query(
+      `UPDATE tasks SET status = $1, confirmed_slot = $2, confirmed_at = NOW(), error_message = NULL,
+              status_actor = 'tracker', updated_at = NOW()
+       WHERE tx_signature = $3 AND status = $4
+       RETURNING job_id, task_id`,
+      ['confirmed', status.slot, signature, 'sent']
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Polls the status of every outstanding signature once. Tasks packed into
+ * the same transaction share a signature and move together.
+ */
+export async function checkSentTransactions(connection, { onJobCompleted } = {}) {
+  const pendingResult = await query(
+    `SELECT tx_signature, MAX(last_valid_block_height) AS last_valid_block_height
+     FROM tasks WHERE status IN ('sent', 'confirmed') AND tx_signature IS NOT NULL
+     GROUP BY tx_signature
+     ORDER BY MIN(updated_at)
+     LIMIT $1`,
+    [MAX_SIGNATURES_PER_POLL]
+  );
+  if (pendingResult.rows.length === 0) {
+    return;
+  }
+
+  const blockHeight = await connection.getBlockHeight('confirmed');
+  // job_id -> task ids that changed this poll
+  const touchedJobs = new Map();
+
+  for (let i = 0; i < pendingResult.rows.length; i += SIGNATURE_STATUS_CHUNK_SIZE) {
+    const chunk = pendingResult.rows.slice(i, i + SIGNATURE_STATUS_CHUNK_SIZE);
+    const { value: statuses } = await connection.getSignatureStatuses(
+      chunk.map((row) => row.tx_signature)
+    );
+
+    // Only recent statuses are cached, e.g. not those from before a long restart; search history before expiring
+    const unseen = chunk
+      .map((row, index) => index)
+      .filter(
+        (index) =>
+          !statuses[index] &&
+          chunk[index].last_valid_block_height !== null &&
+          blockHeight > Number(chunk[index].last_valid_block_height)
+      );
+    if (unseen.length > 0) {
+      const { value: history } = await connection.getSignatureStatuses(
+        unseen.map((index) => chunk[index].tx_signature),
+        { searchTransactionHistory: true }
+      );
+      unseen.forEach((index, position) => {
+        statuses[index] = history[position];
+      });
+    }
+
+    for (const [index, row] of chunk.entries()) {
+      const result = await applySignatureStatus(
+        row.tx_signature,
+        statuses[index],
+        blockHeight,
+        row.last_valid_block_height
+      );
+      result?.rows.forEach((updated) => {
+        if (!touchedJobs.has(updated.job_id)) touchedJobs.set(updated.job_id, []);
+        touchedJobs.get(updated.job_id).push(updated.task_id);
+      });
+    }
+  }
+
+  for (const [jobId, taskIds] of touchedJobs) {
+    publishJobChange(jobId, taskIds);
+    if ((await completeJobIfDone(jobId)) && onJobCompleted) {
+      await onJobCompleted(jobId);
+    }
+  }
+}
+
+/**
+ * Starts the tracker loop. `onJobCompleted` runs for each job the tracker
+ * completes. Returns a function that stops it.
+ */
+export function startConfirmationTracker(connection, options = {}) {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow poll
+    if (running) return;
+    running = true;
+    try {
+      await checkSentTransactions(connection, options);
+    } catch (err) {
+      console.error('Confirmation tracker error:', err.message);
+    } finally {
+      running = false;
+    }
+  }, CONFIRMATION_POLL_INTERVAL_MS);
+
+  return () => clearInterval(timer);
+}
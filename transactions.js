@@ -0,0 +1,565 @@
+/*
+ * =============================================================================
+ * Transaction Builder
+ * =============================================================================
+ * Packs transfer tasks into as few versioned transactions as possible while
+ * staying under the packet size and compute unit limits, and manages the
+ * optional per-job address lookup table.
+ * =============================================================================
+ */
+
+import {
+  PublicKey,
+  TransactionMessage,
+  VersionedTransaction,
+  ComputeBudgetProgram,
+  AddressLookupTableProgram,
+  SystemProgram,
+  PACKET_DATA_SIZE,
+} from '@solana/web3.js';
+import {
+  getAssociatedTokenAddressSync,
+  createAssociatedTokenAccountIdempotentInstruction,
+  TOKEN_2022_PROGRAM_ID,
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+} from '@solana/spl-token';
+import {
+  loadMint,
+  calculateTransfer,
+  createTransferInstructionForMint,
+  loadTransferHookAccounts,
+  getJobTokenProgramId,
+} from './tokens.js';
+
+// --- Configuration ---
+export const MAX_COMPUTE_UNITS = 1_400_000;
+// Compute unit price used when the job's mode profile does not set one
+export const DEFAULT_COMPUTE_UNIT_PRICE_MICRO_LAMPORTS = 1000;
+const LAMPORTS_PER_SIGNATURE = 5000;
+
+// Conservative per-instruction estimates used to pack and to set the CU limit
+const COMPUTE_UNITS_BASE = 1_000;
+const COMPUTE_UNITS_PER_TRANSFER = 6_500;
+const COMPUTE_UNITS_PER_ATA_CREATE = 35_000;
+const COMPUTE_UNITS_PER_TOKEN_2022_TRANSFER = 15_000;
+const COMPUTE_UNITS_PER_TOKEN_2022_ATA_CREATE = 50_000;
+const COMPUTE_UNITS_PER_TRANSFER_HOOK = 60_000;
+
+// Runtime limit on accounts a single transaction may lock
+const MAX_ACCOUNT_LOCKS = 64;
+
+// getMultipleAccountsInfo accepts at most 100 keys per call
+const ACCOUNT_INFO_CHUNK_SIZE = 100;
+
+// Address lookup tables hold at most 256 addresses, extended in chunks that fit a packet
+const LOOKUP_TABLE_MAX_ADDRESSES = 256;
+const LOOKUP_TABLE_EXTEND_CHUNK_SIZE = 20;
+
+// A deactivated table can be closed once its deactivation slot leaves the SlotHashes sysvar
+export const LOOKUP_TABLE_COOLDOWN_SLOTS = 513;
+
+// Typical transfers per packed transaction without a lookup table, for upfront estimates
+const ESTIMATED_TRANSFERS_PER_TRANSACTION = 10;
+
+// Returns the base58 addresses of the given accounts that already exist
+export async function fetchExistingAccounts(connection, addresses) {
+  const existing = new Set();
+  for (let i = 0; i < addresses.length; i += ACCOUNT_INFO_CHUNK_SIZE) {
+    const chunk = addresses.slice(i, i + ACCOUNT_INFO_CHUNK_SIZE);
+    const infos = await connection.getMultipleAccountsInfo(chunk);
+    infos.forEach((info, index) => {
+      if (info) existing.add(chunk[index].toBase58());
+    });
+  }
+  return existing;
+}
+
+// Compiles the instructions, returning null if the transaction does not fit in a packet
+function compileTransaction(payerKey, recentBlockhash, instructions, lookupTables = []) {
+  try {
+    const messageV0 = new TransactionMessage({
+      payerKey,
+      recentBlockhash,
+      instructions,
+    }).compileToV0Message(lookupTables);
+    const accountCount = messageV0.staticAccountKeys.length + messageV0.numAccountKeysFromLookups;
+    if (accountCount > MAX_ACCOUNT_LOCKS) {
+      return null;
+    }
+    const transaction = new VersionedTransaction(messageV0);
+    if (transaction.serialize().length > PACKET_DATA_SIZE) {
+      return null;
+    }
+    return transaction;
+  } catch {
+    // Serialization throws once the message overruns the packet buffer
+    return null;
+  }
+}
+
+// Lamports a compute unit limit costs at a price in micro-lamports, rounded up
+function priorityFeeFor(computeUnits, computeUnitPrice) {
+  return (BigInt(computeUnits) * BigInt(computeUnitPrice) + BigInt(999_999)) / BigInt(1_000_000);
+}
+
+/**
+ * Estimates the network fees for a packed batch: the base fee per signature
+ * plus the priority fee implied by its compute unit limit and price.
+ */
+export function estimateTransactionFees(batch) {
+  const signatures = batch.transaction.message.header.numRequiredSignatures;
+  const baseFee = BigInt(LAMPORTS_PER_SIGNATURE * signatures);
+  const priorityFee = priorityFeeFor(
+    batch.computeUnits,
+    batch.computeUnitPrice ?? DEFAULT_COMPUTE_UNIT_PRICE_MICRO_LAMPORTS
+  );
+  return { baseFee, priorityFee };
+}
+
+/**
+ * What a compiled transaction will cost its fee payer, read from the
+ * transaction itself: base fee, priority fee from its compute budget
+ * instructions, and lamports it moves with top-level system transfers
+ * (delivery tips). Used to hold a job to its fee budget.
+ */
+export function estimateCompiledTransactionCost(transaction) {
+  const { message } = transaction;
+  const baseFee = BigInt(LAMPORTS_PER_SIGNATURE * message.header.numRequiredSignatures);
+  let computeUnits = 0;
+  let computeUnitPrice = BigInt(0);
+  let tips = BigInt(0);
+
+  for (const instruction of message.compiledInstructions) {
+    const programId = message.staticAccountKeys[instruction.programIdIndex];
+    const data = Buffer.from(instruction.data);
+    if (programId.equals(ComputeBudgetProgram.programId)) {
+      // SetComputeUnitLimit (2) carries a u32, SetComputeUnitPrice (3) a u64
+      if (data[0] === 2) computeUnits = data.readUInt32LE(1);
+      if (data[0] === 3) computeUnitPrice = data.readBigUInt64LE(1);
+    } else if (programId.equals(SystemProgram.programId) && data.length >= 12 && data.readUInt32LE(0) === 2) {
+      tips += data.readBigUInt64LE(4);
+    }
+  }
+
+  const priorityFee = priorityFeeFor(computeUnits, computeUnitPrice);
+  return { baseFee, priorityFee, tips, total: baseFee + priorityFee + tips };
+}
+
+/**
+ * Rough fee estimate for a number of transfers before any transaction is
+ * built, assuming typical packing and the more expensive Token-2022 costs.
+ */
+export function estimateTransferFees(
+  transferCount,
+  accountsToCreate,
+  computeUnitPrice = DEFAULT_COMPUTE_UNIT_PRICE_MICRO_LAMPORTS
+) {
+  const transactions = Math.ceil(transferCount / ESTIMATED_TRANSFERS_PER_TRANSACTION);
+  const computeUnits =
+    transactions * COMPUTE_UNITS_BASE +
+    transferCount * COMPUTE_UNITS_PER_TOKEN_2022_TRANSFER +
+    accountsToCreate * COMPUTE_UNITS_PER_TOKEN_2022_ATA_CREATE;
+  const baseFee = BigInt(LAMPORTS_PER_SIGNATURE * transactions);
+  const priorityFee = priorityFeeFor(computeUnits, computeUnitPrice);
+  return { baseFee, priorityFee };
+}
+
+function budgetInstructions(computeUnits, computeUnitPrice) {
+  return [
+    ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnits }),
+    ComputeBudgetProgram.setComputeUnitPrice({ microLamports: computeUnitPrice }),
+  ];
+}
+
+/**
+ * Builds unsigned transactions for the given tasks, packing as many
+ * ATA-creation + transferChecked pairs into each transaction as fit. Amounts
+ * are adjusted for Token-2022 transfer fees according to the job's fee mode.
+ *
+ * Returns the packed batches, each with the tasks it covers, the number of
+ * ATAs it creates and the tokens it moves, plus the blockhash and mint they
+ * were built against. At most `maxTransactions` batches are built; tasks that
+ * did not fit are left out and stay pending. Passing the job's `lookupTable` compiles against it so
+ * many more transfers fit. Transfers are signed and paid for by the
+ * distributor unless an `authority` (the job's delegate) is given.
+ * `extraInstructions` (e.g. a Jito tip) are appended to every transaction.
+ * The job's mode profile supplies `computeUnitPrice` and `maxComputeUnits`,
+ * the most compute a single transaction may ask for.
+ */
+export async function buildTransferTransactions(
+  connection,
+  job,
+  tasks,
+  {
+    maxTransactions,
+    lookupTable,
+    authority,
+    extraInstructions = [],
+    computeUnitPrice = DEFAULT_COMPUTE_UNIT_PRICE_MICRO_LAMPORTS,
+    maxComputeUnits = MAX_COMPUTE_UNITS,
+  } = {}
+) {
+  const lookupTables = lookupTable ? [lookupTable] : [];
+  const distributorPubkey = new PublicKey(job.distributor_address);
+  const authorityPubkey = authority ?? distributorPubkey;
+  const tokenMintPubkey = new PublicKey(job.token_mint_address);
+
+  const mintInfo = await loadMint(connection, tokenMintPubkey);
+  const hookAccounts = await loadTransferHookAccounts(connection, mintInfo);
+  const programId = mintInfo.programId;
+  const isToken2022 = programId.equals(TOKEN_2022_PROGRAM_ID);
+  const epoch = mintInfo.transferFeeConfig
+    ? BigInt((await connection.getEpochInfo('confirmed')).epoch)
+    : BigInt(0);
+
+  const distributorTokenAccount = getAssociatedTokenAddressSync(
+    tokenMintPubkey,
+    distributorPubkey,
+    false,
+    programId
+  );
+
+  const transfers = tasks.map((task) => {
+    const recipientPubkey = new PublicKey(task.recipient_address);
+    return {
+      task,
+      recipientPubkey,
+      // Recipients may be PDAs; the validation report warns about them
+      recipientTokenAccount: getAssociatedTokenAddressSync(tokenMintPubkey, recipientPubkey, true, programId),
+    };
+  });
+
+  const transferUnits =
+    (isToken2022 ? COMPUTE_UNITS_PER_TOKEN_2022_TRANSFER : COMPUTE_UNITS_PER_TRANSFER) +
+    (mintInfo.transferHook ? COMPUTE_UNITS_PER_TRANSFER_HOOK : 0);
+  const ataCreateUnits = isToken2022 ? COMPUTE_UNITS_PER_TOKEN_2022_ATA_CREATE : COMPUTE_UNITS_PER_ATA_CREATE;
+
+  const existingAccounts = await fetchExistingAccounts(
+    connection,
+    transfers.map((transfer) => transfer.recipientTokenAccount)
+  );
+
+  const latestBlockhash = await connection.getLatestBlockhash('confirmed');
+  const batches = [];
+
+  let current = {
+    tasks: [],
+    instructions: [],
+    computeUnits: COMPUTE_UNITS_BASE,
+    computeUnitPrice,
+    accountsCreated: 0,
+    tokenAmount: BigInt(0),
+    transaction: null,
+  };
+  // ATAs already created by an earlier transfer in this build (repeated recipients)
+  const plannedAccounts = new Set();
+
+  for (const transfer of transfers) {
+    const ataAddress = transfer.recipientTokenAccount.toBase58();
+    const instructions = [];
+    let computeUnits = transferUnits;
+
+    const needsAccount = !existingAccounts.has(ataAddress) && !plannedAccounts.has(ataAddress);
+    if (needsAccount) {
+      // Idempotent, as a concurrent batch or retry may create the same account first
+      instructions.push(
+        createAssociatedTokenAccountIdempotentInstruction(
+          authorityPubkey,
+          transfer.recipientTokenAccount,
+          transfer.recipientPubkey,
+          tokenMintPubkey,
+          programId
+        )
+      );
+      computeUnits += ataCreateUnits;
+    }
+
+    const { transferAmount, fee } = calculateTransfer(
+      mintInfo,
+      BigInt(transfer.task.amount),
+      epoch,
+      job.transfer_fee_mode
+    );
+    instructions.push(
+      await createTransferInstructionForMint(connection, mintInfo, {
+        source: distributorTokenAccount,
+        destination: transfer.recipientTokenAccount,
+        owner: authorityPubkey,
+        amount: transferAmount,
+        fee,
+      }, hookAccounts)
+    );
+
+    const candidateUnits = current.computeUnits + computeUnits;
+    const candidateInstructions = [...current.instructions, ...instructions];
+    const candidate =
+      candidateUnits <= maxComputeUnits
+        ? compileTransaction(
+            authorityPubkey,
+            latestBlockhash.blockhash,
+            [...budgetInstructions(candidateUnits, computeUnitPrice), ...candidateInstructions, ...extraInstructions],
+            lookupTables
+          )
+        : null;
+
+    if (candidate) {
+      current.tasks.push(transfer.task);
+      current.instructions = candidateInstructions;
+      current.computeUnits = candidateUnits;
+      current.tokenAmount += transferAmount;
+      current.transaction = candidate;
+      if (needsAccount) {
+        plannedAccounts.add(ataAddress);
+        current.accountsCreated++;
+      }
+      continue;
+    }
+
+    if (current.tasks.length === 0) {
+      throw new Error(`Transfer for task ${transfer.task.task_id} does not fit in a single transaction.`);
+    }
+
+    batches.push(current);
+    if (maxTransactions && batches.length >= maxTransactions) {
+      return { batches, latestBlockhash, mintInfo };
+    }
+
+    // Start a fresh transaction with this transfer alone
+    const units = COMPUTE_UNITS_BASE + computeUnits;
+    const transaction = compileTransaction(
+      authorityPubkey,
+      latestBlockhash.blockhash,
+      [...budgetInstructions(units, computeUnitPrice), ...instructions, ...extraInstructions],
+      lookupTables
+    );
+    if (!transaction || units > maxComputeUnits) {
+      throw new Error(`Transfer for task ${transfer.task.task_id} does not fit in a single transaction.`);
+    }
+    current = {
+      tasks: [transfer.task],
+      instructions,
+      computeUnits: units,
+      computeUnitPrice,
+      accountsCreated: needsAccount ? 1 : 0,
+      tokenAmount: transferAmount,
+      transaction,
+    };
+    if (needsAccount) plannedAccounts.add(ataAddress);
+  }
+
+  if (current.tasks.length > 0) {
+    batches.push(current);
+  }
+
+  return { batches, latestBlockhash, mintInfo };
+}
+
+/**
+ * Recompiles built batches for simulation with `setupInstructions` in front:
+ * steps the real run takes first that are not on chain yet, such as a
+ * delegate's approval. `payerKey` pays the simulated fees, as the setup has
+ * to fund the real payer first. A batch too full to take the setup is split
+ * between transfers, so each gets `simulationTransactions`, one or more.
+ * Returns the setup alone compiled the same way, to measure what it uses.
+ * Expects at least one batch.
+ */
+export function addSimulationSetup(batches, payerKey, setupInstructions, { lookupTable, extraInstructions = [] } = {}) {
+  const lookupTables = lookupTable ? [lookupTable] : [];
+  const compile = (recentBlockhash, instructions, extra = extraInstructions) =>
+    compileTransaction(
+      payerKey,
+      recentBlockhash,
+      [...budgetInstructions(MAX_COMPUTE_UNITS, 0), ...setupInstructions, ...instructions, ...extra],
+      lookupTables
+    );
+
+  for (const batch of batches) {
+    const { recentBlockhash } = batch.transaction.message;
+    // Each transfer instruction closes a group with the ATA creation before it
+    const groups = [];
+    let group = [];
+    for (const instruction of batch.instructions) {
+      group.push(instruction);
+      if (!instruction.programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)) {
+        groups.push(group);
+        group = [];
+      }
+    }
+
+    batch.simulationTransactions = [];
+    let pending = [];
+    let compiled = null;
+    for (const next of groups) {
+      const candidate = compile(recentBlockhash, [...pending, next].flat());
+      if (candidate) {
+        pending.push(next);
+        compiled = candidate;
+        continue;
+      }
+      if (pending.length > 0) batch.simulationTransactions.push(compiled);
+      pending = [next];
+      compiled = compile(recentBlockhash, next);
+      if (!compiled) {
+        throw new Error('A transfer does not fit in a transaction alongside its setup.');
+      }
+    }
+    if (compiled) batch.simulationTransactions.push(compiled);
+  }
+
+  return compile(batches[0].transaction.message.recentBlockhash, [], []);
+}
+
+// Compiles a v0 transaction without a lookup table, for setup and cleanup steps
+export function compileSetupTransaction(payerKey, recentBlockhash, instructions) {
+  const messageV0 = new TransactionMessage({
+    payerKey,
+    recentBlockhash,
+    instructions,
+  }).compileToV0Message();
+  return new VersionedTransaction(messageV0);
+}
+
+/**
+ * Addresses a job's lookup table holds: the mint, distributor ATA, programs
+ * and as many recipient ATAs as fit.
+ */
+export function collectLookupTableAddresses(job, tasks) {
+  const distributorPubkey = new PublicKey(job.distributor_address);
+  const tokenMintPubkey = new PublicKey(job.token_mint_address);
+  const programId = getJobTokenProgramId(job);
+
+  const addresses = [
+    tokenMintPubkey,
+    getAssociatedTokenAddressSync(tokenMintPubkey, distributorPubkey, false, programId),
+    programId,
+    ASSOCIATED_TOKEN_PROGRAM_ID,
+    SystemProgram.programId,
+  ];
+  const seen = new Set(addresses.map((address) => address.toBase58()));
+
+  // Recipients beyond the table's capacity fall back to static account keys
+  for (const task of tasks) {
+    if (addresses.length >= LOOKUP_TABLE_MAX_ADDRESSES) break;
+    const recipientTokenAccount = getAssociatedTokenAddressSync(
+      tokenMintPubkey,
+      new PublicKey(task.recipient_address),
+      true,
+      programId
+    );
+    const key = recipientTokenAccount.toBase58();
+    if (!seen.has(key)) {
+      seen.add(key);
+      addresses.push(recipientTokenAccount);
+    }
+  }
+
+  return addresses;
+}
+
+// Addresses the job's lookup table should hold but does not yet, up to its capacity
+export function missingLookupTableAddresses(job, tasks, lookupTable) {
+  const held = new Set(lookupTable.state.addresses.map((address) => address.toBase58()));
+  return collectLookupTableAddresses(job, tasks)
+    .filter((address) => !held.has(address.toBase58()))
+    .slice(0, Math.max(LOOKUP_TABLE_MAX_ADDRESSES - held.size, 0));
+}
+
+/**
+ * Builds the transactions that create an address lookup table for a job and
+ * extend it with the addresses from `collectLookupTableAddresses`.
+ * Given the job's `existingTable` (one whose create already landed), it only
+ * builds the extends for the addresses the table does not hold yet.
+ * The distributor is both authority and payer, so it also gets the rent back
+ * when the table is closed.
+ */
+export async function buildLookupTableTransactions(connection, job, tasks, existingTable = null) {
+  const distributorPubkey = new PublicKey(job.distributor_address);
+  const addresses = existingTable
+    ? missingLookupTableAddresses(job, tasks, existingTable)
+    : collectLookupTableAddresses(job, tasks);
+
+  let createInstruction = null;
+  let lookupTableAddress;
+  if (existingTable) {
+    lookupTableAddress = existingTable.key;
+  } else {
+    const recentSlot = await connection.getSlot('finalized');
+    [createInstruction, lookupTableAddress] = AddressLookupTableProgram.createLookupTable({
+      authority: distributorPubkey,
+      payer: distributorPubkey,
+      recentSlot,
+    });
+  }
+
+  const latestBlockhash = await connection.getLatestBlockhash('confirmed');
+  const transactions = [];
+
+  for (let i = 0; i < addresses.length; i += LOOKUP_TABLE_EXTEND_CHUNK_SIZE) {
+    const extendInstruction = AddressLookupTableProgram.extendLookupTable({
+      lookupTable: lookupTableAddress,
+      authority: distributorPubkey,
+      payer: distributorPubkey,
+      addresses: addresses.slice(i, i + LOOKUP_TABLE_EXTEND_CHUNK_SIZE),
+    });
+    const instructions = i === 0 && createInstruction ? [createInstruction, extendInstruction] : [extendInstruction];
+    transactions.push(
+      compileSetupTransaction(distributorPubkey, latestBlockhash.blockhash, instructions)
+    );
+  }
+
+  return { lookupTableAddress, transactions, addressCount: addresses.length };
+}
+
+// AddressLookupTableProgram instruction indexes, the u32 each instruction's data starts with
+const LOOKUP_TABLE_INSTRUCTIONS = { deactivate: 3, close: 4 };
+
+/**
+ * Whether a signed transaction (base64) does nothing but the given lookup
+ * table `action` ('deactivate' or 'close') on `lookupTableAddress`.
+ */
+export function isLookupTableStepTransaction(transaction, lookupTableAddress, action) {
+  const { message } = VersionedTransaction.deserialize(Buffer.from(transaction, 'base64'));
+  if (message.addressTableLookups.length > 0 || message.compiledInstructions.length !== 1) {
+    return false;
+  }
+  const [instruction] = message.compiledInstructions;
+  const programId = message.staticAccountKeys[instruction.programIdIndex];
+  const lookupTable = message.staticAccountKeys[instruction.accountKeyIndexes[0]];
+  return (
+    programId.equals(AddressLookupTableProgram.programId) &&
+    instruction.data.length >= 4 &&
+    Buffer.from(instruction.data).readUInt32LE(0) === LOOKUP_TABLE_INSTRUCTIONS[action] &&
+    Boolean(lookupTable?.equals(new PublicKey(lookupTableAddress)))
+  );
+}
+
+/**
+ * Builds the transaction that deactivates a job's lookup table, the first
+ * step towards closing it.
+ */
+export async function buildLookupTableDeactivateTransaction(connection, job) {
+  const distributorPubkey = new PublicKey(job.distributor_address);
+  const latestBlockhash = await connection.getLatestBlockhash('confirmed');
+  return compileSetupTransaction(distributorPubkey, latestBlockhash.blockhash, [
+    AddressLookupTableProgram.deactivateLookupTable({
+      lookupTable: new PublicKey(job.lookup_table_address),
+      authority: distributorPubkey,
+    }),
+  ]);
+}
+
+/**
+ * Builds the transaction that closes a deactivated lookup table and refunds
+ * its rent to the distributor.
+ */
+export async function buildLookupTableCloseTransaction(connection, job) {
+  const distributorPubkey = new PublicKey(job.distributor_address);
+  const latestBlockhash = await connection.getLatestBlockhash('confirmed');
+  return compileSetupTransaction(distributorPubkey, latestBlockhash.blockhash, [
+    AddressLookupTableProgram.closeLookupTable({
+      lookupTable: new PublicKey(job.lookup_table_address),
+      authority: distributorPubkey,
+      recipient: distributorPubkey,
+    }),
+  ]);
+}